@@ -1,14 +1,18 @@
 import { useState, useEffect } from 'react'
-import type { Translation, Project } from './types'
+import type { Translation, Project, Profile } from './types'
 import { supabase } from './supabaseClient'
 import LoginPage from './components/LoginPage'
 import UploadView from './components/UploadView'
 import TableView from './components/TableView'
 import ExportView from './components/ExportView'
+import StatsView from './components/StatsView'
+import ProjectSettingsView from './components/ProjectSettingsView'
+import UsersView from './components/UsersView'
+import { canManageProjects, canUpload, isAdmin, roleLabel } from './utils/permissions'
 
-type View = 'translations' | 'upload' | 'export'
+type View = 'translations' | 'stats' | 'upload' | 'export' | 'settings' | 'users'
 
-const NAV_ITEMS: { key: View; label: string; icon: React.ReactNode }[] = [
+const NAV_ITEMS: { key: View; label: string; icon: React.ReactNode; allowed?: (profile: Profile) => boolean }[] = [
   {
     key: 'translations',
     label: 'Translations',
@@ -18,9 +22,19 @@ const NAV_ITEMS: { key: View; label: string; icon: React.ReactNode }[] = [
       </svg>
     ),
   },
+  {
+    key: 'stats',
+    label: 'Statistics',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+      </svg>
+    ),
+  },
   {
     key: 'upload',
     label: 'Upload',
+    allowed: canUpload,
     icon: (
       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
@@ -36,11 +50,37 @@ const NAV_ITEMS: { key: View; label: string; icon: React.ReactNode }[] = [
       </svg>
     ),
   },
+  {
+    key: 'settings',
+    label: 'Settings',
+    allowed: canManageProjects,
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+    ),
+  },
+  {
+    key: 'users',
+    label: 'Users',
+    allowed: isAdmin,
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+    ),
+  },
 ]
 
 export default function App() {
-  const [authenticated, setAuthenticated] = useState(false)
+  // undefined until the initial session has been resolved
+  const [userId, setUserId] = useState<string | null | undefined>(undefined)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  // Why the signed-in user's profile could not be loaded
+  const [profileError, setProfileError] = useState<string | null>(null)
   const [currentView, setCurrentView] = useState<View>('translations')
+  const [tableFilter, setTableFilter] = useState<{ language: string; group: string | null } | null>(null)
   const [translations, setTranslations] = useState<Translation[]>([])
   const [projects, setProjects] = useState<Project[]>([])
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null)
@@ -49,11 +89,40 @@ export default function App() {
   const [refreshKey, setRefreshKey] = useState(0)
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; projectId: string } | null>(null)
 
+  const authenticated = profile !== null
+
   useEffect(() => {
-    const saved = localStorage.getItem('tm_authenticated')
-    if (saved === 'true') setAuthenticated(true)
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null)
+      setProfileError(null)
+      if (!session) setProfile(null)
+    })
+
+    return () => subscription.unsubscribe()
   }, [])
 
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) setProfileError(`Your profile could not be loaded: ${error.message}`)
+        else if (!data) setProfileError('This account has no profile yet. Ask an admin to set one up.')
+        else if (!data.role) setProfileError('This account has no access yet. Ask an admin to give it a role.')
+        setProfile(data)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
   useEffect(() => {
     if (authenticated) fetchProjects()
   }, [authenticated])
@@ -93,6 +162,10 @@ export default function App() {
     }
   }
 
+  function handleProjectUpdate(updated: Project) {
+    setProjects((prev) => prev.map((p) => (p.id === updated.id ? updated : p)))
+  }
+
   function selectProject(id: string) {
     if (id === selectedProjectId) return
     setSelectedProjectId(id)
@@ -121,15 +194,42 @@ export default function App() {
     setContextMenu(null)
   }
 
-  function handleLogout() {
-    localStorage.removeItem('tm_authenticated')
-    setAuthenticated(false)
+  async function handleLogout() {
+    await supabase.auth.signOut()
+    setProjects([])
+    setTranslations([])
+    setCurrentView('translations')
   }
 
-  if (!authenticated) {
-    return <LoginPage onLogin={() => setAuthenticated(true)} />
+  if (userId === null) {
+    return <LoginPage />
   }
 
+  if (profileError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-3 text-sm">
+        <p className="text-red-600">{profileError}</p>
+        <button onClick={handleLogout} className="text-gray-500 hover:text-gray-700 underline">
+          Sign out
+        </button>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-400 text-sm">
+        Loading...
+      </div>
+    )
+  }
+
+  const allowedNavItems = NAV_ITEMS.filter((item) => !item.allowed || item.allowed(profile))
+  const activeView = allowedNavItems.some((item) => item.key === currentView) ? currentView : 'translations'
+  const allLanguages = Array.from(new Set(projects.flatMap((p) => p.languages)))
+
+  const selectedProject = projects.find((p) => p.id === selectedProjectId) ?? null
+
   return (
     <div className="flex h-screen bg-white" onClick={() => contextMenu && setContextMenu(null)}>
       {/* Sidebar */}
@@ -150,7 +250,9 @@ export default function App() {
                 onClick={() => selectProject(p.id)}
                 onContextMenu={(e) => {
                   e.preventDefault()
-                  setContextMenu({ x: e.clientX, y: e.clientY, projectId: p.id })
+                  if (canManageProjects(profile)) {
+                    setContextMenu({ x: e.clientX, y: e.clientY, projectId: p.id })
+                  }
                 }}
                 className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
                   selectedProjectId === p.id
@@ -187,7 +289,7 @@ export default function App() {
                   Add
                 </button>
               </div>
-            ) : (
+            ) : canManageProjects(profile) && (
               <button
                 onClick={() => setShowNewProject(true)}
                 className="w-full text-left px-3 py-2 rounded-lg text-sm text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
@@ -201,13 +303,16 @@ export default function App() {
         <div className="border-t border-gray-100 mx-3 mb-2" />
 
         <nav className="flex-1 px-3 space-y-0.5">
-          {NAV_ITEMS.map((item) => (
+          {allowedNavItems.map((item) => (
             <button
               key={item.key}
-              onClick={() => setCurrentView(item.key)}
+              onClick={() => {
+                setCurrentView(item.key)
+                setTableFilter(null)
+              }}
               disabled={!selectedProjectId}
               className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm font-medium transition-colors ${
-                currentView === item.key
+                activeView === item.key
                   ? 'bg-gray-900 text-white'
                   : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
               } disabled:opacity-40 disabled:cursor-not-allowed`}
@@ -219,6 +324,17 @@ export default function App() {
         </nav>
 
         <div className="px-3 pb-4">
+          <div className="px-3 py-2 min-w-0">
+            <p className="text-sm text-gray-700 truncate" title={profile.email}>
+              {profile.display_name || profile.email}
+            </p>
+            <p className="text-[11px] text-gray-400">
+              {roleLabel(profile.role)}
+              {profile.role === 'translator' && profile.languages.length > 0 && (
+                <> · {profile.languages.map((l) => l.toUpperCase()).join(', ')}</>
+              )}
+            </p>
+          </div>
           <button
             onClick={handleLogout}
             className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm text-gray-400
@@ -235,35 +351,60 @@ export default function App() {
       {/* Main content */}
       <main className="flex-1 overflow-y-auto">
         <div className="max-w-6xl mx-auto px-8 py-8">
-          {!selectedProjectId ? (
+          {!selectedProject ? (
             <div className="flex items-center justify-center py-20 text-gray-400 text-sm">
-              Create a project to get started.
+              {canManageProjects(profile)
+                ? 'Create a project to get started.'
+                : 'No projects yet. Ask an admin to create one.'}
             </div>
           ) : (
             <>
-              {currentView === 'translations' && (
+              {activeView === 'translations' && (
                 <TableView
-                  projectId={selectedProjectId}
+                  project={selectedProject}
+                  profile={profile}
                   translations={translations}
                   setTranslations={setTranslations}
                   refreshKey={refreshKey}
+                  initialFilter={tableFilter}
                 />
               )}
-              {currentView === 'upload' && (
+              {activeView === 'stats' && (
+                <StatsView
+                  project={selectedProject}
+                  translations={translations}
+                  onShowMissing={(language, group) => {
+                    setTableFilter({ language, group })
+                    setCurrentView('translations')
+                  }}
+                />
+              )}
+              {activeView === 'upload' && (
                 <UploadView
-                  projectId={selectedProjectId}
+                  project={selectedProject}
+                  profile={profile}
                   onUploadComplete={() => {
                     setRefreshKey((k) => k + 1)
                     setCurrentView('translations')
                   }}
                 />
               )}
-              {currentView === 'export' && (
+              {activeView === 'export' && (
                 <ExportView
-                  projectId={selectedProjectId}
+                  project={selectedProject}
                   translations={translations}
                 />
               )}
+              {activeView === 'settings' && (
+                <ProjectSettingsView
+                  key={selectedProject.id}
+                  project={selectedProject}
+                  onProjectUpdate={handleProjectUpdate}
+                />
+              )}
+              {activeView === 'users' && (
+                <UsersView currentProfile={profile} languages={allLanguages} />
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,373 @@
+import React, { useState, useMemo } from 'react'
+import type { KeyIssue, Profile, Project, ReviewStatus, Translation } from '../types'
+import { supabase } from '../supabaseClient'
+import {
+  applyRenames,
+  copyTranslation,
+  deleteRows,
+  insertRows,
+  planKeyRenames,
+  planValueEdits,
+  saveKeyRenames,
+  saveReviewStatuses,
+  saveTokenTypes,
+  saveValueEdits,
+  withSavedRows,
+} from '../utils/bulkEdits'
+import type { StatusChange, ValueEdit } from '../utils/bulkEdits'
+import { planKeyFixes, projectKeyRules } from '../utils/keyOptimizer'
+import { commonGroup, moveUnder, validateGroupPath } from '../utils/keyTree'
+import { getLangValue, languageLabel } from '../utils/languages'
+import { canDeleteTokens, canEditKeys, canEditLanguage, canSetStatus } from '../utils/permissions'
+import { getValueStatus, STATUS_LABELS } from '../utils/reviewStatus'
+
+const FETCH_SIZE = 1000
+const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'needs_review', 'approved', 'rejected']
+
+type BulkForm = 'type' | 'move' | 'copy' | 'clear' | 'status'
+
+interface BulkActionsProps {
+  project: Project
+  profile: Profile
+  translations: Translation[]
+  selected: Translation[]
+  issues: Map<string, KeyIssue>
+  setTranslations: React.Dispatch<React.SetStateAction<Translation[]>>
+  onClear: () => void
+}
+
+async function fetchKeyPaths(projectId: string): Promise<Set<string>> {
+  const paths = new Set<string>()
+  let from = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('translations')
+      .select('key_path')
+      .eq('project_id', projectId)
+      .range(from, from + FETCH_SIZE - 1)
+
+    if (error) throw error
+    for (const row of data ?? []) paths.add(row.key_path)
+    if (!data || data.length < FETCH_SIZE) break
+    from += FETCH_SIZE
+  }
+  return paths
+}
+
+export default function BulkActions({
+  project,
+  profile,
+  translations,
+  selected,
+  issues,
+  setTranslations,
+  onClear,
+}: BulkActionsProps) {
+  const [form, setForm] = useState<BulkForm | null>(null)
+  const [tokenType, setTokenType] = useState('')
+  const [prefix, setPrefix] = useState('')
+  const [projects, setProjects] = useState<Project[] | null>(null)
+  const [targetProjectId, setTargetProjectId] = useState('')
+  const [language, setLanguage] = useState(project.languages[0] ?? '')
+  const [status, setStatus] = useState<ReviewStatus>('needs_review')
+  const [statusLanguage, setStatusLanguage] = useState('any')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const tokenTypes = useMemo(() => {
+    return Array.from(new Set(translations.map((t) => t.token_type).filter((type): type is string => !!type))).sort()
+  }, [translations])
+
+  const fixable = selected.filter((t) => {
+    const issue = issues.get(t.key_path)
+    return issue && issue.keyPath !== t.key_path
+  })
+  const group = useMemo(() => commonGroup(selected.map((t) => t.key_path)), [selected])
+  const editableLanguages = project.languages.filter((lang) => canEditLanguage(profile, lang))
+  const statusLanguages = project.languages.filter((lang) => canSetStatus(profile, lang, status))
+
+  async function run(action: () => Promise<string>) {
+    setBusy(true)
+    setMessage(null)
+    try {
+      setMessage(await action())
+      setForm(null)
+    } catch (err) {
+      setMessage(`Failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function openForm(next: BulkForm) {
+    setForm(form === next ? null : next)
+    setMessage(null)
+    if (next === 'copy' && !projects) {
+      supabase
+        .from('projects')
+        .select('*')
+        .neq('id', project.id)
+        .order('created_at')
+        .then(({ data }) => {
+          setProjects(data ?? [])
+          if (data && data.length > 0) setTargetProjectId(data[0].id)
+        })
+    }
+  }
+
+  async function deleteSelected() {
+    if (!confirm(`Permanently delete ${selected.length} keys?`)) return
+
+    await run(async () => {
+      const deleted = new Set(await deleteRows(project.id, selected.map((t) => t.id)))
+      setTranslations((prev) => prev.filter((t) => !deleted.has(t.id)))
+      onClear()
+      return `Deleted ${deleted.size} keys.`
+    })
+  }
+
+  async function changeTokenType() {
+    const type = tokenType.trim() || null
+
+    await run(async () => {
+      const rows = await saveTokenTypes(project.id, selected.filter((t) => t.token_type !== type), type)
+      setTranslations((prev) => withSavedRows(prev, rows))
+      return `Changed the token type of ${rows.length} keys.`
+    })
+  }
+
+  async function moveSelected() {
+    const to = prefix.trim()
+    const error = validateGroupPath(to)
+    if (error) {
+      setMessage(error)
+      return
+    }
+
+    await run(async () => {
+      const targets = new Map(selected.map((t) => [t.id, moveUnder(t.key_path, group, to)]))
+      const plan = planKeyRenames(translations, targets)
+      if (plan.collisions.length > 0) {
+        return `Nothing moved: ${plan.collisions.length} keys would land on an existing path, e.g. ${plan.collisions[0].keyPath}.`
+      }
+      await saveKeyRenames(project.id, plan.renames, 'bulk')
+      setTranslations((prev) => applyRenames(prev, plan.renames))
+      return `Moved ${plan.renames.length} keys to ${to}.`
+    })
+  }
+
+  async function copyToProject() {
+    const target = projects?.find((p) => p.id === targetProjectId)
+    if (!target) return
+
+    await run(async () => {
+      const existing = await fetchKeyPaths(target.id)
+      const rows = selected
+        .filter((t) => !existing.has(t.key_path))
+        .map((t) => copyTranslation(t, target.id, t.key_path, target.languages))
+      const inserted = await insertRows(target.id, rows, 'bulk')
+      const skipped = selected.length - rows.length
+      return `Copied ${inserted.length} keys to ${target.name}.${skipped > 0 ? ` ${skipped} already existed there and were skipped.` : ''}`
+    })
+  }
+
+  async function clearLanguage() {
+    if (!confirm(`Clear the ${languageLabel(language)} value of ${selected.length} keys?`)) return
+
+    await run(async () => {
+      const edits: ValueEdit[] = selected.flatMap((t): ValueEdit[] => {
+        const base = { translationId: t.id, keyPath: t.key_path, language }
+        const variants = t.variant_kind ? t.lang_variants?.[language] : undefined
+        if (variants) return [{ ...base, field: 'variants', from: JSON.stringify(variants), to: null }]
+        const value = getLangValue(t.lang_values, language)
+        return value == null ? [] : [{ ...base, field: 'value', from: value, to: null }]
+      })
+      const saved = await saveValueEdits(project.id, planValueEdits(translations, edits), 'bulk')
+      setTranslations((prev) => withSavedRows(prev, saved.rows))
+      const stale = saved.stale.length > 0 ? ` ${saved.stale.length} values changed in the meantime and were left alone.` : ''
+      return `Cleared ${saved.applied.length} ${languageLabel(language)} values.${stale}`
+    })
+  }
+
+  async function setReviewStatus() {
+    const languages = statusLanguage === 'any' ? statusLanguages : statusLanguages.filter((lang) => lang === statusLanguage)
+    let comment: string | null = null
+    if (status === 'rejected') {
+      comment = prompt('Why are these values rejected?')
+      if (comment === null) return
+    }
+
+    await run(async () => {
+      const changes = selected.flatMap((t): StatusChange[] => {
+        const touched = languages.filter((lang) => getValueStatus(t, lang) !== 'missing')
+        if (touched.length === 0) return []
+        const next = status === 'draft' ? null : { status, comment: comment || null }
+        return [{ id: t.id, statuses: Object.fromEntries(touched.map((lang) => [lang, next])) }]
+      })
+      const rows = await saveReviewStatuses(project.id, changes)
+      setTranslations((prev) => withSavedRows(prev, rows))
+      return `Set ${rows.length} keys to ${STATUS_LABELS[status]}.`
+    })
+  }
+
+  // Keys outside the selection keep their paths; colliding suggestions get a numbered name
+  async function fixKeys() {
+    await run(async () => {
+      const selectedIds = new Set(fixable.map((t) => t.id))
+      const skipped = new Set(translations.filter((t) => !selectedIds.has(t.id)).map((t) => t.id))
+      // Fixes that would clash with another key's path are skipped, and the rest planned around them
+      let fixes = planKeyFixes(translations, projectKeyRules(project), skipped)
+      let conflicts = 0
+      while (fixes.some((f) => f.conflict)) {
+        for (const f of fixes.filter((f) => f.conflict)) skipped.add(f.id)
+        conflicts += fixes.filter((f) => f.conflict).length
+        fixes = planKeyFixes(translations, projectKeyRules(project), skipped)
+      }
+      const renames = fixes
+        .filter((f) => !f.skipped)
+        .map((f) => ({
+          id: f.id,
+          from: f.from,
+          to: f.to,
+          original_key: translations.find((t) => t.id === f.id)?.original_key || f.from,
+        }))
+      await saveKeyRenames(project.id, renames, 'bulk')
+      setTranslations((prev) => applyRenames(prev, renames))
+      return `Fixed ${renames.length} keys.${conflicts > 0 ? ` ${conflicts} were left as they are because the fix would clash with another key's path.` : ''}`
+    })
+  }
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+      active ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:bg-white hover:text-gray-900'
+    }`
+  const fieldClass = `px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white
+                      focus:outline-none focus:ring-1 focus:ring-accent`
+  const applyClass = `px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg
+                      hover:bg-gray-800 transition-colors disabled:opacity-50`
+
+  return (
+    <div className="rounded-xl bg-gray-100 p-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="px-2 text-xs font-medium text-gray-700">{selected.length} selected</span>
+        {canEditKeys(profile) && (
+          <>
+            <button onClick={() => openForm('type')} disabled={busy} className={buttonClass(form === 'type')}>
+              Token type
+            </button>
+            <button onClick={() => openForm('move')} disabled={busy} className={buttonClass(form === 'move')}>
+              Move
+            </button>
+            <button onClick={() => openForm('copy')} disabled={busy} className={buttonClass(form === 'copy')}>
+              Copy to project
+            </button>
+            <button onClick={fixKeys} disabled={busy || fixable.length === 0} className={buttonClass(false)}>
+              Fix key issues ({fixable.length})
+            </button>
+          </>
+        )}
+        {editableLanguages.length > 0 && (
+          <button onClick={() => openForm('clear')} disabled={busy} className={buttonClass(form === 'clear')}>
+            Clear language
+          </button>
+        )}
+        <button onClick={() => openForm('status')} disabled={busy} className={buttonClass(form === 'status')}>
+          Review status
+        </button>
+        {canDeleteTokens(profile) && (
+          <button onClick={deleteSelected} disabled={busy} className={`${buttonClass(false)} text-danger`}>
+            Delete
+          </button>
+        )}
+        <button onClick={onClear} className="ml-auto px-2 text-xs text-gray-400 hover:text-gray-600">
+          Clear selection
+        </button>
+      </div>
+
+      {form === 'type' && (
+        <div className="flex items-center gap-2 px-2">
+          <input
+            value={tokenType}
+            onChange={(e) => setTokenType(e.target.value)}
+            list="bulk-token-types"
+            placeholder="e.g. string"
+            className={`w-40 ${fieldClass}`}
+          />
+          <datalist id="bulk-token-types">
+            {tokenTypes.map((type) => <option key={type} value={type} />)}
+          </datalist>
+          <button onClick={changeTokenType} disabled={busy} className={applyClass}>Apply</button>
+        </div>
+      )}
+
+      {form === 'move' && (
+        <div className="flex items-center gap-2 px-2 text-xs text-gray-500">
+          <span>Move from {group ? <span className="font-mono">{group}</span> : 'the root'} to</span>
+          <input
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            placeholder="e.g. settings.profile"
+            className={`w-48 ${fieldClass}`}
+          />
+          {prefix.trim() && selected[0] && (
+            <span className="font-mono truncate">
+              {selected[0].key_path} → {moveUnder(selected[0].key_path, group, prefix.trim())}
+            </span>
+          )}
+          <button onClick={moveSelected} disabled={busy || !prefix.trim()} className={applyClass}>Move</button>
+        </div>
+      )}
+
+      {form === 'copy' && (
+        <div className="flex items-center gap-2 px-2 text-xs text-gray-500">
+          {projects === null ? (
+            <span>Loading projects...</span>
+          ) : projects.length === 0 ? (
+            <span>There are no other projects.</span>
+          ) : (
+            <>
+              <select value={targetProjectId} onChange={(e) => setTargetProjectId(e.target.value)} className={fieldClass}>
+                {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <span>Keys that already exist there are skipped.</span>
+              <button onClick={copyToProject} disabled={busy} className={applyClass}>Copy</button>
+            </>
+          )}
+        </div>
+      )}
+
+      {form === 'clear' && (
+        <div className="flex items-center gap-2 px-2">
+          <select value={language} onChange={(e) => setLanguage(e.target.value)} className={fieldClass}>
+            {editableLanguages.map((lang) => <option key={lang} value={lang}>{languageLabel(lang)}</option>)}
+          </select>
+          <button onClick={clearLanguage} disabled={busy || !editableLanguages.includes(language)} className={applyClass}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      {form === 'status' && (
+        <div className="flex items-center gap-2 px-2">
+          <select value={status} onChange={(e) => setStatus(e.target.value as ReviewStatus)} className={fieldClass}>
+            {REVIEW_STATUSES.map((s) => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+          </select>
+          <select value={statusLanguage} onChange={(e) => setStatusLanguage(e.target.value)} className={fieldClass}>
+            <option value="any">All languages</option>
+            {statusLanguages.map((lang) => <option key={lang} value={lang}>{languageLabel(lang)}</option>)}
+          </select>
+          <button
+            onClick={setReviewStatus}
+            disabled={busy || (statusLanguage !== 'any' && !statusLanguages.includes(statusLanguage))}
+            className={applyClass}
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
+      {message && <p className="px-2 text-xs text-gray-600">{message}</p>}
+    </div>
+  )
+}
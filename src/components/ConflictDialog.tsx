@@ -0,0 +1,72 @@
+import type { Variants } from '../types'
+import type { QueuedEdit } from '../utils/editQueue'
+import { languageLabel } from '../utils/languages'
+
+interface ConflictDialogProps {
+  conflicts: QueuedEdit[]
+  onKeepMine: (edit: QueuedEdit) => void
+  onUseTheirs: (edit: QueuedEdit) => void
+  onClose: () => void
+}
+
+// Forms travel as JSON; show them as "one: …, other: …"
+function formatValue(edit: QueuedEdit, value: string | null) {
+  if (!value) return <span className="text-gray-300 italic">empty</span>
+  if (edit.field === 'value') return value
+  return Object.entries(JSON.parse(value) as Variants).map(([category, v]) => `${category}: ${v}`).join(', ')
+}
+
+export default function ConflictDialog({ conflicts, onKeepMine, onUseTheirs, onClose }: ConflictDialogProps) {
+  return (
+    <div className="fixed inset-0 bg-black/20 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-2xl max-h-[80vh] overflow-y-auto p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Changed by someone else</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            These cells were saved by someone else while your edits were waiting. Pick the value to keep.
+          </p>
+        </div>
+
+        {conflicts.map((edit) => (
+          <div key={edit.id} className="rounded-xl border border-gray-200 p-3 space-y-2">
+            <div className="text-xs">
+              <code className="font-mono text-gray-700">{edit.keyPath}</code>
+              <span className="text-gray-400"> · {languageLabel(edit.language)}{edit.field === 'variants' ? ' plural/select forms' : ''}</span>
+            </div>
+            <dl className="grid grid-cols-[5rem_1fr] gap-x-3 gap-y-1 text-xs">
+              <dt className="text-gray-400">Before</dt>
+              <dd className="text-gray-500 break-words">{formatValue(edit, edit.from)}</dd>
+              <dt className="text-gray-400">Yours</dt>
+              <dd className="text-gray-900 break-words">{formatValue(edit, edit.to)}</dd>
+              <dt className="text-gray-400">Theirs</dt>
+              <dd className="text-gray-900 break-words">{formatValue(edit, edit.theirs)}</dd>
+            </dl>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onKeepMine(edit)}
+                className="px-3 py-1 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => onUseTheirs(edit)}
+                className="px-3 py-1 text-xs font-medium text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Use theirs
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors">
+            Decide later
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
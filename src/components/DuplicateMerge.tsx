@@ -0,0 +1,169 @@
+import React, { useState } from 'react'
+import type { Project, Translation } from '../types'
+import { applyEditPlan, planValueEdits, saveMerge, saveValueEdits, withSavedRows } from '../utils/bulkEdits'
+import { checkAliases, planAliasRetargets } from '../utils/designTokens'
+import { findKeyReferences, planAliasConversion, planMerge } from '../utils/duplicateDetector'
+import { getLangValue, languageLabel } from '../utils/languages'
+
+interface DuplicateMergeProps {
+  project: Project
+  rows: Translation[]
+  translations: Translation[]
+  setTranslations: React.Dispatch<React.SetStateAction<Translation[]>>
+  onMerged: (report: string) => void
+}
+
+// What still points at the removed keys once they are gone: values mentioning their paths
+// and Figma variables bound to them. Aliases of them are moved to the kept key
+function describeMerge(keep: Translation, removed: Translation[], translations: Translation[], retargeted: number): string {
+  const removedPaths = new Set(removed.map((t) => t.key_path))
+  const lines = [`Merged ${removed.length + 1} keys into ${keep.key_path}.`]
+  if (retargeted > 0) lines.push(`${retargeted} alias values that pointed at the removed keys now point at ${keep.key_path}.`)
+
+  for (const t of removed) {
+    const references = findKeyReferences(translations, t.key_path).filter((r) => !removedPaths.has(r.keyPath))
+    lines.push(
+      references.length > 0
+        ? `${t.key_path} is referenced in ${references.map((r) => `${r.keyPath} (${languageLabel(r.language)})`).join(', ')}.`
+        : `${t.key_path} is not referenced by other values.`,
+    )
+    if (t.figma_variable_id) {
+      lines.push(`Figma variable ${t.figma_variable_id} was bound to ${t.key_path}; rebind it to ${keep.key_path}.`)
+    }
+  }
+
+  lines.push('Code that uses the removed key paths needs to switch to the kept one.')
+  return lines.join('\n')
+}
+
+// Values an alias replaced that differ from the kept key's text once it took the missing ones,
+// so nothing is lost silently
+function describeAliases(keep: Translation, aliased: Translation[], skipped: Translation[], languages: string[]): string {
+  const lines = [`${aliased.map((t) => t.key_path).join(', ')} now reference ${keep.key_path} in every language.`]
+
+  const replaced = aliased.flatMap((t) =>
+    languages
+      .filter((lang) => {
+        const value = getLangValue(t.lang_values, lang)
+        return value && value !== getLangValue(keep.lang_values, lang)
+      })
+      .map((lang) => `${t.key_path} (${languageLabel(lang)})`),
+  )
+  if (replaced.length > 0) lines.push(`These values differed from ${keep.key_path} and were replaced: ${replaced.join(', ')}.`)
+  if (skipped.length > 0) {
+    lines.push(`${skipped.map((t) => t.key_path).join(', ')} have plural or select forms, which can't be aliases; they were left as they are.`)
+  }
+  return lines.join('\n')
+}
+
+export default function DuplicateMerge({ project, rows, translations, setTranslations, onMerged }: DuplicateMergeProps) {
+  const [open, setOpen] = useState(false)
+  const [keepId, setKeepId] = useState(rows[0]?.id ?? '')
+  const [merging, setMerging] = useState(false)
+
+  async function merge() {
+    const keep = rows.find((t) => t.id === keepId)
+    if (!keep) return
+    const removed = rows.filter((t) => t.id !== keep.id)
+    if (!confirm(`Keep ${keep.key_path} and delete ${removed.length} other keys? Values it is missing are taken from them.`)) return
+
+    setMerging(true)
+    try {
+      const removedIds = new Set(removed.map((t) => t.id))
+      const retargets = planAliasRetargets(
+        translations.filter((t) => !removedIds.has(t.id)),
+        new Map(removed.map((t) => [t.key_path, keep.key_path])),
+      )
+      const plan = planValueEdits(translations, [...planMerge(keep, removed, project.languages), ...retargets])
+      const report = describeMerge(keep, removed, translations, retargets.length)
+      if (plan.stale.length > 0) {
+        onMerged('Nothing merged: some of these values changed meanwhile. Reload and try again.')
+        return
+      }
+      const rows = await saveMerge(project.id, plan, [...removedIds])
+
+      setTranslations((prev) => withSavedRows(prev, rows).filter((t) => !removedIds.has(t.id)))
+      onMerged(report)
+    } catch (err) {
+      onMerged(`Merge failed, nothing was changed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  async function convertToAliases() {
+    const keep = rows.find((t) => t.id === keepId)
+    if (!keep) return
+    const others = rows.filter((t) => t.id !== keep.id)
+    const aliased = others.filter((t) => !t.variant_kind)
+    const skipped = others.filter((t) => t.variant_kind)
+    if (aliased.length === 0) {
+      onMerged('The other keys all have plural or select forms, which can\'t be aliases.')
+      return
+    }
+    if (!confirm(`Make ${aliased.length} keys reference ${keep.key_path} in every language? Their own values are replaced.`)) return
+
+    setMerging(true)
+    try {
+      const plan = planValueEdits(translations, planAliasConversion(keep, aliased, project.languages))
+      // The kept key could itself be an alias of one of the others
+      const after = applyEditPlan(translations, plan)
+      const byPath = new Map(after.map((t) => [t.key_path, t]))
+      const loop = after.filter((t) => aliased.some((a) => a.id === t.id)).flatMap((t) => checkAliases(t, project.languages, byPath))[0]
+      if (loop) {
+        onMerged(`Nothing changed: ${loop.message}`)
+        return
+      }
+
+      const saved = await saveValueEdits(project.id, plan, 'bulk')
+      setTranslations((prev) => withSavedRows(prev, saved.rows))
+      onMerged(describeAliases(byPath.get(keep.key_path) ?? keep, aliased, skipped, project.languages))
+    } catch (err) {
+      onMerged(`Converting to aliases failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="text-gray-400 hover:text-gray-600 transition-colors">
+        Merge or alias
+      </button>
+    )
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2 font-normal text-gray-600">
+      Keep
+      <select
+        value={keepId}
+        onChange={(e) => setKeepId(e.target.value)}
+        className="px-2 py-0.5 text-xs font-mono border border-gray-200 rounded-lg bg-white
+                   focus:outline-none focus:ring-1 focus:ring-accent"
+      >
+        {rows.map((t) => (
+          <option key={t.id} value={t.id}>{t.key_path}</option>
+        ))}
+      </select>
+      <button
+        onClick={merge}
+        disabled={merging || rows.length < 2}
+        className="px-2 py-0.5 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+      >
+        {merging ? 'Saving...' : `Merge ${rows.length} into one`}
+      </button>
+      <button
+        onClick={convertToAliases}
+        disabled={merging || rows.length < 2}
+        className="px-2 py-0.5 border border-gray-200 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        title="Keep every key, with the others referencing the kept one"
+      >
+        Make the others aliases
+      </button>
+      <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600 transition-colors">
+        Cancel
+      </button>
+    </span>
+  )
+}
@@ -1,15 +1,64 @@
-import { useState } from 'react'
-import type { Translation, GroupExtension } from '../types'
+import { useState, useMemo } from 'react'
+import type { Project, Translation, GroupExtension } from '../types'
 import { supabase } from '../supabaseClient'
 import { buildDeveloperJson, buildFigmaJson } from '../utils/jsonBuilder'
+import { languageLabel } from '../utils/languages'
+import { applyApprovalMode } from '../utils/reviewStatus'
+import type { ApprovalMode } from '../utils/reviewStatus'
+import {
+  androidResourceNames,
+  androidValuesDir,
+  buildAndroidStrings,
+  buildIosStrings,
+  buildStringsDict,
+  buildXcStrings,
+} from '../utils/platformExport'
+import { buildIcuJson, buildI18nextJson, buildPoFile, buildXliff } from '../utils/webExport'
+import { buildKotlinAccessors, buildSwiftAccessors, buildTypeScriptKeys } from '../utils/codegen'
+import { buildZip } from '../utils/zip'
+import { buildSheetRows, filterSheetTranslations } from '../utils/spreadsheet'
+import type { SheetFilter } from '../utils/spreadsheet'
+import { toCsv } from '../utils/csv'
+import { buildXlsx } from '../utils/xlsx'
+import { findValueIssues, isBlockingIssue } from '../utils/placeholders'
+import { resolveAliases } from '../utils/designTokens'
+
+type WebFormat = 'i18next-nested' | 'i18next-flat' | 'icu' | 'po' | 'xliff'
+
+const ISSUE_PREVIEW_LIMIT = 10
+const KOTLIN_PACKAGE = /^[a-zA-Z_]\w*(\.[a-zA-Z_]\w*)*$/
+
+const WEB_FORMATS: { key: WebFormat; label: string; filename: string }[] = [
+  { key: 'i18next-nested', label: 'i18next nested', filename: 'i18next-nested.zip' },
+  { key: 'i18next-flat', label: 'i18next flat', filename: 'i18next-flat.zip' },
+  { key: 'icu', label: 'ICU MessageFormat', filename: 'icu-messages.zip' },
+  { key: 'po', label: 'gettext .po', filename: 'gettext.zip' },
+  { key: 'xliff', label: 'XLIFF 2.0', filename: 'xliff.zip' },
+]
 
 interface ExportViewProps {
-  projectId: string
+  project: Project
   translations: Translation[]
 }
 
 function downloadJson(data: Record<string, unknown>, filename: string) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename)
+}
+
+function downloadZip(files: Record<string, string>, filename: string) {
+  downloadBlob(new Blob([buildZip(files) as Uint8Array<ArrayBuffer>], { type: 'application/zip' }), filename)
+}
+
+function downloadXlsx(data: Uint8Array, filename: string) {
+  downloadBlob(
+    new Blob([data as Uint8Array<ArrayBuffer>], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    }),
+    filename,
+  )
+}
+
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
@@ -18,57 +67,257 @@ function downloadJson(data: Record<string, unknown>, filename: string) {
   URL.revokeObjectURL(url)
 }
 
-export default function ExportView({ projectId, translations }: ExportViewProps) {
+export default function ExportView({ project, translations }: ExportViewProps) {
   const [preview, setPreview] = useState<string | null>(null)
   const [previewTitle, setPreviewTitle] = useState('')
   const [exporting, setExporting] = useState(false)
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('all')
+  const [sheetFilter, setSheetFilter] = useState<SheetFilter>('all')
+  const [changedSince, setChangedSince] = useState('')
+  const [ignoreIssues, setIgnoreIssues] = useState(false)
+  const [kotlinPackage, setKotlinPackage] = useState('com.example.app')
+
+  const exportTranslations = useMemo(() => {
+    return applyApprovalMode(translations, project.languages, project.source_language, approvalMode)
+  }, [translations, project, approvalMode])
+
+  // Only the Figma export keeps {alias} references; every other format gets the text they resolve to
+  const resolvedTranslations = useMemo(() => {
+    return resolveAliases(exportTranslations, project.languages)
+  }, [exportTranslations, project.languages])
+
+  // Placeholder and markup problems in what would actually be exported
+  const exportIssues = useMemo(() => {
+    const issues = Array.from(
+      findValueIssues(exportTranslations, project.languages, project.source_language),
+      ([keyPath, list]) => list.map((issue) => ({ keyPath, ...issue })),
+    ).flat()
+    return {
+      blocking: issues.filter(isBlockingIssue),
+      warnings: issues.filter((i) => !isBlockingIssue(i)),
+    }
+  }, [exportTranslations, project])
+
+  // Sheets always carry the stored values so translators see drafts too
+  const sheetTranslations = useMemo(() => {
+    return filterSheetTranslations(
+      translations,
+      project.languages,
+      project.source_language,
+      sheetFilter,
+      changedSince || null,
+    )
+  }, [translations, project, sheetFilter, changedSince])
 
   async function fetchGroupExtensions(): Promise<GroupExtension[]> {
-    const { data } = await supabase.from('group_extensions').select('*').eq('project_id', projectId)
+    const { data } = await supabase.from('group_extensions').select('*').eq('project_id', project.id)
     return (data as GroupExtension[]) || []
   }
 
   async function handleDeveloperExport() {
     setExporting(true)
-    const json = buildDeveloperJson(translations)
+    const json = buildDeveloperJson(exportTranslations, project.languages, await fetchGroupExtensions())
     downloadJson(json, 'translations.json')
     setPreview(JSON.stringify(json, null, 2))
     setPreviewTitle('Developer Export')
     setExporting(false)
   }
 
-  async function handleFigmaExport(lang: 'az' | 'en' | 'ru') {
+  async function handleFigmaExport(lang: string) {
     setExporting(true)
     const groupExtensions = await fetchGroupExtensions()
-    const json = buildFigmaJson(translations, groupExtensions, lang)
+    const json = buildFigmaJson(exportTranslations, groupExtensions, lang)
     downloadJson(json, `translations-${lang}.json`)
     setPreview(JSON.stringify(json, null, 2))
-    setPreviewTitle(`Figma Export — ${lang.toUpperCase()}`)
+    setPreviewTitle(`Figma Export — ${languageLabel(lang)}`)
+    setExporting(false)
+  }
+
+  function showZipPreview(files: Record<string, string>, title: string, notes: string[] = []) {
+    const listing = Object.keys(files).map((path) => `  ${path}`).join('\n')
+    const [firstPath, firstContent] = Object.entries(files)[0]
+    setPreview([...notes, 'Files:', listing, '', `${firstPath}:`, firstContent].join('\n'))
+    setPreviewTitle(title)
+  }
+
+  function handleAndroidExport() {
+    setExporting(true)
+    const { names, collisions } = androidResourceNames(resolvedTranslations)
+    const files: Record<string, string> = {}
+
+    for (const lang of project.languages) {
+      const dir = androidValuesDir(lang, project.source_language)
+      files[`res/${dir}/strings.xml`] = buildAndroidStrings(resolvedTranslations, lang, names)
+    }
+
+    downloadZip(files, 'android-strings.zip')
+    showZipPreview(
+      files,
+      'Android Export',
+      collisions.map((c) => `Warning: "${c.keyPath}" was renamed to "${c.name}" to avoid a name collision.`),
+    )
+    setExporting(false)
+  }
+
+  function handleIosExport() {
+    setExporting(true)
+    const files: Record<string, string> = {}
+
+    for (const lang of project.languages) {
+      files[`${lang}.lproj/Localizable.strings`] = buildIosStrings(resolvedTranslations, lang)
+      const stringsDict = buildStringsDict(resolvedTranslations, lang)
+      if (stringsDict) files[`${lang}.lproj/Localizable.stringsdict`] = stringsDict
+    }
+    files['Localizable.xcstrings'] = JSON.stringify(
+      buildXcStrings(resolvedTranslations, project.languages, project.source_language),
+      null,
+      2,
+    )
+
+    downloadZip(files, 'ios-strings.zip')
+    showZipPreview(files, 'iOS Export')
+    setExporting(false)
+  }
+
+  function handleWebExport(format: WebFormat) {
+    setExporting(true)
+    const files: Record<string, string> = {}
+
+    for (const lang of project.languages) {
+      if (format === 'i18next-nested' || format === 'i18next-flat') {
+        const json = buildI18nextJson(resolvedTranslations, lang, format === 'i18next-nested')
+        files[`locales/${lang}/translation.json`] = JSON.stringify(json, null, 2)
+      } else if (format === 'icu') {
+        files[`${lang}.json`] = JSON.stringify(buildIcuJson(resolvedTranslations, lang), null, 2)
+      } else if (format === 'po') {
+        files[`${lang}.po`] = buildPoFile(resolvedTranslations, lang, project.source_language)
+      } else if (lang !== project.source_language) {
+        files[`${project.source_language}-${lang}.xlf`] = buildXliff(
+          resolvedTranslations,
+          project.source_language,
+          lang,
+          project.name,
+        )
+      }
+    }
+
+    const { label, filename } = WEB_FORMATS.find((f) => f.key === format)!
+    downloadZip(files, filename)
+    showZipPreview(files, `${label} Export`)
+    setExporting(false)
+  }
+
+  function handleAccessorExport() {
+    setExporting(true)
+    const { names } = androidResourceNames(resolvedTranslations)
+    const files: Record<string, string> = {
+      'kotlin/Strings.kt': buildKotlinAccessors(
+        resolvedTranslations,
+        project.source_language,
+        names,
+        kotlinPackage,
+        project.name,
+      ),
+      'swift/L10n.swift': buildSwiftAccessors(resolvedTranslations, project.source_language, project.name),
+      'typescript/translationKeys.ts': buildTypeScriptKeys(resolvedTranslations, project.source_language, project.name),
+    }
+
+    downloadZip(files, 'accessors.zip')
+    showZipPreview(files, 'Typed Accessors')
+    setExporting(false)
+  }
+
+  function handleSheetExport(format: 'csv' | 'xlsx') {
+    setExporting(true)
+    const rows = buildSheetRows(sheetTranslations, project.languages, project.source_language)
+
+    if (format === 'csv') {
+      // Leading BOM so Excel opens the file as UTF-8
+      const csv = toCsv(rows)
+      downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv' }), 'translations.csv')
+      setPreview(csv)
+    } else {
+      downloadXlsx(buildXlsx(rows, 'Translations'), 'translations.xlsx')
+      setPreview(toCsv(rows))
+    }
+    setPreviewTitle(`Spreadsheet Export — ${sheetTranslations.length} rows`)
     setExporting(false)
   }
 
   const hasData = translations.length > 0
+  const blocked = exportIssues.blocking.length > 0 && !ignoreIssues
+  const exportDisabled = !hasData || exporting || blocked
 
   return (
     <div className="space-y-6">
       <div>
         <h2 className="font-display text-xl font-bold text-gray-900">Export</h2>
         <p className="text-gray-500 text-sm mt-1">
-          Download translations as JSON files for developers or Figma.
+          Download translations as JSON files for developers or Figma, or as native Android and iOS resources.
         </p>
       </div>
 
+      <div className="flex items-center gap-3">
+        <label htmlFor="approval-mode" className="text-sm font-medium text-gray-700">Values to include</label>
+        <select
+          id="approval-mode"
+          value={approvalMode}
+          onChange={(e) => setApprovalMode(e.target.value as ApprovalMode)}
+          className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white
+                     focus:outline-none focus:ring-1 focus:ring-accent"
+        >
+          <option value="all">All values</option>
+          <option value="approved_fallback">Approved only, fall back to {languageLabel(project.source_language)}</option>
+          <option value="approved_omit">Approved only, omit the rest</option>
+        </select>
+      </div>
+
+      {(exportIssues.blocking.length > 0 || exportIssues.warnings.length > 0) && (
+        <div className={`text-sm px-4 py-3 rounded-xl space-y-2 ${
+          blocked ? 'bg-danger-light text-red-800' : 'bg-warning-light text-amber-800'
+        }`}>
+          <p className="font-medium">
+            {exportIssues.blocking.length > 0 && (
+              <>{exportIssues.blocking.length} placeholder, markup or plural form problems would break formatting at runtime. </>
+            )}
+            {exportIssues.warnings.length > 0 && (
+              <>{exportIssues.warnings.length} whitespace differences. </>
+            )}
+            Fix them from the Validation filter on the Translations page.
+          </p>
+          <ul className="text-xs space-y-0.5">
+            {[...exportIssues.blocking, ...exportIssues.warnings].slice(0, ISSUE_PREVIEW_LIMIT).map((i, idx) => (
+              <li key={idx} className="break-words">
+                <span className="font-mono">{i.keyPath}</span> ({languageLabel(i.language)}): {i.message}
+              </li>
+            ))}
+          </ul>
+          {exportIssues.blocking.length > 0 && (
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={ignoreIssues}
+                onChange={(e) => setIgnoreIssues(e.target.checked)}
+                className="accent-gray-900"
+              />
+              Export anyway
+            </label>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Developer export */}
         <div className="rounded-xl border border-gray-200 p-5 space-y-3">
           <h3 className="font-display font-bold text-gray-900">For Developers</h3>
           <p className="text-sm text-gray-500">
             Combined JSON with all languages under <code className="bg-gray-100 px-1 rounded text-xs">Translations/</code>.
-            Token type <code className="bg-gray-100 px-1 rounded text-xs">string</code> is converted to <code className="bg-gray-100 px-1 rounded text-xs">text</code>.
+            Token type <code className="bg-gray-100 px-1 rounded text-xs">string</code> is converted to <code className="bg-gray-100 px-1 rounded text-xs">text</code>
+            {' '}and aliases like <code className="bg-gray-100 px-1 rounded text-xs">{'{common.ok}'}</code> are resolved to their text.
           </p>
           <button
             onClick={handleDeveloperExport}
-            disabled={!hasData || exporting}
+            disabled={exportDisabled}
             className="px-5 py-2 bg-gray-900 text-white text-sm font-medium rounded-xl
                        hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
           >
@@ -80,22 +329,163 @@ export default function ExportView({ projectId, translations }: ExportViewProps)
         <div className="rounded-xl border border-gray-200 p-5 space-y-3">
           <h3 className="font-display font-bold text-gray-900">For Figma</h3>
           <p className="text-sm text-gray-500">
-            Separate per-language JSONs with <code className="bg-gray-100 px-1 rounded text-xs">$extensions</code> and variable IDs preserved.
+            Separate per-language W3C design token JSONs. Aliases, descriptions, <code className="bg-gray-100 px-1 rounded text-xs">$extensions</code>,
+            variable IDs and number or boolean values come back as they were uploaded.
           </p>
-          <div className="flex gap-2">
-            {(['az', 'en', 'ru'] as const).map((lang) => (
+          <div className="flex flex-wrap gap-2">
+            {project.languages.map((lang) => (
               <button
                 key={lang}
                 onClick={() => handleFigmaExport(lang)}
-                disabled={!hasData || exporting}
+                disabled={exportDisabled}
                 className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-xl
                            hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
               >
-                {lang.toUpperCase()}
+                {languageLabel(lang)}
               </button>
             ))}
           </div>
         </div>
+
+        {/* Android export */}
+        <div className="rounded-xl border border-gray-200 p-5 space-y-3">
+          <h3 className="font-display font-bold text-gray-900">For Android</h3>
+          <p className="text-sm text-gray-500">
+            Zip of <code className="bg-gray-100 px-1 rounded text-xs">res/values-*/strings.xml</code> with
+            apostrophes, quotes and leading <code className="bg-gray-100 px-1 rounded text-xs">@</code> escaped.
+            Key paths become underscore-joined resource names and plural tokens become <code className="bg-gray-100 px-1 rounded text-xs">&lt;plurals&gt;</code>.
+          </p>
+          <button
+            onClick={handleAndroidExport}
+            disabled={exportDisabled}
+            className="px-5 py-2 bg-gray-900 text-white text-sm font-medium rounded-xl
+                       hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Download android-strings.zip
+          </button>
+        </div>
+
+        {/* iOS export */}
+        <div className="rounded-xl border border-gray-200 p-5 space-y-3">
+          <h3 className="font-display font-bold text-gray-900">For iOS</h3>
+          <p className="text-sm text-gray-500">
+            Zip of <code className="bg-gray-100 px-1 rounded text-xs">*.lproj/Localizable.strings</code> plus
+            a <code className="bg-gray-100 px-1 rounded text-xs">Localizable.xcstrings</code> string catalog.
+            Plural tokens also go to <code className="bg-gray-100 px-1 rounded text-xs">Localizable.stringsdict</code>.
+          </p>
+          <button
+            onClick={handleIosExport}
+            disabled={exportDisabled}
+            className="px-5 py-2 bg-gray-900 text-white text-sm font-medium rounded-xl
+                       hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Download ios-strings.zip
+          </button>
+        </div>
+
+        {/* Web export */}
+        <div className="rounded-xl border border-gray-200 p-5 space-y-3 md:col-span-2">
+          <h3 className="font-display font-bold text-gray-900">For Web</h3>
+          <p className="text-sm text-gray-500">
+            Plain strings per locale, keyed by the same key paths. gettext files use the key path as
+            {' '}<code className="bg-gray-100 px-1 rounded text-xs">msgctxt</code>; XLIFF has one file per target
+            language for translation agencies.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {WEB_FORMATS.map((f) => (
+              <button
+                key={f.key}
+                onClick={() => handleWebExport(f.key)}
+                disabled={exportDisabled || (f.key === 'xliff' && project.languages.length < 2)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-xl
+                           hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Typed accessors */}
+        <div className="rounded-xl border border-gray-200 p-5 space-y-3 md:col-span-2">
+          <h3 className="font-display font-bold text-gray-900">Typed Accessors</h3>
+          <p className="text-sm text-gray-500">
+            Code generated from the key tree so apps stop spelling keys as strings: a Kotlin
+            {' '}<code className="bg-gray-100 px-1 rounded text-xs">Strings</code> object pointing at the Android export's
+            {' '}<code className="bg-gray-100 px-1 rounded text-xs">R.string</code> names, a Swift
+            {' '}<code className="bg-gray-100 px-1 rounded text-xs">L10n</code> enum tree over
+            {' '}<code className="bg-gray-100 px-1 rounded text-xs">NSLocalizedString</code>, and a TypeScript key union
+            with parameter types read from the {languageLabel(project.source_language)} placeholders.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={kotlinPackage}
+              onChange={(e) => setKotlinPackage(e.target.value.trim())}
+              placeholder="Kotlin package"
+              className={`w-56 px-3 py-2 text-sm font-mono border rounded-lg bg-white
+                          focus:outline-none focus:ring-1 focus:ring-accent ${
+                            KOTLIN_PACKAGE.test(kotlinPackage) ? 'border-gray-200' : 'border-danger'
+                          }`}
+            />
+            <button
+              onClick={handleAccessorExport}
+              disabled={exportDisabled || !KOTLIN_PACKAGE.test(kotlinPackage)}
+              className="px-5 py-2 bg-gray-900 text-white text-sm font-medium rounded-xl
+                         hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Download accessors.zip
+            </button>
+          </div>
+        </div>
+
+        {/* Spreadsheet export */}
+        <div className="rounded-xl border border-gray-200 p-5 space-y-3 md:col-span-2">
+          <h3 className="font-display font-bold text-gray-900">For Translators</h3>
+          <p className="text-sm text-gray-500">
+            A sheet with one column per language plus reviewer notes. Upload the edited sheet back on the
+            Upload page; rows are matched by <code className="bg-gray-100 px-1 rounded text-xs">id</code> and
+            the {languageLabel(project.source_language)} column is only used to flag source text that changed since export.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={sheetFilter}
+              onChange={(e) => setSheetFilter(e.target.value as SheetFilter)}
+              className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white
+                         focus:outline-none focus:ring-1 focus:ring-accent"
+            >
+              <option value="all">All strings</option>
+              <option value="missing">Missing a translation</option>
+              <option value="changed">Changed since…</option>
+            </select>
+            {sheetFilter === 'changed' && (
+              <input
+                type="date"
+                value={changedSince}
+                onChange={(e) => setChangedSince(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white
+                           focus:outline-none focus:ring-1 focus:ring-accent"
+              />
+            )}
+            <button
+              onClick={() => handleSheetExport('xlsx')}
+              disabled={sheetTranslations.length === 0 || exporting}
+              className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-xl
+                         hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Excel (.xlsx)
+            </button>
+            <button
+              onClick={() => handleSheetExport('csv')}
+              disabled={sheetTranslations.length === 0 || exporting}
+              className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-xl
+                         hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              CSV
+            </button>
+            <span className="text-xs text-gray-400">{sheetTranslations.length} rows</span>
+          </div>
+        </div>
       </div>
 
       {preview && (
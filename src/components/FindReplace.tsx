@@ -0,0 +1,312 @@
+import React, { useState, useMemo } from 'react'
+import type { ChangeSource, Profile, Project, Translation } from '../types'
+import { languageLabel } from '../utils/languages'
+import { canEditLanguage } from '../utils/permissions'
+import { invertEdits, planValueEdits, saveValueEdits, withSavedRows } from '../utils/bulkEdits'
+import type { SavedEdits, ValueEdit } from '../utils/bulkEdits'
+import { buildPattern, changeKey, findReplacements, toValueEdits } from '../utils/findReplace'
+import type { DiffSegment, FindOptions, ReplaceChange } from '../utils/findReplace'
+
+const PREVIEW_LIMIT = 500
+
+type Scope = 'all' | 'prefix' | 'filter'
+
+interface FindReplaceProps {
+  project: Project
+  profile: Profile
+  translations: Translation[]
+  // Rows matching the table's current search and filters
+  visible: Translation[]
+  setTranslations: React.Dispatch<React.SetStateAction<Translation[]>>
+  onClose: () => void
+}
+
+function Segments({ segments, side }: { segments: DiffSegment[]; side: 'before' | 'after' }) {
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.replacement === undefined ? (
+          <span key={i}>{s.text}</span>
+        ) : side === 'before' ? (
+          <del key={i} className="bg-danger-light text-danger">{s.text}</del>
+        ) : (
+          <ins key={i} className="bg-success-light text-success no-underline">{s.replacement}</ins>
+        ),
+      )}
+    </>
+  )
+}
+
+export default function FindReplace({ project, profile, translations, visible, setTranslations, onClose }: FindReplaceProps) {
+  const editableLanguages = project.languages.filter((lang) => canEditLanguage(profile, lang))
+  const [options, setOptions] = useState<FindOptions>({
+    query: '',
+    replacement: '',
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+  })
+  const [languages, setLanguages] = useState<string[]>(editableLanguages)
+  const [scope, setScope] = useState<Scope>('all')
+  const [prefix, setPrefix] = useState('')
+  const [preview, setPreview] = useState<ReplaceChange[] | null>(null)
+  const [rejected, setRejected] = useState<Set<string>>(new Set())
+  const [lastBatch, setLastBatch] = useState<ValueEdit[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const scoped = useMemo(() => {
+    if (scope === 'filter') return visible
+    if (scope === 'prefix' && prefix) return translations.filter((t) => t.key_path.startsWith(prefix))
+    return translations
+  }, [scope, prefix, visible, translations])
+
+  const error = useMemo(() => {
+    if (!options.query) return null
+    const pattern = buildPattern(options)
+    return typeof pattern === 'string' ? pattern : null
+  }, [options])
+
+  const accepted = preview?.filter((c) => !rejected.has(changeKey(c))) ?? []
+
+  function updateOptions(patch: Partial<FindOptions>) {
+    setOptions((prev) => ({ ...prev, ...patch }))
+    setPreview(null)
+  }
+
+  function runPreview() {
+    const result = findReplacements(scoped, languages, options)
+    if (typeof result === 'string') return
+    setPreview(result)
+    setRejected(new Set())
+    setStatus(null)
+  }
+
+  function toggleChange(change: ReplaceChange) {
+    setRejected((prev) => {
+      const next = new Set(prev)
+      const key = changeKey(change)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  // Saves the whole batch or nothing; the applied edits are what an undo reverts
+  async function saveEdits(edits: ValueEdit[], source: ChangeSource): Promise<SavedEdits> {
+    const saved = await saveValueEdits(project.id, planValueEdits(translations, edits), source)
+    setTranslations((prev) => withSavedRows(prev, saved.rows))
+    return saved
+  }
+
+  function describe(saved: SavedEdits, done: string): string {
+    const stale = saved.stale.length > 0 ? ` ${saved.stale.length} values changed in the meantime and were left alone.` : ''
+    return `${done} ${saved.applied.length} values.${stale}`
+  }
+
+  async function applyReplacements() {
+    if (accepted.length === 0) return
+    setSaving(true)
+    try {
+      const saved = await saveEdits(toValueEdits(translations, accepted), 'bulk')
+      setLastBatch(saved.applied)
+      setPreview(null)
+      setStatus(describe(saved, 'Replaced'))
+    } catch (err) {
+      setStatus(`Replace failed, nothing was changed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function undoLastBatch() {
+    if (!lastBatch) return
+    setSaving(true)
+    try {
+      const saved = await saveEdits(invertEdits(lastBatch), 'revert')
+      setLastBatch(null)
+      setStatus(describe(saved, 'Restored'))
+    } catch (err) {
+      setStatus(`Undo failed, nothing was changed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = `px-3 py-2 text-sm rounded-xl border border-gray-200 bg-gray-50
+                      focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent`
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider">Find and replace</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-600 transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={options.query}
+          onChange={(e) => updateOptions({ query: e.target.value })}
+          onKeyDown={(e) => e.key === 'Enter' && runPreview()}
+          placeholder="Find"
+          className={`flex-1 min-w-48 ${inputClass}`}
+        />
+        <input
+          value={options.replacement}
+          onChange={(e) => updateOptions({ replacement: e.target.value })}
+          onKeyDown={(e) => e.key === 'Enter' && runPreview()}
+          placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+          className={`flex-1 min-w-48 ${inputClass}`}
+        />
+        {([
+          ['caseSensitive', 'Match case'],
+          ['wholeWord', 'Whole word'],
+          ['regex', 'Regex'],
+        ] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1.5 text-xs text-gray-600">
+            <input type="checkbox" checked={options[key]} onChange={(e) => updateOptions({ [key]: e.target.checked })} />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <span className="text-gray-500">Languages:</span>
+        {editableLanguages.map((lang) => (
+          <label key={lang} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={languages.includes(lang)}
+              onChange={(e) => {
+                setLanguages((prev) => (e.target.checked ? [...prev, lang] : prev.filter((l) => l !== lang)))
+                setPreview(null)
+              }}
+            />
+            {languageLabel(lang)}
+          </label>
+        ))}
+
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value as Scope)
+            setPreview(null)
+          }}
+          className="ml-auto px-2 py-1.5 border border-gray-200 rounded-lg bg-white
+                     focus:outline-none focus:ring-1 focus:ring-accent"
+        >
+          <option value="all">All keys</option>
+          <option value="prefix">Keys starting with…</option>
+          <option value="filter">Current filter ({visible.length})</option>
+        </select>
+        {scope === 'prefix' && (
+          <input
+            value={prefix}
+            onChange={(e) => {
+              setPrefix(e.target.value)
+              setPreview(null)
+            }}
+            placeholder="e.g. checkout."
+            className="w-40 px-2 py-1.5 border border-gray-200 rounded-lg bg-white
+                       focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+        )}
+        <button
+          onClick={runPreview}
+          disabled={!options.query || !!error || languages.length === 0}
+          className="px-3 py-1.5 bg-gray-100 text-gray-700 font-medium rounded-lg
+                     hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          Preview
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-danger">{error}</p>}
+
+      {preview && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-gray-500">
+              {preview.length === 0 ? 'No matches.' : `${accepted.length} of ${preview.length} changes selected`}
+            </span>
+            {preview.length > 0 && (
+              <>
+                <button onClick={() => setRejected(new Set())} className="text-gray-500 hover:text-gray-800">
+                  Select all
+                </button>
+                <button
+                  onClick={() => setRejected(new Set(preview.map(changeKey)))}
+                  className="text-gray-500 hover:text-gray-800"
+                >
+                  Select none
+                </button>
+                <button
+                  onClick={applyReplacements}
+                  disabled={saving || accepted.length === 0}
+                  className="ml-auto px-3 py-1.5 bg-gray-900 text-white font-medium rounded-lg
+                             hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Replacing...' : `Replace ${accepted.length}`}
+                </button>
+              </>
+            )}
+          </div>
+
+          {preview.length > 0 && (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {preview.slice(0, PREVIEW_LIMIT).map((change) => (
+                <li key={changeKey(change)} className="flex gap-3 px-3 py-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={!rejected.has(changeKey(change))}
+                    onChange={() => toggleChange(change)}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="font-mono text-gray-500 truncate">
+                      {change.keyPath} · {languageLabel(change.language)}
+                    </p>
+                    {change.forms.map((form) => (
+                      <div key={form.category ?? ''} className="grid grid-cols-2 gap-3 text-gray-800">
+                        <p className="break-words">
+                          {form.category && <span className="mr-1 text-gray-400">{form.category}:</span>}
+                          <Segments segments={form.segments} side="before" />
+                        </p>
+                        <p className="break-words">
+                          <Segments segments={form.segments} side="after" />
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              ))}
+              {preview.length > PREVIEW_LIMIT && (
+                <li className="px-3 py-2 text-xs text-gray-400">
+                  …and {preview.length - PREVIEW_LIMIT} more changes, also applied unless you narrow the search
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {(status || lastBatch) && (
+        <div className="flex items-center gap-3 text-xs">
+          {status && <span className="text-gray-600">{status}</span>}
+          {lastBatch && lastBatch.length > 0 && (
+            <button
+              onClick={undoLastBatch}
+              disabled={saving}
+              className="ml-auto px-3 py-1.5 text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title="Restores the replaced values unless they were edited again since"
+            >
+              Undo replace
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import React, { useState, useMemo } from 'react'
+import type { Project, Translation } from '../types'
+import { applyRenames, saveKeyRenames } from '../utils/bulkEdits'
+import { planKeyFixes, projectKeyRules } from '../utils/keyOptimizer'
+import type { KeyFix } from '../utils/keyOptimizer'
+
+interface KeyFixerProps {
+  project: Project
+  translations: Translation[]
+  setTranslations: React.Dispatch<React.SetStateAction<Translation[]>>
+  onClose: () => void
+}
+
+const COLLISION_LABELS: Record<NonNullable<KeyFix['collision']>, string> = {
+  existing: 'Suggestion is taken by an existing key',
+  suggestion: 'Another key gets the same suggestion',
+}
+
+export default function KeyFixer({ project, translations, setTranslations, onClose }: KeyFixerProps) {
+  const [skipped, setSkipped] = useState<Set<string>>(new Set())
+  const [overrides, setOverrides] = useState<Map<string, string>>(new Map())
+  const [saving, setSaving] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const fixes = useMemo(
+    () => planKeyFixes(translations, projectKeyRules(project), skipped, overrides),
+    [translations, project, skipped, overrides],
+  )
+  const included = fixes.filter((f) => !f.skipped && f.to !== f.from)
+  const conflicts = included.filter((f) => f.conflict || !f.to.trim()).length
+  const disambiguated = included.filter((f) => f.collision).length
+
+  function toggleSkip(id: string) {
+    setSkipped((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  function setOverride(fix: KeyFix, value: string) {
+    setOverrides((prev) => {
+      const next = new Map(prev)
+      next.set(fix.id, value)
+      return next
+    })
+  }
+
+  async function applyFixes() {
+    if (included.length === 0 || conflicts > 0) return
+
+    const byId = new Map(translations.map((t) => [t.id, t]))
+    const renames = included.map((f) => ({
+      id: f.id,
+      from: f.from,
+      to: f.to.trim(),
+      original_key: byId.get(f.id)?.original_key || f.from,
+    }))
+
+    setSaving(true)
+    try {
+      await saveKeyRenames(project.id, renames, 'bulk')
+      setTranslations((prev) => applyRenames(prev, renames))
+      setOverrides(new Map())
+      setStatus(`Renamed ${renames.length} keys. Their previous paths are kept as the original key.`)
+    } catch (err) {
+      setStatus(`Nothing was renamed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider">Fix key issues</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-600 transition-colors">
+          Close
+        </button>
+      </div>
+
+      {fixes.length === 0 ? (
+        <p className="text-sm text-gray-400">{status ?? 'No key issues left.'}</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-gray-500">
+              {included.length} of {fixes.length} keys will be renamed
+              {disambiguated > 0 && <>, {disambiguated} with a numbered name to avoid a collision</>}
+            </span>
+            {conflicts > 0 && <span className="text-danger">{conflicts} names are empty or clash with another key</span>}
+            <button
+              onClick={applyFixes}
+              disabled={saving || included.length === 0 || conflicts > 0}
+              className="ml-auto px-3 py-1.5 bg-gray-900 text-white font-medium rounded-lg
+                         hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Renaming...' : `Rename ${included.length}`}
+            </button>
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {fixes.map((fix) => (
+              <li key={fix.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+                <input type="checkbox" checked={!fix.skipped} onChange={() => toggleSkip(fix.id)} />
+                <span className="w-1/3 min-w-0 truncate font-mono text-gray-500" title={fix.from}>{fix.from}</span>
+                <span className="text-gray-300">→</span>
+                <input
+                  value={fix.skipped ? fix.suggested : fix.to}
+                  onChange={(e) => setOverride(fix, e.target.value)}
+                  disabled={fix.skipped}
+                  className={`flex-1 min-w-0 px-2 py-1 font-mono border rounded-lg bg-white
+                              focus:outline-none focus:ring-1 focus:ring-accent disabled:opacity-50 ${
+                                fix.conflict ? 'border-danger' : 'border-gray-200'
+                              }`}
+                />
+                {!fix.skipped && fix.conflict && <span className="shrink-0 text-danger">Clashes with another key</span>}
+                {!fix.skipped && !fix.conflict && fix.collision && (
+                  <span className="shrink-0 text-warning">{COLLISION_LABELS[fix.collision]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {status && <p className="text-xs text-gray-600">{status}</p>}
+        </>
+      )}
+    </div>
+  )
+}
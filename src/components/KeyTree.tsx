@@ -0,0 +1,199 @@
+import React, { useState, useMemo } from 'react'
+import type { GroupExtension, Profile, Project, Translation } from '../types'
+import { supabase } from '../supabaseClient'
+import { applyRenames, deleteRows, insertRows, saveKeyRenames } from '../utils/bulkEdits'
+import { buildKeyTree, isInSubtree, planSubtreeCopy, planSubtreeMove, validateGroupPath } from '../utils/keyTree'
+import type { KeyTreeNode } from '../utils/keyTree'
+import { canDeleteTokens, canEditKeys } from '../utils/permissions'
+
+const COLLISION_LIMIT = 5
+
+interface KeyTreeProps {
+  project: Project
+  profile: Profile
+  translations: Translation[]
+  setTranslations: React.Dispatch<React.SetStateAction<Translation[]>>
+  selected: string | null
+  onSelect: (group: string | null) => void
+}
+
+function describeCollisions(collisions: string[]): string {
+  const shown = collisions.slice(0, COLLISION_LIMIT).join('\n')
+  const more = collisions.length > COLLISION_LIMIT ? `\n…and ${collisions.length - COLLISION_LIMIT} more` : ''
+  return `${collisions.length} paths already exist at the destination:\n${shown}${more}`
+}
+
+export default function KeyTree({ project, profile, translations, setTranslations, selected, onSelect }: KeyTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const tree = useMemo(() => buildKeyTree(translations, project.languages), [translations, project.languages])
+
+  function toggle(path: string) {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  async function fetchGroupExtensions(): Promise<GroupExtension[]> {
+    const { data, error } = await supabase.from('group_extensions').select('*').eq('project_id', project.id)
+    if (error) throw error
+    return data ?? []
+  }
+
+  async function run(label: string, action: () => Promise<string>) {
+    setBusy(true)
+    setStatus(label)
+    try {
+      setStatus(await action())
+    } catch (err) {
+      setStatus(`Failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function askDestination(message: string, initial: string, from: string): string | null {
+    const to = prompt(message, initial)?.trim()
+    if (!to || to === from) return null
+    const error = validateGroupPath(to)
+    if (error) {
+      alert(error)
+      return null
+    }
+    return to
+  }
+
+  async function moveGroup(node: KeyTreeNode) {
+    const to = askDestination(`Move "${node.path}" and its ${node.count} keys to:`, node.path, node.path)
+    if (!to) return
+
+    await run(`Moving ${node.count} keys...`, async () => {
+      const plan = planSubtreeMove(translations, await fetchGroupExtensions(), node.path, to)
+      if (plan.collisions.length > 0) return `Nothing moved. ${describeCollisions(plan.collisions)}`
+
+      await saveKeyRenames(project.id, plan.renames, 'bulk', plan.extensions)
+
+      setTranslations((prev) => applyRenames(prev, plan.renames))
+      if (selected && isInSubtree(selected, node.path)) onSelect(to + selected.slice(node.path.length))
+      return `Moved ${plan.renames.length} keys to ${to}.`
+    })
+  }
+
+  async function duplicateGroup(node: KeyTreeNode) {
+    const to = askDestination(`Copy "${node.path}" and its ${node.count} keys to:`, `${node.path}_copy`, node.path)
+    if (!to) return
+
+    await run(`Copying ${node.count} keys...`, async () => {
+      const plan = planSubtreeCopy(translations, await fetchGroupExtensions(), node.path, to)
+      if (plan.collisions.length > 0) return `Nothing copied. ${describeCollisions(plan.collisions)}`
+
+      const inserted = await insertRows(project.id, plan.inserts, 'bulk')
+
+      if (plan.extensions.length > 0) {
+        const { error } = await supabase.from('group_extensions').insert(plan.extensions)
+        if (error) throw error
+      }
+
+      const ids = new Set(inserted.map((t) => t.id))
+      setTranslations((prev) => [...prev.filter((t) => !ids.has(t.id)), ...inserted])
+      return `Copied ${inserted.length} keys to ${to}.`
+    })
+  }
+
+  async function deleteGroup(node: KeyTreeNode) {
+    if (!confirm(`Permanently delete "${node.path}" and its ${node.count} keys?`)) return
+
+    await run(`Deleting ${node.count} keys...`, async () => {
+      const ids = translations.filter((t) => isInSubtree(t.key_path, node.path)).map((t) => t.id)
+      await deleteRows(project.id, ids)
+
+      const extensionIds = (await fetchGroupExtensions())
+        .filter((ge) => isInSubtree(ge.group_path, node.path))
+        .map((ge) => ge.id)
+      if (extensionIds.length > 0) {
+        const { error } = await supabase.from('group_extensions').delete().in('id', extensionIds)
+        if (error) throw error
+      }
+
+      const deleted = new Set(ids)
+      setTranslations((prev) => prev.filter((t) => !deleted.has(t.id)))
+      if (selected && isInSubtree(selected, node.path)) onSelect(null)
+      return `Deleted ${ids.length} keys.`
+    })
+  }
+
+  function renderNode(node: KeyTreeNode, depth: number): React.ReactNode {
+    const open = expanded.has(node.path)
+    const active = selected === node.path
+
+    return (
+      <li key={node.path}>
+        <div
+          className={`group flex items-center gap-1 pr-1 rounded-lg text-xs transition-colors ${
+            active ? 'bg-accent-light text-accent' : 'text-gray-700 hover:bg-gray-100'
+          }`}
+          style={{ paddingLeft: depth * 12 }}
+        >
+          <button
+            onClick={() => toggle(node.path)}
+            className={`w-4 h-6 shrink-0 text-gray-400 ${node.children.length === 0 ? 'invisible' : ''}`}
+          >
+            {open ? '▾' : '▸'}
+          </button>
+          <button
+            onClick={() => onSelect(active ? null : node.path)}
+            className="flex-1 min-w-0 py-1 text-left truncate font-medium"
+            title={`${node.path}: ${node.count} keys, ${node.percent}% translated`}
+          >
+            {node.name}
+          </button>
+          <span className="text-[10px] text-gray-400 group-hover:hidden">
+            {node.count} · {node.percent}%
+          </span>
+          <span className="hidden group-hover:flex gap-1 text-[10px]">
+            {canEditKeys(profile) && (
+              <>
+                <button onClick={() => moveGroup(node)} disabled={busy} className="text-gray-500 hover:text-gray-900">
+                  Move
+                </button>
+                <button onClick={() => duplicateGroup(node)} disabled={busy} className="text-gray-500 hover:text-gray-900">
+                  Copy
+                </button>
+              </>
+            )}
+            {canDeleteTokens(profile) && (
+              <button onClick={() => deleteGroup(node)} disabled={busy} className="text-danger hover:opacity-70">
+                Delete
+              </button>
+            )}
+          </span>
+        </div>
+        {open && node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  if (tree.length === 0) return null
+
+  return (
+    <div className="w-60 shrink-0 space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider">Groups</h3>
+        {selected && (
+          <button onClick={() => onSelect(null)} className="text-[10px] text-gray-400 hover:text-gray-600">
+            Show all
+          </button>
+        )}
+      </div>
+      <ul className="max-h-[70vh] overflow-y-auto">{tree.map((node) => renderNode(node, 0))}</ul>
+      {status && <p className="px-1 text-[11px] text-gray-500 whitespace-pre-line">{status}</p>}
+    </div>
+  )
+}
@@ -1,11 +1,9 @@
 import { useState } from 'react'
 import { supabase } from '../supabaseClient'
 
-interface LoginPageProps {
-  onLogin: () => void
-}
-
-export default function LoginPage({ onLogin }: LoginPageProps) {
+// Session changes are picked up by App through supabase.auth.onAuthStateChange
+export default function LoginPage() {
+  const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
@@ -16,21 +14,16 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
     setLoading(true)
 
     try {
-      const { data, error: rpcError } = await supabase.rpc('verify_password', {
-        input_password: password,
+      const { error: authError } = await supabase.auth.signInWithPassword({
+        email: email.trim(),
+        password,
       })
 
-      if (rpcError) throw rpcError
-      if (!data) {
-        setError('Incorrect password')
-        setLoading(false)
-        return
+      if (authError) {
+        setError(authError.status === 400 ? 'Incorrect email or password' : authError.message)
       }
-
-      localStorage.setItem('tm_authenticated', 'true')
-      onLogin()
     } catch {
-      setError('Failed to verify password. Check your connection.')
+      setError('Failed to sign in. Check your connection.')
     } finally {
       setLoading(false)
     }
@@ -41,17 +34,31 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
       <div className="w-full max-w-sm">
         <div className="text-center mb-8">
           <img src="/croccontent.png" alt="croc/content" className="h-10 w-auto object-contain mx-auto mb-4" />
-          <p className="text-gray-500 text-sm">Enter password to continue</p>
+          <p className="text-gray-500 text-sm">Sign in with your account to continue</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              autoFocus
+              className="w-full px-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-sm
+                         focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent
+                         placeholder:text-gray-400 transition-all"
+            />
+          </div>
+
           <div>
             <input
               type="password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               placeholder="Password"
-              autoFocus
+              autoComplete="current-password"
               className="w-full px-4 py-3 rounded-xl border border-gray-200 bg-gray-50 text-sm
                          focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent
                          placeholder:text-gray-400 transition-all"
@@ -64,11 +71,11 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
 
           <button
             type="submit"
-            disabled={loading || !password}
+            disabled={loading || !password || !email.trim()}
             className="w-full py-3 bg-gray-900 text-white text-sm font-medium rounded-xl
                        hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? 'Verifying...' : 'Continue'}
+            {loading ? 'Signing in...' : 'Sign in'}
           </button>
         </form>
       </div>
@@ -0,0 +1,343 @@
+import { useState } from 'react'
+import type { KeyPlatform, KeyRules, NamingStyle, Project } from '../types'
+import { supabase } from '../supabaseClient'
+import { analyzeKeyIssues, KEY_PLATFORM_LABELS, NAMING_STYLE_LABELS, projectKeyRules } from '../utils/keyOptimizer'
+import { isValidLanguageCode, languageLabel, languageName } from '../utils/languages'
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'u')
+    return pattern !== ''
+  } catch {
+    return false
+  }
+}
+
+function parseLimit(value: string): number | null {
+  const n = parseInt(value, 10)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+interface ProjectSettingsViewProps {
+  project: Project
+  onProjectUpdate: (updated: Project) => void
+}
+
+export default function ProjectSettingsView({ project, onProjectUpdate }: ProjectSettingsViewProps) {
+  const [languages, setLanguages] = useState<string[]>(project.languages)
+  const [sourceLanguage, setSourceLanguage] = useState(project.source_language)
+  const [newLanguage, setNewLanguage] = useState('')
+  const [keyRules, setKeyRules] = useState<KeyRules>(() => projectKeyRules(project))
+  const [sampleKey, setSampleKey] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const isDirty =
+    sourceLanguage !== project.source_language ||
+    languages.join(',') !== project.languages.join(',') ||
+    JSON.stringify(keyRules) !== JSON.stringify(projectKeyRules(project))
+
+  const invalidRules = keyRules.custom.filter((r) => !isValidPattern(r.pattern) || !r.message.trim()).length
+  const sampleIssue = sampleKey.trim() ? analyzeKeyIssues(sampleKey.trim(), keyRules) : null
+
+  function updateRules(patch: Partial<KeyRules>) {
+    setKeyRules((prev) => ({ ...prev, ...patch }))
+  }
+
+  function togglePlatform(platform: KeyPlatform) {
+    updateRules({
+      reserved: keyRules.reserved.includes(platform)
+        ? keyRules.reserved.filter((p) => p !== platform)
+        : [...keyRules.reserved, platform],
+    })
+  }
+
+  function updateCustomRule(index: number, patch: Partial<KeyRules['custom'][number]>) {
+    updateRules({ custom: keyRules.custom.map((r, i) => (i === index ? { ...r, ...patch } : r)) })
+  }
+
+  function addLanguage() {
+    const code = newLanguage.trim()
+    if (!code) return
+
+    if (!isValidLanguageCode(code)) {
+      setStatus(`Invalid language code "${code}". Use a code like "tr" or "pt-BR".`)
+      return
+    }
+    if (languages.includes(code)) {
+      setStatus(`${languageLabel(code)} is already in this project.`)
+      return
+    }
+
+    setLanguages((prev) => [...prev, code])
+    setNewLanguage('')
+    setStatus(null)
+  }
+
+  function removeLanguage(lang: string) {
+    if (lang === sourceLanguage) return
+    setLanguages((prev) => prev.filter((l) => l !== lang))
+  }
+
+  function moveLanguage(index: number, offset: -1 | 1) {
+    const target = index + offset
+    if (target < 0 || target >= languages.length) return
+
+    setLanguages((prev) => {
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setStatus(null)
+
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ languages, source_language: sourceLanguage, key_rules: keyRules })
+      .eq('id', project.id)
+      .select()
+      .single()
+
+    if (error || !data) {
+      setStatus(`Save failed: ${error?.message ?? 'Unknown error'}`)
+    } else {
+      onProjectUpdate(data)
+      setStatus('Successfully saved project settings.')
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-xl font-bold text-gray-900">Settings</h2>
+        <p className="text-gray-500 text-sm mt-1">
+          Languages used by upload, the translation table, duplicate detection and exports.
+        </p>
+      </div>
+
+      <div className="rounded-xl border border-gray-200 p-5 space-y-4 max-w-xl">
+        <h3 className="font-display font-bold text-gray-900">Languages</h3>
+
+        <div className="space-y-1">
+          {languages.map((lang, i) => (
+            <div key={lang} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50">
+              <span className="w-12 text-xs font-mono font-medium text-gray-700">{languageLabel(lang)}</span>
+              <span className="flex-1 text-sm text-gray-600">{languageName(lang)}</span>
+              <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer">
+                <input
+                  type="radio"
+                  name="source-language"
+                  checked={sourceLanguage === lang}
+                  onChange={() => setSourceLanguage(lang)}
+                  className="accent-gray-900"
+                />
+                Source
+              </label>
+              <button
+                onClick={() => moveLanguage(i, -1)}
+                disabled={i === 0}
+                className="px-1.5 text-xs text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveLanguage(i, 1)}
+                disabled={i === languages.length - 1}
+                className="px-1.5 text-xs text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => removeLanguage(lang)}
+                disabled={lang === sourceLanguage}
+                className="px-1.5 text-xs text-gray-400 hover:text-danger disabled:opacity-30 disabled:cursor-not-allowed"
+                title={lang === sourceLanguage ? 'The source language cannot be removed' : 'Remove language'}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newLanguage}
+            onChange={(e) => setNewLanguage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addLanguage()
+            }}
+            placeholder="Language code, e.g. tr"
+            className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg
+                       focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+          <button
+            onClick={addLanguage}
+            className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Removing a language hides it everywhere but keeps its values, so adding it back restores them.
+        </p>
+      </div>
+
+      <div className="rounded-xl border border-gray-200 p-5 space-y-4 max-w-xl">
+        <div>
+          <h3 className="font-display font-bold text-gray-900">Key rules</h3>
+          <p className="text-xs text-gray-400 mt-1">
+            Every segment of a key path is checked against these rules. Keys that break them show up under Issues.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="space-y-1 text-xs text-gray-500">
+            <span>Naming style</span>
+            <select
+              value={keyRules.style}
+              onChange={(e) => updateRules({ style: e.target.value as NamingStyle })}
+              className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg bg-white
+                         focus:outline-none focus:ring-1 focus:ring-accent"
+            >
+              {(Object.keys(NAMING_STYLE_LABELS) as NamingStyle[]).map((style) => (
+                <option key={style} value={style}>{NAMING_STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs text-gray-500">
+            <span>Max depth</span>
+            <input
+              type="number"
+              min={1}
+              value={keyRules.maxDepth ?? ''}
+              onChange={(e) => updateRules({ maxDepth: parseLimit(e.target.value) })}
+              placeholder="No limit"
+              className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg
+                         focus:outline-none focus:ring-1 focus:ring-accent"
+            />
+          </label>
+          <label className="space-y-1 text-xs text-gray-500">
+            <span>Max length</span>
+            <input
+              type="number"
+              min={1}
+              value={keyRules.maxLength ?? ''}
+              onChange={(e) => updateRules({ maxLength: parseLimit(e.target.value) })}
+              placeholder="No limit"
+              className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg
+                         focus:outline-none focus:ring-1 focus:ring-accent"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">Avoid words reserved in</p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {(Object.keys(KEY_PLATFORM_LABELS) as KeyPlatform[]).map((platform) => (
+              <label key={platform} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keyRules.reserved.includes(platform)}
+                  onChange={() => togglePlatform(platform)}
+                  className="accent-gray-900"
+                />
+                {KEY_PLATFORM_LABELS[platform]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Custom rules: segments matching a pattern are reported with its message</p>
+          {keyRules.custom.map((rule, i) => (
+            <div key={i} className="flex gap-2">
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateCustomRule(i, { pattern: e.target.value })}
+                placeholder="Pattern, e.g. ^tmp"
+                className={`w-40 px-2 py-1.5 text-sm font-mono border rounded-lg
+                            focus:outline-none focus:ring-1 focus:ring-accent ${
+                              isValidPattern(rule.pattern) ? 'border-gray-200' : 'border-danger'
+                            }`}
+              />
+              <input
+                type="text"
+                value={rule.message}
+                onChange={(e) => updateCustomRule(i, { message: e.target.value })}
+                placeholder="Message"
+                className="flex-1 px-2 py-1.5 text-sm border border-gray-200 rounded-lg
+                           focus:outline-none focus:ring-1 focus:ring-accent"
+              />
+              <button
+                onClick={() => updateRules({ custom: keyRules.custom.filter((_, j) => j !== i) })}
+                className="px-1.5 text-xs text-gray-400 hover:text-danger"
+                title="Remove rule"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateRules({ custom: [...keyRules.custom, { pattern: '', message: '' }] })}
+            className="text-xs text-gray-500 hover:text-gray-900"
+          >
+            + Add rule
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <input
+            type="text"
+            value={sampleKey}
+            onChange={(e) => setSampleKey(e.target.value)}
+            placeholder="Try a key path, e.g. Settings.Class.title"
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-200 rounded-lg
+                       focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+          {sampleKey.trim() && (
+            sampleIssue ? (
+              <div className="text-xs text-gray-600 space-y-0.5">
+                {sampleIssue.segments.map((s, i) => <p key={i}>{s.message}</p>)}
+                {sampleIssue.keyPath !== sampleKey.trim() && (
+                  <p>Suggested: <code className="font-mono">{sampleIssue.keyPath}</code></p>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-green-700">No issues.</p>
+            )
+          )}
+        </div>
+      </div>
+
+      {status && (
+        <div className={`text-sm px-4 py-3 rounded-xl max-w-xl ${
+          status.startsWith('Successfully')
+            ? 'bg-success-light text-green-800'
+            : status.startsWith('Save failed') || status.startsWith('Invalid')
+              ? 'bg-danger-light text-red-800'
+              : 'bg-gray-100 text-gray-600'
+        }`}>
+          {status}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={!isDirty || saving || languages.length === 0 || invalidRules > 0}
+        className="px-6 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-xl
+                   hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from 'react'
+import type { Project, Translation, Variants } from '../types'
+import { supabase } from '../supabaseClient'
+import { languageLabel, languageName } from '../utils/languages'
+import { completionTrend, groupStats, languageStats, percentOf } from '../utils/statistics'
+import type { TrendEntry } from '../utils/statistics'
+
+const TREND_DAYS = 30
+const FETCH_SIZE = 1000
+
+interface StatsViewProps {
+  project: Project
+  translations: Translation[]
+  onShowMissing: (language: string, group: string | null) => void
+}
+
+function Sparkline({ values, max }: { values: number[]; max: number }) {
+  const width = 160
+  const height = 32
+  const step = values.length > 1 ? width / (values.length - 1) : 0
+  const points = values
+    .map((v, i) => `${(i * step).toFixed(1)},${(height - (max === 0 ? 0 : (v / max) * height)).toFixed(1)}`)
+    .join(' ')
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-accent" />
+    </svg>
+  )
+}
+
+export default function StatsView({ project, translations, onShowMissing }: StatsViewProps) {
+  const languages = project.languages
+  const [history, setHistory] = useState<TrendEntry[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function fetchHistory() {
+      const since = new Date()
+      since.setUTCDate(since.getUTCDate() - TREND_DAYS)
+      const all: TrendEntry[] = []
+      let from = 0
+
+      while (true) {
+        const { data, error } = await supabase
+          .from('translation_history')
+          .select('field, language, old_value, new_value, changed_at')
+          .eq('project_id', project.id)
+          .in('field', ['value', 'variants'])
+          .gte('changed_at', since.toISOString())
+          .order('changed_at')
+          .range(from, from + FETCH_SIZE - 1)
+
+        if (error || !data) break
+        all.push(...data)
+        if (data.length < FETCH_SIZE) break
+        from += FETCH_SIZE
+      }
+
+      if (!cancelled) setHistory(all)
+    }
+
+    fetchHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [project.id])
+
+  const perLanguage = useMemo(() => {
+    return languageStats(translations, languages, project.source_language)
+  }, [translations, languages, project.source_language])
+
+  const perGroup = useMemo(() => groupStats(translations, languages), [translations, languages])
+
+  // Plural forms are stored as JSON in history; only whether the "other" form is set matters here
+  const trend = useMemo(() => {
+    if (!history) return null
+    const otherForm = (value: string | null) => (value ? (JSON.parse(value) as Variants).other ?? null : null)
+    const valueHistory = history.map((h) =>
+      h.field === 'variants' ? { ...h, old_value: otherForm(h.old_value), new_value: otherForm(h.new_value) } : h,
+    )
+    return completionTrend(translations, languages, valueHistory, TREND_DAYS)
+  }, [history, translations, languages])
+
+  if (translations.length === 0) {
+    return (
+      <p className="text-sm text-gray-400 text-center py-8">
+        No translations yet. Upload files to see statistics.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-xl font-bold text-gray-900">Statistics</h2>
+        <p className="text-gray-500 text-sm mt-1">
+          Completion of {translations.length} keys across {languages.length} languages.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {perLanguage.map((s) => {
+          const points = trend?.map((p) => p.filled[s.language]) ?? []
+          return (
+            <div key={s.language} className="rounded-xl border border-gray-200 p-5 space-y-3">
+              <div className="flex items-baseline justify-between">
+                <h3 className="font-display font-bold text-gray-900">
+                  {languageName(s.language)}
+                  {s.language === project.source_language && (
+                    <span className="ml-1.5 text-[10px] font-medium text-gray-400 uppercase">source</span>
+                  )}
+                </h3>
+                <span className="text-2xl font-bold text-gray-900">{s.percent}%</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                <div className="h-full bg-success" style={{ width: `${s.percent}%` }} />
+              </div>
+              <dl className="grid grid-cols-2 gap-y-1 text-xs">
+                <dt className="text-gray-500">Translated</dt>
+                <dd className="text-right text-gray-900">{s.filled} of {s.total}</dd>
+                <dt className="text-gray-500">Empty</dt>
+                <dd className="text-right text-gray-900">{s.missing}</dd>
+                {s.language !== project.source_language && (
+                  <>
+                    <dt className="text-gray-500">Words to translate</dt>
+                    <dd className="text-right text-gray-900">{s.wordsToTranslate.toLocaleString()}</dd>
+                    <dt className="text-gray-500">Characters</dt>
+                    <dd className="text-right text-gray-900">{s.charsToTranslate.toLocaleString()}</dd>
+                  </>
+                )}
+              </dl>
+              <div className="text-gray-400" title={`Translated keys over the last ${TREND_DAYS} days`}>
+                {trend ? (
+                  <Sparkline values={points} max={Math.max(s.total, ...points)} />
+                ) : (
+                  <p className="text-xs">Loading trend...</p>
+                )}
+                {trend && points.length > 0 && (
+                  <p className="text-[10px] mt-1">
+                    {points[0]} → {points[points.length - 1]} in {TREND_DAYS} days
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => onShowMissing(s.language, null)}
+                disabled={s.missing === 0}
+                className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-xl
+                           hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Show missing in {languageLabel(s.language)}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200 bg-gray-50">
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Keys</th>
+              {languages.map((lang) => (
+                <th key={lang} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {languageLabel(lang)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {perGroup.map((g) => (
+              <tr key={g.group} className="border-b border-gray-100">
+                <td className="px-4 py-2.5 text-sm font-medium text-gray-900">{g.group}</td>
+                <td className="px-4 py-2.5 text-sm text-right text-gray-500">{g.total}</td>
+                {languages.map((lang) => (
+                  <td key={lang} className="px-4 py-2.5 text-sm text-right">
+                    {g.missing[lang] === 0 ? (
+                      <span className="text-gray-300">100%</span>
+                    ) : (
+                      <button
+                        onClick={() => onShowMissing(lang, g.group)}
+                        className="text-gray-700 hover:text-gray-900 underline decoration-gray-300"
+                        title={`${g.missing[lang]} missing in ${languageLabel(lang)}`}
+                      >
+                        {percentOf(g.total - g.missing[lang], g.total)}% · {g.missing[lang]} missing
+                      </button>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,24 +1,79 @@
 import { useState, useRef, useEffect } from 'react'
-import type { Translation, KeyIssue, DuplicateGroup } from '../types'
+import type { Translation, Profile, KeyIssue, ValueIssue, DuplicateGroup, HistoryField, HistoryEntry, ChangeSource, ReviewStatus } from '../types'
 import { supabase } from '../supabaseClient'
+import { getLangValue, languageLabel } from '../utils/languages'
+import { recordHistory } from '../utils/history'
+import { canEditKeys, canEditLanguage, canReview } from '../utils/permissions'
+import { getValueStatus, withoutStatus, STATUS_LABELS, STATUS_COLORS } from '../utils/reviewStatus'
+import { getVariants, requiredCategories } from '../utils/variants'
+import { aliasTarget, checkAliasEdit, resolveAlias } from '../utils/designTokens'
+import { currentValue } from '../utils/bulkEdits'
+import type { ValueEdit } from '../utils/bulkEdits'
+import type { QueuedEdit } from '../utils/editQueue'
+import TokenHistory from './TokenHistory'
+import VariantEditor from './VariantEditor'
 
 interface TableRowProps {
   translation: Translation
+  languages: string[]
+  profile: Profile
   issue: KeyIssue | null
+  valueIssues: ValueIssue[] | null
+  // Every key by path, to resolve and check aliases
+  byPath: Map<string, Translation>
   isDuplicate: boolean
   duplicateGroups: DuplicateGroup[] | null
+  // This row's value edits still waiting to be saved
+  queuedEdits: QueuedEdit[]
   onUpdate: (updated: Translation) => void
+  onQueueEdit: (edit: ValueEdit, source: ChangeSource) => void
+  onRetryEdit: (edit: QueuedEdit) => void
+  onDiscardEdit: (edit: QueuedEdit) => void
+  onResolveConflicts: () => void
   onContextMenu: (e: React.MouseEvent) => void
+  selected: boolean
+  onSelect: (e: React.MouseEvent) => void
   indented?: boolean
 }
 
-type EditableField = 'key_path' | 'az_value' | 'en_value' | 'ru_value'
+// 'key_path', a language code from the project's locale list, or 'lang:category' for one
+// plural/select form
+type EditableField = string
 
-export default function TableRow({ translation, issue, isDuplicate, duplicateGroups, onUpdate, onContextMenu, indented }: TableRowProps) {
+function splitVariantField(field: EditableField): [string, string] | null {
+  const i = field.indexOf(':')
+  return i === -1 ? null : [field.slice(0, i), field.slice(i + 1)]
+}
+
+export default function TableRow({
+  translation,
+  languages,
+  profile,
+  issue,
+  valueIssues,
+  byPath,
+  isDuplicate,
+  duplicateGroups,
+  queuedEdits,
+  onUpdate,
+  onQueueEdit,
+  onRetryEdit,
+  onDiscardEdit,
+  onResolveConflicts,
+  onContextMenu,
+  selected,
+  onSelect,
+  indented,
+}: TableRowProps) {
   const [editing, setEditing] = useState<EditableField | null>(null)
   const [editValue, setEditValue] = useState('')
   const [saving, setSaving] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
   const [showIssueFix, setShowIssueFix] = useState(false)
+  const [issueFixError, setIssueFixError] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showVariants, setShowVariants] = useState(false)
+  const [statusMenu, setStatusMenu] = useState<string | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -29,46 +84,118 @@ export default function TableRow({ translation, issue, isDuplicate, duplicateGro
     }
   }, [editing])
 
+  function fieldValue(field: EditableField): string | null {
+    if (field === 'key_path') return translation.key_path
+    const variant = splitVariantField(field)
+    if (variant) return getVariants(translation, variant[0])[variant[1]] ?? null
+    return getLangValue(translation.lang_values, field)
+  }
+
+  function canEditField(field: EditableField): boolean {
+    if (field === 'key_path') return canEditKeys(profile)
+    return canEditLanguage(profile, splitVariantField(field)?.[0] ?? field)
+  }
+
+  function canRevert(entry: HistoryEntry): boolean {
+    return entry.field === 'value' || entry.field === 'variants'
+      ? canEditLanguage(profile, entry.language ?? '')
+      : canEditKeys(profile)
+  }
+
   function startEdit(field: EditableField) {
+    if (!canEditField(field)) return
+    setEditError(null)
     setEditing(field)
-    setEditValue(translation[field] || '')
+    setEditValue(fieldValue(field) || '')
+  }
+
+  // Values and forms go through the edit queue so they survive a dropped connection; forms
+  // travel as JSON like they do in the history
+  function queueEdit(field: ValueEdit['field'], language: string, to: string | null, source: ChangeSource) {
+    onQueueEdit({
+      translationId: translation.id,
+      keyPath: translation.key_path,
+      language,
+      field,
+      from: currentValue(translation, { field, language }),
+      to,
+    }, source)
+  }
+
+  // Key-level fields are saved right away
+  async function applyChange(
+    field: Exclude<HistoryField, 'value' | 'variants'>,
+    value: string | null,
+    source: ChangeSource,
+  ): Promise<boolean> {
+    let oldValue: string | null
+    let patch: Partial<Translation>
+
+    if (field === 'key_path') {
+      oldValue = translation.key_path
+      patch = {
+        key_path: value ?? '',
+        original_key: translation.original_key || translation.key_path,
+      }
+    } else if (field === 'extensions') {
+      oldValue = JSON.stringify(translation.extensions ?? {})
+      patch = { extensions: value ? JSON.parse(value) : {} }
+    } else {
+      oldValue = translation[field as 'token_type' | 'figma_variable_id' | 'description']
+      patch = { [field]: value }
+    }
+
+    const { error } = await supabase
+      .from('translations')
+      .update(patch)
+      .eq('id', translation.id)
+
+    if (error) return false
+    onUpdate({ ...translation, ...patch })
+
+    try {
+      await recordHistory(translation.project_id, [{
+        translation_id: translation.id,
+        key_path: patch.key_path ?? translation.key_path,
+        field,
+        language: null,
+        old_value: oldValue,
+        new_value: value,
+      }], source)
+    } catch {
+      // The edit itself succeeded; a missing history entry should not undo it
+    }
+    return true
   }
 
   async function saveEdit() {
     if (!editing) return
-    const currentValue = translation[editing] || ''
-    if (editValue === currentValue) {
+    if (editValue === (fieldValue(editing) || '')) {
       setEditing(null)
       return
     }
 
     setSaving(true)
 
+    const variant = splitVariantField(editing)
     if (editing === 'key_path') {
-      const { error } = await supabase
-        .from('translations')
-        .update({
-          key_path: editValue,
-          original_key: translation.original_key || translation.key_path,
-        })
-        .eq('id', translation.id)
-
-      if (!error) {
-        onUpdate({
-          ...translation,
-          key_path: editValue,
-          original_key: translation.original_key || translation.key_path,
-        })
+      if (!(await applyChange('key_path', editValue, 'manual'))) {
+        setEditError('Could not rename; the path may already be in use, or the connection is down.')
+        setSaving(false)
+        return
       }
+    } else if (variant) {
+      const [lang, category] = variant
+      const variants = { ...getVariants(translation, lang), [category]: editValue }
+      queueEdit('variants', lang, JSON.stringify(variants), 'manual')
     } else {
-      const { error } = await supabase
-        .from('translations')
-        .update({ [editing]: editValue || null })
-        .eq('id', translation.id)
-
-      if (!error) {
-        onUpdate({ ...translation, [editing]: editValue || null })
+      const aliasError = checkAliasEdit(translation.key_path, editing, editValue, byPath)
+      if (aliasError) {
+        setEditError(aliasError)
+        setSaving(false)
+        return
       }
+      queueEdit('value', editing, editValue || null, 'manual')
     }
 
     setSaving(false)
@@ -83,32 +210,76 @@ export default function TableRow({ translation, issue, isDuplicate, duplicateGro
   async function acceptIssueFix() {
     if (!issue) return
     setSaving(true)
+    const saved = await applyChange('key_path', issue.keyPath, 'manual')
+    setSaving(false)
+    // Most likely the suggested path is already taken by another key
+    setIssueFixError(!saved)
+    if (saved) setShowIssueFix(false)
+  }
+
+  async function setReviewStatus(lang: string, status: ReviewStatus) {
+    let comment: string | null = null
+    if (status === 'rejected') {
+      comment = prompt(`Why is the ${languageLabel(lang)} value rejected?`)
+      if (comment === null) return
+    }
+
+    setSaving(true)
+    const langStatus = withoutStatus(translation.lang_status, lang)
+    const next = status === 'draft' ? langStatus : { ...langStatus, [lang]: { status, comment: comment || null } }
 
-    const newKeyPath = issue.keyPath
     const { error } = await supabase
       .from('translations')
-      .update({
-        key_path: newKeyPath,
-        original_key: translation.original_key || translation.key_path,
-      })
+      .update({ lang_status: next })
       .eq('id', translation.id)
 
-    if (!error) {
-      onUpdate({
-        ...translation,
-        key_path: newKeyPath,
-        original_key: translation.original_key || translation.key_path,
-      })
+    if (!error) onUpdate({ ...translation, lang_status: next })
+    setSaving(false)
+    setStatusMenu(null)
+  }
+
+  function statusActions(lang: string): { status: ReviewStatus; label: string }[] {
+    const current = getValueStatus(translation, lang)
+    if (current === 'missing') return []
+
+    const actions: { status: ReviewStatus; label: string }[] = []
+    if (canEditLanguage(profile, lang) && (current === 'draft' || current === 'rejected')) {
+      actions.push({ status: 'needs_review', label: 'Submit for review' })
     }
+    if (canReview(profile)) {
+      if (current !== 'approved') actions.push({ status: 'approved', label: 'Approve' })
+      if (current !== 'rejected') actions.push({ status: 'rejected', label: 'Reject' })
+    }
+    if (canEditLanguage(profile, lang) && current !== 'draft') {
+      actions.push({ status: 'draft', label: 'Back to draft' })
+    }
+    return actions
+  }
+
+  async function saveVariantSettings(patch: Partial<Translation>) {
+    setSaving(true)
+    const { error } = await supabase
+      .from('translations')
+      .update(patch)
+      .eq('id', translation.id)
+
+    if (!error) onUpdate({ ...translation, ...patch })
     setSaving(false)
-    setShowIssueFix(false)
   }
 
-  function renderCell(field: 'az_value' | 'en_value' | 'ru_value') {
-    const value = translation[field]
+  async function revertEntry(entry: HistoryEntry) {
+    if (entry.field === 'value' || entry.field === 'variants') {
+      queueEdit(entry.field, entry.language ?? '', entry.old_value, 'revert')
+      return
+    }
+    setSaving(true)
+    await applyChange(entry.field, entry.old_value, 'revert')
+    setSaving(false)
+  }
 
-    if (editing === field) {
-      return (
+  function renderEditor() {
+    return (
+      <>
         <textarea
           ref={textareaRef}
           value={editValue}
@@ -125,17 +296,123 @@ export default function TableRow({ translation, issue, isDuplicate, duplicateGro
           rows={Math.max(2, editValue.split('\n').length)}
           className="w-full px-2 py-1 text-sm border border-accent rounded-lg bg-white resize-y
                      focus:outline-none focus:ring-1 focus:ring-accent"
-        />
+          />
+        {editError && <p className="px-2 text-[10px] text-danger break-words">{editError}</p>}
+      </>
+    )
+  }
+
+  // Required categories for the locale first, then any extra forms someone filled in (e.g. zero)
+  function renderVariants(field: string) {
+    const variants = getVariants(translation, field)
+    const required = requiredCategories(translation, field)
+    const categories = [...required, ...Object.keys(variants).filter((c) => !required.includes(c))]
+
+    return (
+      <div className="space-y-0.5">
+        {categories.map((category) =>
+          editing === `${field}:${category}` ? (
+            <div key={category}>{renderEditor()}</div>
+          ) : (
+            <div
+              key={category}
+              onClick={() => startEdit(`${field}:${category}`)}
+              className={`px-2 py-0.5 text-sm rounded-lg break-words transition-colors ${
+                canEditField(field) ? 'cursor-pointer hover:bg-gray-100' : 'cursor-default'
+              }`}
+            >
+              <span className="mr-1.5 text-[10px] font-medium text-gray-400 uppercase">{category}</span>
+              {variants[category] || <span className="text-gray-300 italic">empty</span>}
+            </div>
+          ),
+        )}
+      </div>
+    )
+  }
+
+  function renderQueuedEdit(edit: QueuedEdit) {
+    if (edit.state === 'pending') {
+      return <p key={edit.id} className="px-2 text-[10px] text-gray-400">Not saved yet</p>
+    }
+    if (edit.state === 'failed') {
+      return (
+        <p key={edit.id} className="px-2 text-[10px] text-danger break-words">
+          Not saved: {edit.error}{' '}
+          <button onClick={() => onRetryEdit(edit)} className="font-medium underline hover:text-gray-900">Retry</button>{' '}
+          <button onClick={() => onDiscardEdit(edit)} className="font-medium underline hover:text-gray-900">Discard</button>
+        </p>
       )
     }
+    return (
+      <p key={edit.id} className="px-2 text-[10px] text-amber-700">
+        Changed by someone else{' '}
+        <button onClick={onResolveConflicts} className="font-medium underline hover:text-amber-900">Resolve</button>
+      </p>
+    )
+  }
+
+  function renderCell(field: string) {
+    const value = getLangValue(translation.lang_values, field)
+
+    if (editing === field) return renderEditor()
+
+    const status = getValueStatus(translation, field)
+    const comment = translation.lang_status?.[field]?.comment
+    const actions = statusActions(field)
+    const fieldIssues = valueIssues?.filter((i) => i.language === field) ?? []
+    const alias = aliasTarget(value, byPath) ? resolveAlias(translation.key_path, field, byPath) : null
 
     return (
-      <div
-        onClick={() => startEdit(field)}
-        className="px-2 py-1 text-sm cursor-pointer rounded-lg hover:bg-gray-100 min-h-[28px]
-                   break-words transition-colors"
-      >
-        {value || <span className="text-gray-300 italic">empty</span>}
+      <div>
+        {translation.variant_kind ? renderVariants(field) : (
+          <div
+            onClick={() => startEdit(field)}
+            className={`px-2 py-1 text-sm rounded-lg min-h-[28px] break-words transition-colors ${
+              canEditField(field) ? 'cursor-pointer hover:bg-gray-100' : 'cursor-default'
+            }`}
+          >
+            {alias ? (
+              <>
+                {alias.value ?? <span className="text-gray-300 italic">unresolved</span>}
+                <span className="block text-[10px] font-mono text-gray-400" title={value ?? undefined}>
+                  → {alias.chain.join(' → ')}
+                </span>
+              </>
+            ) : (
+              value || <span className="text-gray-300 italic">empty</span>
+            )}
+          </div>
+        )}
+        {queuedEdits.filter((e) => e.language === field).map(renderQueuedEdit)}
+        {fieldIssues.map((i, idx) => (
+          <p key={idx} className="px-2 text-[10px] text-amber-700 break-words">⚠ {i.message}</p>
+        ))}
+        {status !== 'missing' && (
+          <div className="px-2 flex flex-wrap items-center gap-x-2 gap-y-0.5">
+            <button
+              onClick={() => setStatusMenu(statusMenu === field ? null : field)}
+              disabled={actions.length === 0}
+              className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-gray-600 disabled:hover:text-gray-400 transition-colors"
+              title={comment ? `Rejected: ${comment}` : undefined}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${STATUS_COLORS[status]}`} />
+              {STATUS_LABELS[status]}
+            </button>
+            {statusMenu === field && actions.map((a) => (
+              <button
+                key={a.status}
+                onClick={() => setReviewStatus(field, a.status)}
+                disabled={saving}
+                className="text-[10px] font-medium text-gray-600 hover:text-gray-900 underline disabled:opacity-50"
+              >
+                {a.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {status === 'rejected' && comment && (
+          <p className="px-2 text-[10px] text-danger break-words">{comment}</p>
+        )}
       </div>
     )
   }
@@ -148,22 +425,33 @@ export default function TableRow({ translation, issue, isDuplicate, duplicateGro
     <>
       <tr
         onContextMenu={onContextMenu}
-        className={`border-b border-gray-100 ${isDuplicate ? 'bg-danger-light' : ''} ${issue ? 'bg-warning-light' : ''}`}
+        className={`group border-b border-gray-100 ${isDuplicate ? 'bg-danger-light' : ''} ${issue ? 'bg-warning-light' : ''}`}
       >
         <td className={`py-2.5 text-sm ${indented ? 'pl-10 pr-4' : 'px-4'}`} style={{ maxWidth: 600 }}>
           {editing === 'key_path' ? (
-            <input
-              ref={inputRef}
-              value={editValue}
-              onChange={(e) => setEditValue(e.target.value)}
-              onBlur={saveEdit}
-              onKeyDown={handleKeyDown}
-              disabled={saving}
-              className="w-full px-2 py-1 text-sm border border-accent rounded-lg bg-white
-                         focus:outline-none focus:ring-1 focus:ring-accent"
-            />
+            <>
+              <input
+                ref={inputRef}
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onBlur={saveEdit}
+                onKeyDown={handleKeyDown}
+                disabled={saving}
+                className="w-full px-2 py-1 text-sm border border-accent rounded-lg bg-white
+                           focus:outline-none focus:ring-1 focus:ring-accent"
+              />
+              {editError && <p className="px-2 text-[10px] text-danger break-words">{editError}</p>}
+            </>
           ) : (
             <div className="flex items-center gap-1.5 min-w-0">
+              <input
+                type="checkbox"
+                checked={selected}
+                onClick={onSelect}
+                readOnly
+                className="shrink-0"
+                title="Select (Shift-click for a range)"
+              />
               {issue && (
                 <button
                   onClick={() => setShowIssueFix(!showIssueFix)}
@@ -177,7 +465,7 @@ export default function TableRow({ translation, issue, isDuplicate, duplicateGro
                 <span
                   className="shrink-0 w-5 h-5 rounded-full bg-danger text-white text-xs flex items-center justify-center"
                   title={duplicateGroups.map((g) => {
-                    const langLabel = { az: 'AZ', en: 'EN', ru: 'RU' }[g.language]
+                    const langLabel = g.language ? languageLabel(g.language) : 'All languages'
                     const others = g.keyPaths.filter((kp) => kp !== translation.key_path)
                     const preview = g.value.length > 50 ? g.value.slice(0, 50) + '…' : g.value
                     return `${langLabel} "${preview}" — also in: ${others.join(', ')}`
@@ -188,44 +476,119 @@ export default function TableRow({ translation, issue, isDuplicate, duplicateGro
               )}
               <span
                 onClick={() => startEdit('key_path')}
-                className="truncate cursor-pointer rounded-lg hover:bg-gray-100 px-1 py-0.5 transition-colors"
-                title={translation.key_path}
+                className={`truncate rounded-lg px-1 py-0.5 transition-colors ${
+                  canEditField('key_path') ? 'cursor-pointer hover:bg-gray-100' : 'cursor-default'
+                }`}
+                title={translation.description ? `${translation.key_path}\n${translation.description}` : translation.key_path}
               >
                 <span className="text-gray-400">{prefix}</span>
                 <span className="font-medium">{lastSegment}</span>
               </span>
+              {translation.variant_kind && (
+                <span className="shrink-0 px-1.5 py-0.5 text-[10px] font-medium text-gray-500 bg-gray-100 rounded">
+                  {translation.variant_kind}
+                </span>
+              )}
+              {canEditKeys(profile) && (
+                <button
+                  onClick={() => setShowVariants(!showVariants)}
+                  className={`shrink-0 ml-auto px-1 text-[10px] font-medium rounded text-gray-400 hover:text-gray-700 transition-opacity ${
+                    showVariants ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  }`}
+                  title="Plural and select forms"
+                >
+                  1/n
+                </button>
+              )}
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`shrink-0 p-0.5 rounded text-gray-400 hover:text-gray-700 transition-opacity ${
+                  canEditKeys(profile) ? '' : 'ml-auto'
+                } ${
+                  showHistory ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                }`}
+                title="Edit history"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </button>
             </div>
           )}
         </td>
-        <td className="px-3 py-2.5">{renderCell('az_value')}</td>
-        <td className="px-3 py-2.5">{renderCell('en_value')}</td>
-        <td className="px-3 py-2.5">{renderCell('ru_value')}</td>
+        {languages.map((lang) => (
+          <td key={lang} className="px-3 py-2.5">{renderCell(lang)}</td>
+        ))}
       </tr>
       {showIssueFix && issue && (
         <tr className="bg-warning-light border-b border-gray-100">
-          <td colSpan={4} className="px-4 py-3">
+          <td colSpan={languages.length + 1} className="px-4 py-3">
+            <ul className="mb-2 space-y-0.5 text-xs text-gray-600">
+              {issue.segments.map((s, i) => (
+                <li key={i}>
+                  <code className="bg-white px-1 rounded font-mono">{s.segment}</code> {s.message}
+                </li>
+              ))}
+            </ul>
             <div className="flex items-center gap-3 text-sm">
-              <span className="text-gray-600">
-                Suggested fix: <code className="bg-white px-1.5 py-0.5 rounded text-xs font-mono">{issue.suggested}</code>
-              </span>
-              <button
-                onClick={acceptIssueFix}
-                disabled={saving}
-                className="px-3 py-1 bg-gray-900 text-white text-xs font-medium rounded-lg
-                           hover:bg-gray-800 transition-colors disabled:opacity-50"
-              >
-                Accept
-              </button>
+              {issue.keyPath !== translation.key_path ? (
+                <>
+                  <span className="text-gray-600">
+                    Suggested fix: <code className="bg-white px-1.5 py-0.5 rounded text-xs font-mono">{issue.keyPath}</code>
+                  </span>
+                  <button
+                    onClick={acceptIssueFix}
+                    disabled={saving || !canEditKeys(profile)}
+                    className="px-3 py-1 bg-gray-900 text-white text-xs font-medium rounded-lg
+                               hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                </>
+              ) : (
+                <span className="text-gray-600">No automatic fix; rename the key by hand.</span>
+              )}
               <button
                 onClick={() => setShowIssueFix(false)}
                 className="px-3 py-1 text-gray-500 text-xs hover:text-gray-700 transition-colors"
               >
                 Dismiss
               </button>
+              {issueFixError && (
+                <span className="text-xs text-danger">
+                  Could not rename; the path may already be in use. "Fix all" under Issues picks a free name.
+                </span>
+              )}
             </div>
           </td>
         </tr>
       )}
+      {showVariants && (
+        <tr className="bg-gray-50 border-b border-gray-100">
+          <td colSpan={languages.length + 1} className="px-4 py-3">
+            <VariantEditor
+              translation={translation}
+              languages={languages}
+              onSave={saveVariantSettings}
+              onClose={() => setShowVariants(false)}
+              saving={saving}
+            />
+          </td>
+        </tr>
+      )}
+      {showHistory && (
+        <tr className="bg-gray-50 border-b border-gray-100">
+          <td colSpan={languages.length + 1} className="px-4 py-3">
+            <TokenHistory
+              translation={translation}
+              canRevert={canRevert}
+              onRevert={revertEntry}
+              onClose={() => setShowHistory(false)}
+              reverting={saving}
+            />
+          </td>
+        </tr>
+      )}
     </>
   )
 }
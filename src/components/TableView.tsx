@@ -1,30 +1,240 @@
-import React, { useState, useEffect, useMemo } from 'react'
-import type { Translation, KeyIssue, DuplicateGroup } from '../types'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import type { Project, Profile, Translation, KeyIssue, DuplicateGroup, ChangeSource } from '../types'
 import { supabase } from '../supabaseClient'
-import { analyzeKeyIssues } from '../utils/keyOptimizer'
-import { findDuplicateValues } from '../utils/duplicateDetector'
+import { analyzeKeyIssues, projectKeyRules } from '../utils/keyOptimizer'
+import { DEFAULT_SIMILARITY, DUPLICATE_KIND_LABELS, duplicateGroupId, findDuplicateValues } from '../utils/duplicateDetector'
+import type { SimilarValuesRequest } from '../utils/similarValues.worker'
+import { findValueIssues } from '../utils/placeholders'
+import { retargetAliases } from '../utils/designTokens'
+import { applyEditPlan, currentValue, planValueEdits } from '../utils/bulkEdits'
+import type { ValueEdit } from '../utils/bulkEdits'
+import {
+  isSameCell,
+  loadQueuedEdits,
+  newQueuedEdit,
+  putQueuedEdit,
+  removeQueuedEdit,
+  sameCellValue,
+  sendQueuedEdit,
+  withQueuedEdits,
+} from '../utils/editQueue'
+import type { QueuedEdit } from '../utils/editQueue'
+import { getLangValue, languageLabel } from '../utils/languages'
+import { canDeleteTokens, canEditKeys, canEditLanguage } from '../utils/permissions'
+import { getValueStatus, VALUE_STATUSES, STATUS_LABELS } from '../utils/reviewStatus'
+import type { ValueStatus } from '../utils/reviewStatus'
 import TableRow from './TableRow'
+import KeyTree from './KeyTree'
+import FindReplace from './FindReplace'
+import BulkActions from './BulkActions'
+import KeyFixer from './KeyFixer'
+import DuplicateMerge from './DuplicateMerge'
+import ConflictDialog from './ConflictDialog'
 
 const PAGE_SIZE = 500
+// How long to wait before sending queued edits again while offline
+const RETRY_DELAY = 15000
+const NO_EDITS: QueuedEdit[] = []
+
+function matchesStatus(t: Translation, status: ValueStatus, languages: string[]): boolean {
+  return languages.some((lang) => getValueStatus(t, lang) === status)
+}
+
+function matchesSearch(t: Translation, q: string, languages: string[]): boolean {
+  return (
+    t.key_path.toLowerCase().includes(q) ||
+    (t.original_key?.toLowerCase().includes(q) ?? false) ||
+    languages.some((lang) => getLangValue(t.lang_values, lang)?.toLowerCase().includes(q) ?? false)
+  )
+}
 
 interface TableViewProps {
   translations: Translation[]
   setTranslations: React.Dispatch<React.SetStateAction<Translation[]>>
-  projectId: string
+  project: Project
+  profile: Profile
   refreshKey: number
+  // Opens the table on the keys missing in one language, optionally within a top-level group
+  initialFilter?: { language: string; group: string | null } | null
 }
 
-export default function TableView({ translations, setTranslations, projectId, refreshKey }: TableViewProps) {
+export default function TableView({
+  translations,
+  setTranslations,
+  project,
+  profile,
+  refreshKey,
+  initialFilter,
+}: TableViewProps) {
+  const projectId = project.id
+  const languages = project.languages
   const [search, setSearch] = useState('')
   const [loading, setLoading] = useState(true)
-  const [filterMode, setFilterMode] = useState<'all' | 'issues' | 'duplicates'>('all')
+  const [filterMode, setFilterMode] = useState<'all' | 'issues' | 'placeholders' | 'duplicates' | 'review'>(
+    initialFilter ? 'review' : 'all',
+  )
+  const [statusFilter, setStatusFilter] = useState<ValueStatus>(initialFilter ? 'missing' : 'needs_review')
+  const [statusLanguage, setStatusLanguage] = useState<string>(initialFilter?.language ?? 'any')
+  const [groupFilter, setGroupFilter] = useState<string | null>(initialFilter?.group ?? null)
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; translationId: string } | null>(null)
   const [ignoredDuplicates, setIgnoredDuplicates] = useState<Set<string>>(new Set())
+  // Fuzzy matching is slow on large projects, so it only runs while asked for
+  const [showSimilar, setShowSimilar] = useState(false)
+  const [similarityThreshold, setSimilarityThreshold] = useState(DEFAULT_SIMILARITY)
+  // The last fuzzy result and what it was computed from, so a stale one is shown as updating
+  const [similarResult, setSimilarResult] = useState<{ request: SimilarValuesRequest; groups: DuplicateGroup[] } | null>(null)
+  const [mergeReport, setMergeReport] = useState<string | null>(null)
   const [page, setPage] = useState(0)
+  const [showFindReplace, setShowFindReplace] = useState(false)
+  const [showKeyFixer, setShowKeyFixer] = useState(false)
+  // Selection survives paging and filtering; the anchor is the last row clicked without Shift
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null)
+  // Cell edits not saved yet; the ref is what the realtime handler and the send loop read
+  const [queue, setQueue] = useState<QueuedEdit[]>([])
+  const [offline, setOffline] = useState(false)
+  const [showConflicts, setShowConflicts] = useState(false)
+  const queueRef = useRef<QueuedEdit[]>([])
+  const flushing = useRef(false)
+  const retryTimer = useRef<number | null>(null)
+
+  function commitQueue(next: QueuedEdit[]) {
+    queueRef.current = next
+    setQueue(next)
+  }
+
+  function updateQueuedEdit(edit: QueuedEdit) {
+    const previous = queueRef.current.find((e) => e.id === edit.id)
+    commitQueue(queueRef.current.map((e) => (e.id === edit.id ? edit : e)))
+    putQueuedEdit(edit)
+    if (edit.state === 'conflict' && previous?.state !== 'conflict') setShowConflicts(true)
+  }
+
+  function dequeue(id: number) {
+    commitQueue(queueRef.current.filter((e) => e.id !== id))
+    removeQueuedEdit(id)
+  }
+
+  // Shows a row as the server has it, with this browser's unsaved edits on top
+  function showServerRow(row: Translation) {
+    setTranslations((prev) => prev.map((t) => (t.id === row.id ? withQueuedEdits(row, queueRef.current) : t)))
+  }
+
+  // A save by someone else to a cell with a waiting edit is a conflict, unless they saved
+  // the same value
+  function noteServerRow(row: Translation) {
+    for (const edit of queueRef.current) {
+      if (edit.translationId !== row.id || edit.state !== 'pending') continue
+      const theirs = currentValue(row, edit)
+      if (!sameCellValue(edit.field, theirs, edit.from) && !sameCellValue(edit.field, theirs, edit.to)) {
+        updateQueuedEdit({ ...edit, state: 'conflict', theirs })
+      }
+    }
+    showServerRow(row)
+  }
+
+  function scheduleRetry() {
+    if (retryTimer.current !== null) return
+    retryTimer.current = window.setTimeout(() => {
+      retryTimer.current = null
+      flushQueue()
+    }, RETRY_DELAY)
+  }
+
+  // Sends waiting edits one at a time, oldest first, until the queue is empty or the
+  // connection is gone
+  async function flushQueue() {
+    if (flushing.current) return
+    flushing.current = true
+    try {
+      while (true) {
+        const edit = queueRef.current.find((e) => e.state === 'pending')
+        if (!edit) break
+
+        const result = await sendQueuedEdit(edit)
+        if (result.status === 'offline') {
+          setOffline(true)
+          scheduleRetry()
+          break
+        }
+        setOffline(false)
+
+        // The cell may have been edited again while the request was out
+        const latest = queueRef.current.find((e) => e.id === edit.id)
+        if (result.status === 'saved') {
+          if (latest && latest.to !== edit.to) updateQueuedEdit({ ...latest, from: edit.to, state: 'pending', theirs: null })
+          else if (latest) dequeue(edit.id)
+          showServerRow(result.row)
+        } else if (latest) {
+          updateQueuedEdit(
+            result.status === 'conflict'
+              ? { ...latest, state: 'conflict', theirs: result.theirs }
+              : { ...latest, state: 'failed', error: result.error },
+          )
+        }
+      }
+    } finally {
+      flushing.current = false
+    }
+  }
+
+  // Shows an edit right away and queues it. A second edit to the same cell replaces the
+  // first but keeps the value the cell had before either
+  function queueCellEdit(edit: ValueEdit, source: ChangeSource) {
+    setTranslations((prev) => applyEditPlan(prev, planValueEdits(prev, [edit])))
+
+    const queued = queueRef.current.find((e) => isSameCell(e, edit))
+    if (!queued) {
+      const added = newQueuedEdit({ ...edit, projectId, userId: profile.id, source, state: 'pending', error: null, theirs: null })
+      commitQueue([...queueRef.current, added])
+      putQueuedEdit(added)
+    } else if (sameCellValue(edit.field, edit.to, queued.from)) {
+      dequeue(queued.id)
+    } else {
+      updateQueuedEdit({ ...queued, to: edit.to, source, state: queued.state === 'conflict' ? 'conflict' : 'pending', error: null })
+    }
+    flushQueue()
+  }
+
+  function retryQueuedEdit(edit: QueuedEdit) {
+    updateQueuedEdit({ ...edit, state: 'pending', error: null })
+    flushQueue()
+  }
+
+  // Saves over their value, which is what the cell is checked against from now on
+  function keepMine(edit: QueuedEdit) {
+    updateQueuedEdit({ ...edit, from: edit.theirs, theirs: null, state: 'pending' })
+    flushQueue()
+  }
+
+  // Drops an edit and shows the cell as the server has it, or as `fallback` while offline
+  async function dropQueuedEdit(edit: QueuedEdit, fallback: string | null) {
+    dequeue(edit.id)
+    setTranslations((prev) => {
+      const t = prev.find((r) => r.id === edit.translationId)
+      return t ? applyEditPlan(prev, planValueEdits(prev, [{ ...edit, from: currentValue(t, edit), to: fallback }])) : prev
+    })
+
+    const { data } = await supabase.from('translations').select('*').eq('id', edit.translationId).maybeSingle()
+    if (data) showServerRow(data as Translation)
+  }
 
   useEffect(() => {
     fetchTranslations()
 
+    // Edits left from an earlier visit go out first
+    let cancelled = false
+    loadQueuedEdits(projectId, profile.id).then((stored) => {
+      if (cancelled) return
+      // Edits only held in memory are kept when the browser has no storage for them
+      const ids = new Set(stored.map((e) => e.id))
+      const edits = [...stored, ...queueRef.current.filter((e) => e.projectId === projectId && !ids.has(e.id))]
+        .sort((a, b) => a.id - b.id)
+      commitQueue(edits)
+      setTranslations((prev) => prev.map((t) => withQueuedEdits(t, edits)))
+      flushQueue()
+    })
+
     const channel = supabase
       .channel(`translations-realtime-${projectId}-${refreshKey}`)
       .on(
@@ -32,24 +242,38 @@ export default function TableView({ translations, setTranslations, projectId, re
         { event: '*', schema: 'public', table: 'translations', filter: `project_id=eq.${projectId}` },
         (payload) => {
           if (payload.eventType === 'INSERT') {
-            setTranslations((prev) => [...prev, payload.new as Translation])
-          } else if (payload.eventType === 'UPDATE') {
+            // Rows inserted from this tab may already be in the list
             setTranslations((prev) =>
-              prev.map((t) => (t.id === (payload.new as Translation).id ? (payload.new as Translation) : t)),
+              prev.some((t) => t.id === (payload.new as Translation).id) ? prev : [...prev, payload.new as Translation],
             )
+          } else if (payload.eventType === 'UPDATE') {
+            noteServerRow(payload.new as Translation)
           } else if (payload.eventType === 'DELETE') {
-            setTranslations((prev) =>
-              prev.filter((t) => t.id !== (payload.old as { id: string }).id),
-            )
+            const id = (payload.old as { id: string }).id
+            // Edits to a deleted key have nowhere to go
+            for (const edit of queueRef.current) {
+              if (edit.translationId === id) dequeue(edit.id)
+            }
+            setTranslations((prev) => prev.filter((t) => t.id !== id))
           }
         },
       )
       .subscribe()
 
+    const goneOnline = () => flushQueue()
+    const goneOffline = () => setOffline(true)
+    window.addEventListener('online', goneOnline)
+    window.addEventListener('offline', goneOffline)
+
     return () => {
+      cancelled = true
       supabase.removeChannel(channel)
+      window.removeEventListener('online', goneOnline)
+      window.removeEventListener('offline', goneOffline)
+      if (retryTimer.current !== null) window.clearTimeout(retryTimer.current)
+      retryTimer.current = null
     }
-  }, [setTranslations, projectId, refreshKey])
+  }, [setTranslations, projectId, profile.id, refreshKey])
 
   async function fetchTranslations() {
     setLoading(true)
@@ -71,26 +295,61 @@ export default function TableView({ translations, setTranslations, projectId, re
       from += FETCH_SIZE
     }
 
-    setTranslations(all)
+    setTranslations(all.map((t) => withQueuedEdits(t, queueRef.current)))
     setLoading(false)
   }
 
   const issues = useMemo(() => {
+    const rules = projectKeyRules(project)
     const map = new Map<string, KeyIssue>()
     for (const t of translations) {
-      const issue = analyzeKeyIssues(t.key_path)
+      const issue = analyzeKeyIssues(t.key_path, rules)
       if (issue) map.set(t.key_path, issue)
     }
     return map
-  }, [translations])
+  }, [translations, project])
+
+  const queueByRow = useMemo(() => {
+    const map = new Map<string, QueuedEdit[]>()
+    for (const edit of queue) map.set(edit.translationId, [...(map.get(edit.translationId) ?? []), edit])
+    return map
+  }, [queue])
+
+  const waitingCount = queue.filter((e) => e.state === 'pending').length
+  const conflicts = useMemo(() => queue.filter((e) => e.state === 'conflict'), [queue])
+
+  const byPath = useMemo(() => new Map(translations.map((t) => [t.key_path, t])), [translations])
+
+  const valueIssues = useMemo(() => {
+    return findValueIssues(translations, languages, project.source_language)
+  }, [translations, languages, project.source_language])
 
   const duplicates = useMemo(() => {
-    return findDuplicateValues(translations)
-  }, [translations])
+    return findDuplicateValues(translations, languages)
+  }, [translations, languages])
+
+  const similarActive = filterMode === 'duplicates' && showSimilar
+
+  useEffect(() => {
+    if (!similarActive) return
+    const request: SimilarValuesRequest = { translations, languages, threshold: similarityThreshold }
+    const worker = new Worker(new URL('../utils/similarValues.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (e: MessageEvent<DuplicateGroup[]>) => setSimilarResult({ request, groups: e.data })
+    worker.postMessage(request)
+    // A newer edit or threshold supersedes the running search
+    return () => worker.terminate()
+  }, [similarActive, translations, languages, similarityThreshold])
+
+  const similarValues = useMemo(() => (similarActive ? (similarResult?.groups ?? []) : []), [similarActive, similarResult])
+  const findingSimilar = similarActive && (
+    similarResult?.request.translations !== translations ||
+    similarResult.request.languages !== languages ||
+    similarResult.request.threshold !== similarityThreshold
+  )
 
   const activeDuplicates = useMemo(() => {
-    return duplicates.filter((g) => !ignoredDuplicates.has(`${g.language}::${g.value}`))
-  }, [duplicates, ignoredDuplicates])
+    return [...duplicates, ...similarValues].filter((g) => !ignoredDuplicates.has(duplicateGroupId(g)))
+  }, [duplicates, similarValues, ignoredDuplicates])
 
   const duplicateKeyPaths = useMemo(() => {
     const set = new Set<string>()
@@ -113,21 +372,10 @@ export default function TableView({ translations, setTranslations, projectId, re
     return map
   }, [activeDuplicates])
 
-  function matchesSearch(t: Translation, q: string): boolean {
-    return (
-      t.key_path.toLowerCase().includes(q) ||
-      (t.original_key?.toLowerCase().includes(q) ?? false) ||
-      (t.az_value?.toLowerCase().includes(q) ?? false) ||
-      (t.en_value?.toLowerCase().includes(q) ?? false) ||
-      (t.ru_value?.toLowerCase().includes(q) ?? false)
-    )
-  }
-
   // Grouped duplicates for the duplicates filter view
   const groupedDuplicates = useMemo(() => {
     if (filterMode !== 'duplicates') return []
 
-    const langLabel: Record<string, string> = { az: 'AZ', en: 'EN', ru: 'RU' }
     const translationMap = new Map<string, Translation>()
     for (const t of translations) {
       translationMap.set(t.key_path, t)
@@ -140,38 +388,71 @@ export default function TableView({ translations, setTranslations, projectId, re
 
       if (search) {
         const q = search.toLowerCase()
-        rows = rows.filter((t) => matchesSearch(t, q))
+        rows = rows.filter((t) => matchesSearch(t, q, languages))
       }
 
+      const scope = group.language ? ` in ${languageLabel(group.language)}` : ''
+      const preview = group.value.length > 80 ? group.value.slice(0, 80) + '…' : group.value
       return {
         group,
-        label: `${langLabel[group.language]}: "${group.value.length > 80 ? group.value.slice(0, 80) + '…' : group.value}"`,
+        label: `${DUPLICATE_KIND_LABELS[group.kind]}${scope}: "${preview}"`,
         rows,
       }
     }).filter((g) => g.rows.length > 0)
-  }, [filterMode, activeDuplicates, translations, search])
+  }, [filterMode, activeDuplicates, translations, search, languages])
+
+  const statusLanguages = useMemo(() => {
+    return statusLanguage === 'any' ? languages : [statusLanguage]
+  }, [statusLanguage, languages])
+
+  const statusCounts = useMemo(() => {
+    const counts = {} as Record<ValueStatus, number>
+    for (const status of VALUE_STATUSES) {
+      counts[status] = translations.filter((t) => matchesStatus(t, status, statusLanguages)).length
+    }
+    return counts
+  }, [translations, statusLanguages])
 
   const filtered = useMemo(() => {
     let result = translations
 
+    if (groupFilter) {
+      result = result.filter((t) => t.key_path === groupFilter || t.key_path.startsWith(`${groupFilter}.`))
+    }
+
     if (search) {
       const q = search.toLowerCase()
-      result = result.filter((t) => matchesSearch(t, q))
+      result = result.filter((t) => matchesSearch(t, q, languages))
     }
 
     if (filterMode === 'issues') {
       result = result.filter((t) => issues.has(t.key_path))
+    } else if (filterMode === 'placeholders') {
+      result = result.filter((t) => valueIssues.has(t.key_path))
     } else if (filterMode === 'duplicates') {
       result = result.filter((t) => duplicateKeyPaths.has(t.key_path))
+    } else if (filterMode === 'review') {
+      result = result.filter((t) => matchesStatus(t, statusFilter, statusLanguages))
     }
 
     return result
-  }, [translations, search, filterMode, issues, duplicateKeyPaths])
+  }, [
+    translations,
+    groupFilter,
+    search,
+    filterMode,
+    issues,
+    valueIssues,
+    duplicateKeyPaths,
+    languages,
+    statusFilter,
+    statusLanguages,
+  ])
 
   // Reset page when search or filter changes
   useEffect(() => {
     setPage(0)
-  }, [search, filterMode])
+  }, [search, groupFilter, filterMode, statusFilter, statusLanguage])
 
   const totalPages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE))
   const paginatedRows = useMemo(() => {
@@ -179,14 +460,56 @@ export default function TableView({ translations, setTranslations, projectId, re
     return filtered.slice(start, start + PAGE_SIZE)
   }, [filtered, page])
 
+  // A renamed key takes its aliases along, as the database does
   function handleUpdate(updated: Translation) {
-    setTranslations((prev) =>
-      prev.map((t) => (t.id === updated.id ? updated : t)),
-    )
+    setTranslations((prev) => {
+      const previous = prev.find((t) => t.id === updated.id)
+      const next = prev.map((t) => (t.id === updated.id ? updated : t))
+      return previous && previous.key_path !== updated.key_path
+        ? retargetAliases(next, new Map([[previous.key_path, updated.key_path]]))
+        : next
+    })
+  }
+
+  const selectedRows = useMemo(() => {
+    return translations.filter((t) => selectedIds.has(t.id))
+  }, [translations, selectedIds])
+
+  const allFilteredSelected = filtered.length > 0 && filtered.every((t) => selectedIds.has(t.id))
+
+  function handleSelect(e: React.MouseEvent, id: string) {
+    const select = !selectedIds.has(id)
+    const next = new Set(selectedIds)
+    const from = selectionAnchor ? filtered.findIndex((t) => t.id === selectionAnchor) : -1
+    const to = filtered.findIndex((t) => t.id === id)
+
+    if (e.shiftKey && from !== -1 && to !== -1) {
+      for (const t of filtered.slice(Math.min(from, to), Math.max(from, to) + 1)) {
+        if (select) next.add(t.id)
+        else next.delete(t.id)
+      }
+    } else {
+      if (select) next.add(id)
+      else next.delete(id)
+      setSelectionAnchor(id)
+    }
+    setSelectedIds(next)
+  }
+
+  function toggleSelectAll() {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      for (const t of filtered) {
+        if (allFilteredSelected) next.delete(t.id)
+        else next.add(t.id)
+      }
+      return next
+    })
   }
 
   function handleRowContextMenu(e: React.MouseEvent, translationId: string) {
     e.preventDefault()
+    if (!canDeleteTokens(profile)) return
     setContextMenu({ x: e.clientX, y: e.clientY, translationId })
   }
 
@@ -228,7 +551,9 @@ export default function TableView({ translations, setTranslations, projectId, re
           {([
             ['all', 'All'],
             ['issues', `Issues (${issues.size})`],
+            ['placeholders', `Validation (${valueIssues.size})`],
             ['duplicates', `Duplicates (${activeDuplicates.length})`],
+            ['review', 'Review'],
           ] as const).map(([mode, label]) => (
             <button
               key={mode}
@@ -244,94 +569,293 @@ export default function TableView({ translations, setTranslations, projectId, re
           ))}
         </div>
 
+        {filterMode === 'review' && (
+          <div className="flex gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ValueStatus)}
+              className="px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white
+                         focus:outline-none focus:ring-1 focus:ring-accent"
+            >
+              {VALUE_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {STATUS_LABELS[status]} ({statusCounts[status]})
+                </option>
+              ))}
+            </select>
+            <select
+              value={statusLanguage}
+              onChange={(e) => setStatusLanguage(e.target.value)}
+              className="px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white
+                         focus:outline-none focus:ring-1 focus:ring-accent"
+            >
+              <option value="any">Any language</option>
+              {languages.map((lang) => (
+                <option key={lang} value={lang}>{languageLabel(lang)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {filterMode === 'duplicates' && (
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={showSimilar} onChange={(e) => setShowSimilar(e.target.checked)} />
+              Similar values
+            </label>
+            {showSimilar && (
+              <label className="flex items-center gap-2">
+                above
+                <input
+                  type="range"
+                  min={0.6}
+                  max={0.95}
+                  step={0.05}
+                  value={similarityThreshold}
+                  onChange={(e) => setSimilarityThreshold(Number(e.target.value))}
+                  className="w-24 accent-gray-900"
+                />
+                {Math.round(similarityThreshold * 100)}%
+              </label>
+            )}
+            {findingSimilar && <span className="text-gray-400">Finding similar values...</span>}
+          </div>
+        )}
+
+        {filterMode === 'issues' && issues.size > 0 && canEditKeys(profile) && (
+          <button
+            onClick={() => setShowKeyFixer(true)}
+            className="px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            Fix all
+          </button>
+        )}
+
+        {groupFilter && (
+          <button
+            onClick={() => setGroupFilter(null)}
+            className="px-2 py-1 text-xs bg-accent-light text-accent rounded-lg hover:opacity-80 transition-opacity"
+            title="Show all groups"
+          >
+            Group: {groupFilter} ×
+          </button>
+        )}
+
         <span className="text-xs text-gray-400 ml-auto">
           {filtered.length} of {translations.length} tokens
         </span>
+
+        {languages.some((lang) => canEditLanguage(profile, lang)) && (
+          <button
+            onClick={() => setShowFindReplace((v) => !v)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+              showFindReplace ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-700'
+            }`}
+          >
+            Find &amp; replace
+          </button>
+        )}
       </div>
 
-      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full" style={{ minWidth: 900 }}>
-            <thead>
-              <tr className="border-b border-gray-200 bg-gray-50">
-                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ maxWidth: 600 }}>
-                  Key Path
-                </th>
-                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ width: 220 }}>
-                  AZ
-                </th>
-                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ width: 220 }}>
-                  EN
-                </th>
-                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ width: 220 }}>
-                  RU
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {filterMode === 'duplicates' ? (
-                groupedDuplicates.map((group, gi) => (
-                  <React.Fragment key={`dup-group-${gi}`}>
-                    <tr className="bg-danger-light/50">
-                      <td colSpan={4} className="px-4 py-2 text-xs font-medium text-danger">
-                        <span className="inline-flex items-center gap-1.5 w-full">
-                          <span className="w-4 h-4 rounded-full bg-danger text-white text-[10px] flex items-center justify-center shrink-0">
-                            {group.rows.length}
-                          </span>
-                          Duplicate value in {group.label}
-                          <button
-                            onClick={() => {
-                              setIgnoredDuplicates((prev) => {
-                                const next = new Set(prev)
-                                next.add(`${group.group.language}::${group.group.value}`)
-                                return next
-                              })
-                            }}
-                            className="ml-auto text-gray-400 hover:text-gray-600 transition-colors"
-                          >
-                            Ignore
-                          </button>
-                        </span>
-                      </td>
-                    </tr>
-                    {group.rows.map((t) => (
-                      <TableRow
-                        key={t.id}
-                        translation={t}
-                        issue={issues.get(t.key_path) || null}
-                        isDuplicate={true}
-                        duplicateGroups={duplicateInfo.get(t.key_path) || null}
-                        onUpdate={handleUpdate}
-                        onContextMenu={(e) => handleRowContextMenu(e, t.id)}
-                        indented
-                      />
-                    ))}
-                  </React.Fragment>
-                ))
-              ) : (
-                paginatedRows.map((t) => (
-                  <TableRow
-                    key={t.id}
-                    translation={t}
-                    issue={issues.get(t.key_path) || null}
-                    isDuplicate={duplicateKeyPaths.has(t.key_path)}
-                    duplicateGroups={duplicateInfo.get(t.key_path) || null}
-                    onUpdate={handleUpdate}
-                    onContextMenu={(e) => handleRowContextMenu(e, t.id)}
-                  />
-                ))
-              )}
-            </tbody>
-          </table>
+      {selectedRows.length > 0 && (
+        <BulkActions
+          project={project}
+          profile={profile}
+          translations={translations}
+          selected={selectedRows}
+          issues={issues}
+          setTranslations={setTranslations}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
+
+      {(waitingCount > 0 || conflicts.length > 0) && (
+        <div className="rounded-xl border border-gray-200 px-4 py-2 flex items-center gap-3 text-xs text-gray-600">
+          {waitingCount > 0 && (
+            <span className="flex items-center gap-1.5">
+              <span className={`w-1.5 h-1.5 rounded-full ${offline ? 'bg-warning' : 'bg-accent animate-pulse'}`} />
+              {offline
+                ? `Offline: ${waitingCount} edits are kept in this browser and saved once the connection is back`
+                : `Saving ${waitingCount} edits...`}
+            </span>
+          )}
+          {conflicts.length > 0 && (
+            <button onClick={() => setShowConflicts(true)} className="ml-auto text-amber-700 underline hover:text-amber-900">
+              {conflicts.length} edits conflict with changes by someone else
+            </button>
+          )}
+        </div>
+      )}
+
+      {showConflicts && conflicts.length > 0 && (
+        <ConflictDialog
+          conflicts={conflicts}
+          onKeepMine={keepMine}
+          onUseTheirs={(edit) => dropQueuedEdit(edit, edit.theirs)}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+
+      {mergeReport && (
+        <div className="rounded-xl border border-gray-200 p-4 flex items-start gap-3">
+          <p className="flex-1 text-xs text-gray-600 whitespace-pre-line">{mergeReport}</p>
+          <button onClick={() => setMergeReport(null)} className="text-xs text-gray-400 hover:text-gray-600 transition-colors">
+            Close
+          </button>
         </div>
+      )}
+
+      {showKeyFixer && (
+        <KeyFixer
+          project={project}
+          translations={translations}
+          setTranslations={setTranslations}
+          onClose={() => setShowKeyFixer(false)}
+        />
+      )}
 
-        {filtered.length === 0 && (
-          <div className="py-12 text-center text-gray-400 text-sm">
-            {translations.length === 0
-              ? 'No translations yet. Upload JSON files to get started.'
-              : 'No results match your search.'}
+      {showFindReplace && (
+        <FindReplace
+          project={project}
+          profile={profile}
+          translations={translations}
+          visible={filtered}
+          setTranslations={setTranslations}
+          onClose={() => setShowFindReplace(false)}
+        />
+      )}
+
+      <div className="flex gap-4 items-start">
+        <KeyTree
+          project={project}
+          profile={profile}
+          translations={translations}
+          setTranslations={setTranslations}
+          selected={groupFilter}
+          onSelect={setGroupFilter}
+        />
+
+        <div className="flex-1 min-w-0 bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full" style={{ minWidth: Math.max(900, 240 + languages.length * 220) }}>
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ maxWidth: 600 }}>
+                    <span className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={allFilteredSelected}
+                        onChange={toggleSelectAll}
+                        title={allFilteredSelected ? 'Deselect all' : `Select all ${filtered.length} matching rows`}
+                      />
+                      Key Path
+                    </span>
+                  </th>
+                  {languages.map((lang) => (
+                    <th key={lang} className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ width: 220 }}>
+                      {languageLabel(lang)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {filterMode === 'duplicates' ? (
+                  groupedDuplicates.map((group, gi) => (
+                    <React.Fragment key={`dup-group-${gi}`}>
+                      <tr className="bg-danger-light/50">
+                        <td colSpan={languages.length + 1} className="px-4 py-2 text-xs font-medium text-danger">
+                          <span className="inline-flex items-center gap-1.5 w-full">
+                            <span className="w-4 h-4 rounded-full bg-danger text-white text-[10px] flex items-center justify-center shrink-0">
+                              {group.rows.length}
+                            </span>
+                            {group.label}
+                            {canDeleteTokens(profile) && (
+                              <span className="ml-auto">
+                                <DuplicateMerge
+                                  project={project}
+                                  rows={group.rows}
+                                  translations={translations}
+                                  setTranslations={setTranslations}
+                                  onMerged={setMergeReport}
+                                />
+                              </span>
+                            )}
+                            <button
+                              onClick={() => {
+                                setIgnoredDuplicates((prev) => {
+                                  const next = new Set(prev)
+                                  next.add(duplicateGroupId(group.group))
+                                  return next
+                                })
+                              }}
+                              className={`${canDeleteTokens(profile) ? '' : 'ml-auto '}text-gray-400 hover:text-gray-600 transition-colors`}
+                            >
+                              Ignore
+                            </button>
+                          </span>
+                        </td>
+                      </tr>
+                      {group.rows.map((t) => (
+                        <TableRow
+                          key={t.id}
+                          translation={t}
+                          languages={languages}
+                          profile={profile}
+                          issue={issues.get(t.key_path) || null}
+                          valueIssues={valueIssues.get(t.key_path) || null}
+                          byPath={byPath}
+                          isDuplicate={true}
+                          duplicateGroups={duplicateInfo.get(t.key_path) || null}
+                          queuedEdits={queueByRow.get(t.id) ?? NO_EDITS}
+                          onUpdate={handleUpdate}
+                          onQueueEdit={queueCellEdit}
+                          onRetryEdit={retryQueuedEdit}
+                          onDiscardEdit={(edit) => dropQueuedEdit(edit, edit.from)}
+                          onResolveConflicts={() => setShowConflicts(true)}
+                          onContextMenu={(e) => handleRowContextMenu(e, t.id)}
+                          selected={selectedIds.has(t.id)}
+                          onSelect={(e) => handleSelect(e, t.id)}
+                          indented
+                        />
+                      ))}
+                    </React.Fragment>
+                  ))
+                ) : (
+                  paginatedRows.map((t) => (
+                    <TableRow
+                      key={t.id}
+                      translation={t}
+                      languages={languages}
+                      profile={profile}
+                      issue={issues.get(t.key_path) || null}
+                      valueIssues={valueIssues.get(t.key_path) || null}
+                      byPath={byPath}
+                      isDuplicate={duplicateKeyPaths.has(t.key_path)}
+                      duplicateGroups={duplicateInfo.get(t.key_path) || null}
+                      queuedEdits={queueByRow.get(t.id) ?? NO_EDITS}
+                      onUpdate={handleUpdate}
+                      onQueueEdit={queueCellEdit}
+                      onRetryEdit={retryQueuedEdit}
+                      onDiscardEdit={(edit) => dropQueuedEdit(edit, edit.from)}
+                      onResolveConflicts={() => setShowConflicts(true)}
+                      onContextMenu={(e) => handleRowContextMenu(e, t.id)}
+                      selected={selectedIds.has(t.id)}
+                      onSelect={(e) => handleSelect(e, t.id)}
+                    />
+                  ))
+                )}
+              </tbody>
+            </table>
           </div>
-        )}
+
+          {filtered.length === 0 && (
+            <div className="py-12 text-center text-gray-400 text-sm">
+              {translations.length === 0
+                ? 'No translations yet. Upload JSON files to get started.'
+                : 'No results match your search.'}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Pagination */}
@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react'
+import type { Translation, HistoryEntry, HistoryField, ImportRecord, Variants } from '../types'
+import { supabase } from '../supabaseClient'
+import { historyFieldLabel, SOURCE_LABELS } from '../utils/history'
+
+const HISTORY_LIMIT = 100
+
+type HistoryRow = HistoryEntry & { imports: Pick<ImportRecord, 'file_names'> | null }
+
+interface TokenHistoryProps {
+  translation: Translation
+  canRevert: (entry: HistoryEntry) => boolean
+  onRevert: (entry: HistoryEntry) => Promise<void>
+  onClose: () => void
+  reverting: boolean
+}
+
+function formatValue(value: string | null, field: HistoryField) {
+  if (value == null || value === '') return <span className="text-gray-300 italic">empty</span>
+  if (field === 'variants') {
+    return Object.entries(JSON.parse(value) as Variants)
+      .map(([category, text]) => `${category}: ${text}`)
+      .join(' · ')
+  }
+  return value
+}
+
+export default function TokenHistory({ translation, canRevert, onRevert, onClose, reverting }: TokenHistoryProps) {
+  const [entries, setEntries] = useState<HistoryRow[] | null>(null)
+
+  // Refetch whenever the row changes so reverts and realtime updates show up
+  useEffect(() => {
+    let cancelled = false
+
+    async function fetchHistory() {
+      const { data } = await supabase
+        .from('translation_history')
+        .select('*, imports(file_names)')
+        .eq('translation_id', translation.id)
+        .order('changed_at', { ascending: false })
+        .limit(HISTORY_LIMIT)
+
+      if (!cancelled) setEntries((data as HistoryRow[]) || [])
+    }
+
+    fetchHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [translation])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">Edit history</h4>
+        <button
+          onClick={onClose}
+          className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {entries === null ? (
+        <p className="text-xs text-gray-400">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-gray-400">No recorded changes yet.</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-start gap-3 text-xs bg-white rounded-lg px-3 py-2 border border-gray-100">
+              <div className="w-40 shrink-0 text-gray-400">
+                <div>{new Date(entry.changed_at).toLocaleString()}</div>
+                <div>
+                  {SOURCE_LABELS[entry.source]}
+                  {entry.changed_by && <> · {entry.changed_by}</>}
+                </div>
+                {entry.imports && (
+                  <div className="truncate" title={entry.imports.file_names.join(', ')}>
+                    {entry.imports.file_names.join(', ')}
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <div className="font-medium text-gray-600">{historyFieldLabel(entry.field, entry.language)}</div>
+                <div className="break-words">
+                  <span className="text-red-700 line-through">{formatValue(entry.old_value, entry.field)}</span>
+                  <span className="text-gray-300 mx-1.5">→</span>
+                  <span className="text-green-800">{formatValue(entry.new_value, entry.field)}</span>
+                </div>
+              </div>
+              <button
+                onClick={() => onRevert(entry)}
+                disabled={reverting || !canRevert(entry) || (entry.field === 'key_path' && !entry.old_value)}
+                className="shrink-0 px-2.5 py-1 text-gray-500 rounded-lg hover:bg-gray-100 hover:text-gray-700
+                           transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Revert
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
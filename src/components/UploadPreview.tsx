@@ -0,0 +1,214 @@
+import { useState, useMemo } from 'react'
+import type { UploadDiff, KeyDiff, DiffCategory } from '../utils/uploadDiff'
+import { diffCategories, categoryLabel, changeId, keyChangeIds } from '../utils/uploadDiff'
+import { getLangValue, languageLabel } from '../utils/languages'
+
+const PREVIEW_LIMIT = 300
+
+interface UploadPreviewProps {
+  diff: UploadDiff
+  languages: string[]
+  accepted: Set<string>
+  onAcceptedChange: (accepted: Set<string>) => void
+  allowRemovals: boolean
+  onApply: () => void
+  onCancel: () => void
+  applying: boolean
+}
+
+function categoryIds(keys: KeyDiff[], category: DiffCategory): string[] {
+  const ids: string[] = []
+  for (const key of keys) {
+    if (key.kind === category) {
+      ids.push(changeId(key.keyPath, category))
+    } else if (key.kind === 'changed' && key.changes.some((c) => c.category === category)) {
+      ids.push(changeId(key.keyPath, category))
+    }
+  }
+  return ids
+}
+
+function formatValue(value: string | null) {
+  if (value == null || value === '') return <span className="text-gray-300 italic">empty</span>
+  return value
+}
+
+export default function UploadPreview({
+  diff,
+  languages,
+  accepted,
+  onAcceptedChange,
+  allowRemovals,
+  onApply,
+  onCancel,
+  applying,
+}: UploadPreviewProps) {
+  const [activeCategory, setActiveCategory] = useState<DiffCategory | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  const categories = useMemo(() => {
+    return diffCategories(languages)
+      .map((category) => ({ category, ids: categoryIds(diff.keys, category) }))
+      .filter((c) => c.ids.length > 0)
+  }, [diff, languages])
+
+  const visibleKeys = useMemo(() => {
+    if (!activeCategory) return diff.keys
+    return diff.keys.filter((k) =>
+      k.kind === activeCategory || k.changes.some((c) => c.category === activeCategory),
+    )
+  }, [diff, activeCategory])
+
+  const acceptedCount = useMemo(() => {
+    let count = 0
+    for (const key of diff.keys) {
+      for (const id of keyChangeIds(key)) if (accepted.has(id)) count++
+    }
+    return count
+  }, [diff, accepted])
+
+  function setMany(ids: string[], value: boolean) {
+    const next = new Set(accepted)
+    for (const id of ids) {
+      if (value) next.add(id)
+      else next.delete(id)
+    }
+    onAcceptedChange(next)
+  }
+
+  function renderCheckbox(ids: string[], disabled = false) {
+    const checkedCount = ids.filter((id) => accepted.has(id)).length
+    return (
+      <input
+        type="checkbox"
+        disabled={disabled}
+        checked={checkedCount === ids.length}
+        ref={(el) => {
+          if (el) el.indeterminate = checkedCount > 0 && checkedCount < ids.length
+        }}
+        onChange={(e) => setMany(ids, e.target.checked)}
+        className="accent-gray-900 cursor-pointer disabled:cursor-not-allowed"
+      />
+    )
+  }
+
+  function renderKey(key: KeyDiff) {
+    const badge = {
+      added: 'bg-success-light text-green-800',
+      removed: 'bg-danger-light text-red-800',
+      changed: 'bg-warning-light text-amber-800',
+    }[key.kind]
+
+    return (
+      <div key={key.keyPath} className="px-4 py-3 border-b border-gray-100 space-y-1.5">
+        <div className="flex items-center gap-2 text-sm">
+          {renderCheckbox(keyChangeIds(key), key.kind === 'removed' && !allowRemovals)}
+          <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium uppercase ${badge}`}>{key.kind}</span>
+          <span className="font-mono text-xs text-gray-700 truncate" title={key.keyPath}>{key.keyPath}</span>
+        </div>
+
+        {key.kind === 'added' && key.incoming && (
+          <div className="pl-6 space-y-0.5 text-xs text-gray-600">
+            {languages.filter((lang) => lang in key.incoming!.lang_values).map((lang) => (
+              <div key={lang}>
+                <span className="font-medium text-gray-400 mr-2">{languageLabel(lang)}</span>
+                {formatValue(getLangValue(key.incoming!.lang_values, lang))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {key.kind === 'removed' && key.current && (
+          <div className="pl-6 space-y-0.5 text-xs text-gray-400 line-through">
+            {languages.filter((lang) => getLangValue(key.current!.lang_values, lang)).map((lang) => (
+              <div key={lang}>
+                <span className="font-medium mr-2">{languageLabel(lang)}</span>
+                {getLangValue(key.current!.lang_values, lang)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {key.kind === 'changed' && (
+          <div className="pl-6 space-y-1 text-xs">
+            {key.changes.map((c) => (
+              <label key={c.category} className="flex items-start gap-2 cursor-pointer">
+                {renderCheckbox([changeId(key.keyPath, c.category)])}
+                <span className="w-28 shrink-0 font-medium text-gray-400">{categoryLabel(c.category)}</span>
+                <span className="text-red-700 line-through break-words">{formatValue(c.before)}</span>
+                <span className="text-gray-300">→</span>
+                <span className="text-green-800 break-words">{formatValue(c.after)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const shownKeys = showAll ? visibleKeys : visibleKeys.slice(0, PREVIEW_LIMIT)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-display font-bold text-gray-900">Review changes</h3>
+        <span className="text-xs text-gray-400">{diff.unchangedCount} unchanged keys</span>
+      </div>
+
+      {diff.keys.length === 0 ? (
+        <p className="text-sm text-gray-500">The uploaded files match the current translations.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {categories.map(({ category, ids }) => (
+              <div
+                key={category}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs transition-colors ${
+                  activeCategory === category ? 'border-gray-900 bg-gray-50' : 'border-gray-200'
+                }`}
+              >
+                {renderCheckbox(ids, category === 'removed' && !allowRemovals)}
+                <button
+                  onClick={() => setActiveCategory(activeCategory === category ? null : category)}
+                  className="font-medium text-gray-700"
+                >
+                  {categoryLabel(category)} ({ids.length})
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-gray-200 overflow-hidden max-h-[520px] overflow-y-auto">
+            {shownKeys.map(renderKey)}
+            {!showAll && visibleKeys.length > PREVIEW_LIMIT && (
+              <button
+                onClick={() => setShowAll(true)}
+                className="w-full py-3 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Show all {visibleKeys.length} keys
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onApply}
+          disabled={applying}
+          className="px-6 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-xl
+                     hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {applying ? 'Applying...' : `Apply ${acceptedCount} changes`}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={applying}
+          className="px-4 py-2.5 text-gray-500 text-sm hover:text-gray-700 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,112 +1,227 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
+import type { Project, Profile, Translation } from '../types'
 import { supabase } from '../supabaseClient'
-import { flattenJsons } from '../utils/jsonFlattener'
+import type { GroupExt } from '../utils/jsonFlattener'
+import {
+  detectImportFormat,
+  parseImportFile,
+  resolveImportedKeys,
+  IMPORT_FORMAT_LABELS,
+  SINGLE_LANGUAGE_ACCEPT,
+  MULTI_LANGUAGE_ACCEPT,
+} from '../utils/importers'
+import type { ParsedImport, ImportReport } from '../utils/importers'
+import { languageName } from '../utils/languages'
+import { computeUploadDiff, acceptedForStrategy, buildUploadPlan, MERGE_STRATEGIES } from '../utils/uploadDiff'
+import type { UploadDiff, MergeStrategy } from '../utils/uploadDiff'
+import { recordHistory } from '../utils/history'
+import { canDeleteTokens } from '../utils/permissions'
+import { TOKEN_PROBLEM_LABELS, validateTokenFiles } from '../utils/tokenValidator'
+import type { TokenFile, TokenProblem } from '../utils/tokenValidator'
+import UploadPreview from './UploadPreview'
+
+const DELETE_BATCH_SIZE = 200
+// Drop zone for files that carry their own language codes (XLIFF with both languages, CSV)
+const MULTI_SLOT = '*'
+const REPORT_LIMIT = 20
 
 interface UploadViewProps {
-  projectId: string
+  project: Project
+  profile: Profile
   onUploadComplete: () => void
 }
 
-type LangKey = 'az' | 'en' | 'ru'
-
-const LANG_LABELS: Record<LangKey, string> = {
-  az: 'Azerbaijani',
-  en: 'English',
-  ru: 'Russian',
-}
-
-export default function UploadView({ projectId, onUploadComplete }: UploadViewProps) {
-  const [files, setFiles] = useState<Record<LangKey, Record<string, unknown> | null>>({
-    az: null,
-    en: null,
-    ru: null,
-  })
-  const [fileNames, setFileNames] = useState<Record<LangKey, string>>({
-    az: '',
-    en: '',
-    ru: '',
-  })
+export default function UploadView({ project, profile, onUploadComplete }: UploadViewProps) {
+  const projectId = project.id
+  const allowRemovals = canDeleteTokens(profile)
+  const [files, setFiles] = useState<Record<string, ParsedImport>>({})
+  const [fileNames, setFileNames] = useState<Record<string, string>>({})
   const [uploading, setUploading] = useState(false)
   const [status, setStatus] = useState<string | null>(null)
+  const [review, setReview] = useState<{
+    diff: UploadDiff
+    groupExtensions: GroupExt[]
+    report: ImportReport
+  } | null>(null)
+  const [accepted, setAccepted] = useState<Set<string>>(new Set())
+  const [strategy, setStrategy] = useState<MergeStrategy>('file_wins')
+  const [ignoreProblems, setIgnoreProblems] = useState(false)
 
-  const handleFile = useCallback((lang: LangKey, file: File) => {
+  const handleFile = useCallback((slot: string, file: File) => {
     const reader = new FileReader()
     reader.onload = (e) => {
       try {
-        const json = JSON.parse(e.target?.result as string)
-        setFiles((prev) => ({ ...prev, [lang]: json }))
-        setFileNames((prev) => ({ ...prev, [lang]: file.name }))
+        const parsed = parseImportFile(
+          file.name,
+          e.target?.result as string | ArrayBuffer,
+          slot === MULTI_SLOT ? null : slot,
+          project,
+        )
+        setFiles((prev) => ({ ...prev, [slot]: parsed }))
+        setFileNames((prev) => ({ ...prev, [slot]: file.name }))
         setStatus(null)
-      } catch {
-        setStatus(`Invalid JSON in ${file.name}`)
+        setReview(null)
+        setIgnoreProblems(false)
+      } catch (err) {
+        setStatus(`Invalid file: ${err instanceof Error ? err.message : file.name}`)
       }
     }
-    reader.readAsText(file)
-  }, [])
+    if (detectImportFormat(file.name) === 'xlsx') reader.readAsArrayBuffer(file)
+    else reader.readAsText(file)
+  }, [project])
 
   const handleDrop = useCallback(
-    (lang: LangKey) => (e: React.DragEvent) => {
+    (slot: string) => (e: React.DragEvent) => {
       e.preventDefault()
       const file = e.dataTransfer.files[0]
-      if (file) handleFile(lang, file)
+      if (file) handleFile(slot, file)
     },
     [handleFile],
   )
 
   const handleFileInput = useCallback(
-    (lang: LangKey) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    (slot: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0]
-      if (file) handleFile(lang, file)
+      if (file) handleFile(slot, file)
     },
     [handleFile],
   )
 
-  const hasAnyFile = files.az || files.en || files.ru
+  const slots = [...project.languages, MULTI_SLOT]
+  const hasAnyFile = slots.some((slot) => files[slot])
+
+  // Structural problems in the dropped Figma JSON files, grouped by file
+  const problemsByFile = useMemo(() => {
+    const tokenFiles = Object.values(files).flatMap((f): TokenFile[] => (f.tokens ? [f.tokens] : []))
+    const grouped = new Map<string, TokenProblem[]>()
+    for (const problem of validateTokenFiles(tokenFiles)) {
+      grouped.set(problem.fileName, [...(grouped.get(problem.fileName) ?? []), problem])
+    }
+    return grouped
+  }, [files])
+  const blockedByProblems = problemsByFile.size > 0 && !ignoreProblems
+
+  async function fetchCurrentTranslations(): Promise<Translation[]> {
+    const all: Translation[] = []
+    const FETCH_SIZE = 1000
+    let from = 0
 
-  async function handleUpload() {
+    while (true) {
+      const { data, error } = await supabase
+        .from('translations')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('key_path')
+        .range(from, from + FETCH_SIZE - 1)
+
+      if (error) throw error
+      if (!data) break
+      all.push(...data)
+      if (data.length < FETCH_SIZE) break
+      from += FETCH_SIZE
+    }
+
+    return all
+  }
+
+  async function handleReview() {
     setUploading(true)
-    setStatus('Flattening JSON files...')
+    setStatus('Comparing with current translations...')
 
     try {
-      const result = flattenJsons(files.az, files.en, files.ru)
+      const current = await fetchCurrentTranslations()
+      const result = resolveImportedKeys(
+        slots.filter((slot) => files[slot]).map((slot) => files[slot]),
+        current,
+        project.source_language,
+      )
       const rows = result.rows.filter((r) => r.key_path && r.key_path.trim() !== '')
-      const groupExtensions = result.groupExtensions
 
       if (rows.length === 0) {
         setStatus('No translation tokens found in the uploaded files.')
-        setUploading(false)
         return
       }
 
-      setStatus(`Uploading ${rows.length} tokens...`)
+      const diff = computeUploadDiff(rows, current, project.languages)
 
-      // Upsert translations
-      const { error: transError } = await supabase
-        .from('translations')
-        .upsert(
-          rows.map((r) => ({
-            project_id: projectId,
-            key_path: r.key_path,
-            az_value: r.az_value,
-            en_value: r.en_value,
-            ru_value: r.ru_value,
-            token_type: r.token_type,
-            figma_variable_id: r.figma_variable_id,
-          })),
-          { onConflict: 'project_id,key_path' },
-        )
+      setReview({ diff, groupExtensions: result.groupExtensions, report: result.report })
+      setAccepted(acceptedForStrategy(diff, strategy))
+      setStatus(null)
+    } catch (err) {
+      setStatus(`Upload failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  function selectStrategy(next: MergeStrategy) {
+    setStrategy(next)
+    if (review) setAccepted(acceptedForStrategy(review.diff, next))
+  }
+
+  async function handleApply() {
+    if (!review) return
+
+    const plan = buildUploadPlan(review.diff, accepted, projectId)
+    if (
+      plan.deleteIds.length > 0 &&
+      !confirm(`This will permanently delete ${plan.deleteIds.length} keys that are not in the uploaded files. Continue?`)
+    ) {
+      return
+    }
+
+    setUploading(true)
+
+    try {
+
+      const { data: importRecord, error: importError } = await supabase
+        .from('imports')
+        .insert({
+          project_id: projectId,
+          file_names: slots.filter((slot) => fileNames[slot]).map((slot) => fileNames[slot]),
+          strategy,
+        })
+        .select()
+        .single()
+
+      if (importError) throw importError
 
-      if (transError) throw transError
+      let ids = new Map<string, string>()
+      if (plan.upserts.length > 0) {
+        setStatus(`Uploading ${plan.upserts.length} tokens...`)
+        const { data: upserted, error: transError } = await supabase
+          .from('translations')
+          .upsert(plan.upserts, { onConflict: 'project_id,key_path' })
+          .select('id, key_path')
+
+        if (transError) throw transError
+
+        ids = new Map((upserted || []).map((t) => [t.key_path, t.id]))
+      }
+
+      if (plan.deleteIds.length > 0) {
+        setStatus(`Removing ${plan.deleteIds.length} tokens...`)
+        for (let i = 0; i < plan.deleteIds.length; i += DELETE_BATCH_SIZE) {
+          const { error: delError } = await supabase
+            .from('translations')
+            .delete()
+            .in('id', plan.deleteIds.slice(i, i + DELETE_BATCH_SIZE))
+
+          if (delError) throw delError
+        }
+      }
 
       // Upsert group extensions
-      if (groupExtensions.length > 0) {
+      if (review.groupExtensions.length > 0) {
         const { error: geError } = await supabase
           .from('group_extensions')
           .upsert(
-            groupExtensions.map((ge) => ({
+            review.groupExtensions.map((ge) => ({
               project_id: projectId,
               group_path: ge.group_path,
               extensions: ge.extensions,
+              description: ge.description,
+              token_type: ge.token_type,
             })),
             { onConflict: 'project_id,group_path' },
           )
@@ -114,9 +229,23 @@ export default function UploadView({ projectId, onUploadComplete }: UploadViewPr
         if (geError) throw geError
       }
 
-      setStatus(`Successfully uploaded ${rows.length} tokens.`)
-      setFiles({ az: null, en: null, ru: null })
-      setFileNames({ az: '', en: '', ru: '' })
+      // The upload is applied by now; a missing history entry should not report it as failed
+      let historyNote = ''
+      try {
+        await recordHistory(
+          projectId,
+          plan.history.map((h) => ({ ...h, translation_id: ids.get(h.key_path) ?? null })),
+          'upload',
+          importRecord.id,
+        )
+      } catch {
+        historyNote = ' The changes could not be added to the edit history.'
+      }
+
+      setStatus(`Successfully uploaded ${plan.upserts.length} tokens and removed ${plan.deleteIds.length}.${historyNote}`)
+      setFiles({})
+      setFileNames({})
+      setReview(null)
       onUploadComplete()
     } catch (err) {
       setStatus(`Upload failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -130,12 +259,13 @@ export default function UploadView({ projectId, onUploadComplete }: UploadViewPr
       <div>
         <h2 className="font-display text-xl font-bold text-gray-900">Upload</h2>
         <p className="text-gray-500 text-sm mt-1">
-          Drop your Figma JSON exports here. You can upload one, two, or all three languages.
+          Drop Figma JSON exports or translated files (XLIFF, PO, Android strings.xml, iOS .strings) on their
+          language, or a multi-language XLIFF or CSV file below. You can upload any subset of the project's languages.
         </p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {(Object.keys(LANG_LABELS) as LangKey[]).map((lang) => (
+        {project.languages.map((lang) => (
           <div
             key={lang}
             onDrop={handleDrop(lang)}
@@ -148,25 +278,84 @@ export default function UploadView({ projectId, onUploadComplete }: UploadViewPr
           >
             <input
               type="file"
-              accept=".json"
+              accept={SINGLE_LANGUAGE_ACCEPT}
               onChange={handleFileInput(lang)}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             />
             <div className="space-y-2">
               <div className="text-2xl">{files[lang] ? '✓' : '↑'}</div>
               <p className="font-medium text-sm text-gray-700">
-                {LANG_LABELS[lang]}
+                {languageName(lang)}
+                {lang === project.source_language && (
+                  <span className="ml-1.5 text-[10px] font-medium text-gray-400 uppercase">source</span>
+                )}
               </p>
               {fileNames[lang] ? (
-                <p className="text-xs text-gray-500 truncate">{fileNames[lang]}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {fileNames[lang]} · {IMPORT_FORMAT_LABELS[files[lang].format]}
+                </p>
               ) : (
-                <p className="text-xs text-gray-400">Drop JSON or click to browse</p>
+                <p className="text-xs text-gray-400">Drop a file or click to browse</p>
               )}
             </div>
           </div>
         ))}
       </div>
 
+      <div
+        onDrop={handleDrop(MULTI_SLOT)}
+        onDragOver={(e) => e.preventDefault()}
+        className={`relative rounded-xl border-2 border-dashed px-6 py-4 text-center transition-colors cursor-pointer
+          ${files[MULTI_SLOT]
+            ? 'border-success bg-success-light'
+            : 'border-gray-200 hover:border-gray-400 bg-gray-50'
+          }`}
+      >
+        <input
+          type="file"
+          accept={MULTI_LANGUAGE_ACCEPT}
+          onChange={handleFileInput(MULTI_SLOT)}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        />
+        <p className="font-medium text-sm text-gray-700">Multiple languages</p>
+        {fileNames[MULTI_SLOT] ? (
+          <p className="text-xs text-gray-500 truncate">
+            {fileNames[MULTI_SLOT]} · {IMPORT_FORMAT_LABELS[files[MULTI_SLOT].format]}
+          </p>
+        ) : (
+          <p className="text-xs text-gray-400">
+            XLIFF with source and target, or a CSV/Excel sheet with a key_path column and one column per language code
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">Merge strategy</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {MERGE_STRATEGIES.filter((s) => allowRemovals || s.key !== 'mirror').map((s) => (
+            <label
+              key={s.key}
+              className={`flex items-start gap-3 rounded-xl border p-3 cursor-pointer transition-colors ${
+                strategy === s.key ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:border-gray-400'
+              }`}
+            >
+              <input
+                type="radio"
+                name="merge-strategy"
+                checked={strategy === s.key}
+                onChange={() => selectStrategy(s.key)}
+                disabled={uploading}
+                className="mt-0.5 accent-gray-900"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{s.label}</span>
+                <span className="block text-xs text-gray-500">{s.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
       {status && (
         <div className={`text-sm px-4 py-3 rounded-xl ${
           status.startsWith('Successfully')
@@ -179,14 +368,90 @@ export default function UploadView({ projectId, onUploadComplete }: UploadViewPr
         </div>
       )}
 
-      <button
-        onClick={handleUpload}
-        disabled={!hasAnyFile || uploading}
-        className="px-6 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-xl
-                   hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-      >
-        {uploading ? 'Uploading...' : 'Upload & Merge'}
-      </button>
+      {!review && problemsByFile.size > 0 && (
+        <div className="text-sm px-4 py-3 rounded-xl bg-warning-light text-amber-800 space-y-3">
+          <p className="font-medium">
+            The uploaded JSON has structural problems. Values may be skipped, merged or stored as text.
+          </p>
+          {Array.from(problemsByFile, ([fileName, problems]) => (
+            <div key={fileName}>
+              <p className="font-medium text-xs">{fileName} ({problems.length})</p>
+              <ul className="text-xs space-y-0.5">
+                {problems.slice(0, REPORT_LIMIT).map((p, i) => (
+                  <li key={i} className="break-words">
+                    <span className="font-mono">{p.path}</span> · {TOKEN_PROBLEM_LABELS[p.kind]}: {p.message}
+                  </li>
+                ))}
+                {problems.length > REPORT_LIMIT && <li>and {problems.length - REPORT_LIMIT} more</li>}
+              </ul>
+            </div>
+          ))}
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={ignoreProblems}
+              onChange={(e) => setIgnoreProblems(e.target.checked)}
+              className="accent-gray-900"
+            />
+            Continue anyway
+          </label>
+        </div>
+      )}
+
+      {review && (review.report.missing.length > 0 || review.report.sourceChanged.length > 0) && (
+        <div className="text-sm px-4 py-3 rounded-xl bg-warning-light text-amber-800 space-y-2">
+          {review.report.missing.length > 0 && (
+            <div>
+              <p className="font-medium">
+                {review.report.missing.length} rows no longer exist and were skipped:
+              </p>
+              <p className="text-xs font-mono break-words">
+                {review.report.missing.slice(0, REPORT_LIMIT).join(', ')}
+                {review.report.missing.length > REPORT_LIMIT && ` and ${review.report.missing.length - REPORT_LIMIT} more`}
+              </p>
+            </div>
+          )}
+          {review.report.sourceChanged.length > 0 && (
+            <div>
+              <p className="font-medium">
+                Source text changed since export for {review.report.sourceChanged.length} keys; check these translations:
+              </p>
+              <ul className="text-xs space-y-0.5">
+                {review.report.sourceChanged.slice(0, REPORT_LIMIT).map((c) => (
+                  <li key={c.keyPath} className="break-words">
+                    <span className="font-mono">{c.keyPath}</span>: "{c.exported}" → "{c.current ?? ''}"
+                  </li>
+                ))}
+                {review.report.sourceChanged.length > REPORT_LIMIT && (
+                  <li>and {review.report.sourceChanged.length - REPORT_LIMIT} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {review ? (
+        <UploadPreview
+          diff={review.diff}
+          languages={project.languages}
+          accepted={accepted}
+          onAcceptedChange={setAccepted}
+          allowRemovals={allowRemovals}
+          onApply={handleApply}
+          onCancel={() => setReview(null)}
+          applying={uploading}
+        />
+      ) : (
+        <button
+          onClick={handleReview}
+          disabled={!hasAnyFile || uploading || blockedByProblems}
+          className="px-6 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-xl
+                     hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {uploading ? 'Comparing...' : 'Review changes'}
+        </button>
+      )}
     </div>
   )
 }
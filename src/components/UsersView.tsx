@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react'
+import type { Profile, Role } from '../types'
+import { supabase } from '../supabaseClient'
+import { ROLE_LABELS, roleLabel } from '../utils/permissions'
+import { languageLabel } from '../utils/languages'
+
+interface UsersViewProps {
+  currentProfile: Profile
+  languages: string[]
+}
+
+export default function UsersView({ currentProfile, languages }: UsersViewProps) {
+  const [profiles, setProfiles] = useState<Profile[] | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    supabase
+      .from('profiles')
+      .select('*')
+      .order('email')
+      .then(({ data }) => {
+        if (!cancelled) setProfiles((data as Profile[]) || [])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  async function updateProfile(id: string, patch: Partial<Pick<Profile, 'role' | 'languages'>>) {
+    setStatus(null)
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(patch)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error || !data) {
+      setStatus(`Update failed: ${error?.message ?? 'Unknown error'}`)
+      return
+    }
+    setProfiles((prev) => prev?.map((p) => (p.id === id ? data : p)) ?? null)
+  }
+
+  function toggleLanguage(profile: Profile, lang: string) {
+    const next = profile.languages.includes(lang)
+      ? profile.languages.filter((l) => l !== lang)
+      : [...profile.languages, lang]
+    updateProfile(profile.id, { languages: next })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-xl font-bold text-gray-900">Users</h2>
+        <p className="text-gray-500 text-sm mt-1">
+          Invite people from the Supabase dashboard (Authentication › Users); they appear here without access until you give them a role.
+        </p>
+      </div>
+
+      {status && (
+        <div className="text-sm px-4 py-3 rounded-xl bg-danger-light text-red-800">{status}</div>
+      )}
+
+      {profiles === null ? (
+        <p className="text-sm text-gray-400">Loading users...</p>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{ width: 180 }}>Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Translator languages</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profiles.map((p) => (
+                <tr key={p.id} className="border-b border-gray-100">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="text-gray-900">{p.display_name || p.email}</div>
+                    {p.display_name && <div className="text-xs text-gray-400">{p.email}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={p.role ?? ''}
+                      onChange={(e) => updateProfile(p.id, { role: (e.target.value || null) as Role | null })}
+                      disabled={p.id === currentProfile.id}
+                      title={p.id === currentProfile.id ? 'You cannot change your own role' : undefined}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg bg-white
+                                 focus:outline-none focus:ring-1 focus:ring-accent disabled:opacity-50"
+                    >
+                      <option value="">{roleLabel(null)}</option>
+                      {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    {p.role === 'translator' ? (
+                      <div className="flex flex-wrap gap-1">
+                        {languages.map((lang) => (
+                          <button
+                            key={lang}
+                            onClick={() => toggleLanguage(p, lang)}
+                            className={`px-2 py-1 text-xs font-medium rounded-lg transition-colors ${
+                              p.languages.includes(lang)
+                                ? 'bg-gray-900 text-white'
+                                : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                            }`}
+                          >
+                            {languageLabel(lang)}
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-300">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import type { Translation, VariantKind } from '../types'
+import { languageLabel } from '../utils/languages'
+import {
+  convertVariantKind,
+  pluralCategories,
+  selectCases,
+  DEFAULT_VARIANT_ARGS,
+  VARIANT_KIND_LABELS,
+} from '../utils/variants'
+
+interface VariantEditorProps {
+  translation: Translation
+  languages: string[]
+  onSave: (patch: Partial<Translation>) => Promise<void>
+  onClose: () => void
+  saving: boolean
+}
+
+export default function VariantEditor({ translation, languages, onSave, onClose, saving }: VariantEditorProps) {
+  const [kind, setKind] = useState<VariantKind | null>(translation.variant_kind)
+  const [arg, setArg] = useState(translation.variant_arg ?? '')
+  const [newCase, setNewCase] = useState('')
+
+  const changed = kind !== translation.variant_kind || (kind !== null && arg !== (translation.variant_arg ?? ''))
+
+  async function applySettings() {
+    if (translation.variant_kind && !kind && !confirm('Drop every form except "other"?')) return
+    await onSave(convertVariantKind(translation, kind, arg.trim() || null))
+  }
+
+  // New select cases start empty in every language that has forms, so they show up as missing
+  async function addCase() {
+    const name = newCase.trim()
+    if (!/^[A-Za-z][\w-]*$/.test(name) || selectCases(translation).includes(name)) return
+
+    const langVariants = { ...translation.lang_variants }
+    for (const lang of Object.keys(langVariants)) {
+      langVariants[lang] = { ...langVariants[lang], [name]: '' }
+    }
+    await onSave({ lang_variants: langVariants })
+    setNewCase('')
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">Plural and select forms</h4>
+        <button
+          onClick={onClose}
+          className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={kind ?? ''}
+          onChange={(e) => {
+            const next = (e.target.value || null) as VariantKind | null
+            setKind(next)
+            if (next && !arg) setArg(DEFAULT_VARIANT_ARGS[next])
+          }}
+          className="px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white
+                     focus:outline-none focus:ring-1 focus:ring-accent"
+        >
+          <option value="">Single value</option>
+          {(Object.keys(VARIANT_KIND_LABELS) as VariantKind[]).map((k) => (
+            <option key={k} value={k}>{VARIANT_KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        {kind && (
+          <input
+            value={arg}
+            onChange={(e) => setArg(e.target.value)}
+            placeholder={DEFAULT_VARIANT_ARGS[kind]}
+            title="Argument name used in ICU messages and .stringsdict"
+            className="w-32 px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white
+                       focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+        )}
+        <button
+          onClick={applySettings}
+          disabled={saving || !changed}
+          className="px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg
+                     hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+
+      {translation.variant_kind === 'plural' && (
+        <ul className="text-xs text-gray-500 space-y-0.5">
+          {languages.map((lang) => (
+            <li key={lang}>
+              <span className="font-medium text-gray-700">{languageLabel(lang)}</span> needs{' '}
+              {pluralCategories(lang).join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {translation.variant_kind === 'select' && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-500">Cases: {selectCases(translation).join(', ')}</span>
+          <input
+            value={newCase}
+            onChange={(e) => setNewCase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addCase()}
+            placeholder="e.g. female"
+            className="w-32 px-2 py-1.5 border border-gray-200 rounded-lg bg-white
+                       focus:outline-none focus:ring-1 focus:ring-accent"
+          />
+          <button
+            onClick={addCase}
+            disabled={saving || !newCase.trim()}
+            className="px-3 py-1.5 text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            Add case
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,21 +1,76 @@
+export type Role = 'admin' | 'developer' | 'translator' | 'reviewer'
+
+export interface Profile {
+  id: string
+  email: string
+  display_name: string | null
+  // null until an admin gives the account a role
+  role: Role | null
+  languages: string[]
+  created_at: string
+}
+
+export type NamingStyle = 'snake_case' | 'camelCase' | 'kebab-case'
+
+// Platforms whose reserved words a key segment must avoid
+export type KeyPlatform = 'java' | 'kotlin' | 'swift' | 'c' | 'android' | 'generic'
+
+export interface KeyRules {
+  style: NamingStyle
+  maxDepth: number | null
+  maxLength: number | null
+  reserved: KeyPlatform[]
+  // Segments matching `pattern` are reported with `message`
+  custom: { pattern: string; message: string }[]
+}
+
 export interface Project {
   id: string
   name: string
+  languages: string[]
+  source_language: string
+  key_rules: Partial<KeyRules>
   created_at: string
 }
 
+// Per-language values keyed by language code (e.g. { az: '…', en: '…' })
+export type LangValues = Record<string, string | null>
+
+export type ReviewStatus = 'draft' | 'needs_review' | 'approved' | 'rejected'
+
+export interface LangStatus {
+  status: ReviewStatus
+  comment: string | null
+}
+
+export type VariantKind = 'plural' | 'select'
+
+// CLDR plural category (one, few, other…) or select case (male, female, other…) → text
+export type Variants = Record<string, string>
+
 export interface Translation {
   id: string
   project_id: string
   key_path: string
-  az_value: string | null
-  en_value: string | null
-  ru_value: string | null
+  lang_values: LangValues
+  // Languages without an entry are drafts
+  lang_status: Record<string, LangStatus>
+  // Set when the value depends on a number or select argument; lang_values then holds the
+  // "other" form so formats without plurals still get a value
+  variant_kind: VariantKind | null
+  variant_arg: string | null
+  lang_variants: Record<string, Variants>
   token_type: string | null
   figma_variable_id: string | null
+  // DTCG $description and the token's whole $extensions object
+  description: string | null
+  extensions: Record<string, unknown>
   original_key: string | null
+  imported_at: string | null
   created_at: string
   updated_at: string
+  // Like updated_at, but review status changes leave it alone
+  content_updated_at: string
 }
 
 export interface GroupExtension {
@@ -23,16 +78,75 @@ export interface GroupExtension {
   project_id: string
   group_path: string
   extensions: Record<string, unknown>
+  description: string | null
+  // $type inherited by tokens in the group that have none of their own
+  token_type: string | null
+}
+
+export interface SegmentIssue {
+  index: number
+  segment: string
+  message: string
 }
 
 export interface KeyIssue {
-  original: string
-  suggested: string
+  // Suggested path; equal to the current one when only a person can fix the issues
   keyPath: string
+  segments: SegmentIssue[]
 }
 
+export type ValueIssueKind = 'missing' | 'extra' | 'renamed' | 'markup' | 'whitespace' | 'variants' | 'alias'
+
+// A translated value that doesn't line up with the source-language value
+export interface ValueIssue {
+  language: string
+  kind: ValueIssueKind
+  message: string
+}
+
+// exact and normalized compare one language at a time, similar within a similarity threshold;
+// all_languages keys hold the same value in every project language
+export type DuplicateKind = 'exact' | 'normalized' | 'similar' | 'all_languages'
+
 export interface DuplicateGroup {
+  kind: DuplicateKind
   value: string
-  language: 'az' | 'en' | 'ru'
+  // null for all_languages groups
+  language: string | null
   keyPaths: string[]
 }
+
+export type ChangeSource = 'manual' | 'upload' | 'bulk' | 'revert'
+
+export type HistoryField =
+  | 'value'
+  | 'variants'
+  | 'key_path'
+  | 'token_type'
+  | 'figma_variable_id'
+  | 'description'
+  | 'extensions'
+
+export interface HistoryEntry {
+  id: string
+  project_id: string
+  translation_id: string | null
+  import_id: string | null
+  key_path: string
+  field: HistoryField
+  language: string | null
+  old_value: string | null
+  new_value: string | null
+  source: ChangeSource
+  changed_by: string | null
+  changed_at: string
+}
+
+export interface ImportRecord {
+  id: string
+  project_id: string
+  file_names: string[]
+  strategy: string
+  imported_by: string | null
+  created_at: string
+}
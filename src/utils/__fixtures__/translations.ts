@@ -0,0 +1,8 @@
+import type { Translation } from '../../types'
+import { toTranslation } from './upload'
+
+// A stored key with the given values, plus any other fields a test needs
+export function token(keyPath: string, langValues: Record<string, string>, extra: Partial<Translation> = {}, index = 0): Translation {
+  const row = { key_path: keyPath, lang_values: langValues, token_type: null, figma_variable_id: null, description: null, extensions: {} }
+  return { ...toTranslation(row, index), ...extra }
+}
@@ -0,0 +1,49 @@
+import type { GroupExtension, Translation } from '../../types'
+import { flattenJsons } from '../jsonFlattener'
+import type { FlatRow, GroupExt } from '../jsonFlattener'
+
+// jsonb keeps object keys sorted by length, then bytewise, whatever order they were written in
+export function asStoredJsonb<T>(value: T): T {
+  if (typeof value !== 'object' || value === null) return value
+  if (Array.isArray(value)) return value.map(asStoredJsonb) as T
+  return Object.fromEntries(
+    Object.entries(value)
+      .sort(([a], [b]) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => [k, asStoredJsonb(v)]),
+  ) as T
+}
+
+export function toTranslation(row: FlatRow, index: number): Translation {
+  return {
+    id: `t${index}`,
+    project_id: 'project',
+    key_path: row.key_path,
+    lang_values: row.lang_values,
+    lang_status: {},
+    variant_kind: null,
+    variant_arg: null,
+    lang_variants: {},
+    token_type: row.token_type,
+    figma_variable_id: row.figma_variable_id,
+    description: row.description,
+    extensions: asStoredJsonb(row.extensions),
+    original_key: null,
+    imported_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    content_updated_at: '2024-01-01T00:00:00Z',
+  }
+}
+
+export function toGroupExtension(group: GroupExt, index: number): GroupExtension {
+  return { id: `g${index}`, project_id: 'project', ...group, extensions: asStoredJsonb(group.extensions) }
+}
+
+// The rows a project holds after uploading one file per language
+export function uploadFixture(files: Record<string, Record<string, unknown>>) {
+  const { rows, groupExtensions } = flattenJsons(files)
+  return {
+    translations: rows.map(toTranslation),
+    groupExtensions: groupExtensions.map(toGroupExtension),
+  }
+}
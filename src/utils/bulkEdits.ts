@@ -0,0 +1,297 @@
+import type { ChangeSource, LangStatus, Translation, Variants } from '../types'
+import { supabase } from '../supabaseClient'
+import { recordHistory } from './history'
+import type { HistoryChange } from './history'
+import { getLangValue } from './languages'
+import { withoutStatus } from './reviewStatus'
+import { retargetAliases, withoutFigmaLink } from './designTokens'
+
+// Rows are inserted this many per request
+const WRITE_BATCH_SIZE = 50
+
+// One language of one row going from `from` to `to`; plural/select forms travel as JSON like
+// they do in the edit history
+export interface ValueEdit {
+  translationId: string
+  keyPath: string
+  language: string
+  field: 'value' | 'variants'
+  from: string | null
+  to: string | null
+}
+
+export interface EditPlan {
+  patches: { id: string; patch: Pick<Translation, 'lang_values' | 'lang_variants'> }[]
+  applied: ValueEdit[]
+  // Edits skipped because the value changed since they were planned
+  stale: ValueEdit[]
+}
+
+// The cell an edit applies to, as a value or as JSON forms
+export function currentValue(t: Translation, edit: Pick<ValueEdit, 'field' | 'language'>): string | null {
+  if (edit.field === 'value') return getLangValue(t.lang_values, edit.language)
+  const variants = t.lang_variants?.[edit.language]
+  return variants ? JSON.stringify(variants) : null
+}
+
+export function invertEdits(edits: ValueEdit[]): ValueEdit[] {
+  return edits.map((e) => ({ ...e, from: e.to, to: e.from }))
+}
+
+// Folds every edit for a row into one patch so each row is written once
+export function planValueEdits(translations: Translation[], edits: ValueEdit[]): EditPlan {
+  const byId = new Map(translations.map((t) => [t.id, t]))
+  const patches = new Map<string, Pick<Translation, 'lang_values' | 'lang_variants'>>()
+  const plan: EditPlan = { patches: [], applied: [], stale: [] }
+
+  for (const edit of edits) {
+    const t = byId.get(edit.translationId)
+    if (!t || currentValue(t, edit) !== edit.from) {
+      plan.stale.push(edit)
+      continue
+    }
+
+    const patch = patches.get(t.id) ?? { lang_values: { ...t.lang_values }, lang_variants: { ...t.lang_variants } }
+    if (edit.field === 'value') {
+      patch.lang_values[edit.language] = edit.to
+    } else if (edit.to) {
+      const variants = JSON.parse(edit.to) as Variants
+      patch.lang_variants[edit.language] = variants
+      patch.lang_values[edit.language] = variants.other || null
+    } else {
+      delete patch.lang_variants[edit.language]
+      patch.lang_values[edit.language] = null
+    }
+    patches.set(t.id, patch)
+    plan.applied.push(edit)
+  }
+
+  plan.patches = Array.from(patches, ([id, patch]) => ({ id, patch }))
+  return plan
+}
+
+// Mirrors a saved plan in local state; the database resets changed languages to draft
+export function applyEditPlan(translations: Translation[], plan: EditPlan): Translation[] {
+  const patches = new Map(plan.patches.map((p) => [p.id, p.patch]))
+  const changed = new Map<string, string[]>()
+  for (const edit of plan.applied) {
+    changed.set(edit.translationId, [...(changed.get(edit.translationId) ?? []), edit.language])
+  }
+
+  return translations.map((t) => {
+    const patch = patches.get(t.id)
+    if (!patch) return t
+    const langStatus = (changed.get(t.id) ?? []).reduce(withoutStatus, t.lang_status)
+    return { ...t, ...patch, lang_status: langStatus }
+  })
+}
+
+export interface KeyRename {
+  id: string
+  from: string
+  to: string
+  original_key: string
+}
+
+export interface RenamePlan {
+  renames: KeyRename[]
+  // Target paths that already exist or that several keys would end up on
+  collisions: { id: string; keyPath: string }[]
+}
+
+// Renames are applied in one transaction (see saveKeyRenames), so a key may take over a path
+// another key in the same batch gives up
+export function planKeyRenames(translations: Translation[], targets: Map<string, string>): RenamePlan {
+  const kept = new Set(translations.filter((t) => !targets.has(t.id)).map((t) => t.key_path))
+  const claimed = new Map<string, number>()
+  for (const to of targets.values()) claimed.set(to, (claimed.get(to) ?? 0) + 1)
+
+  const plan: RenamePlan = { renames: [], collisions: [] }
+  for (const t of translations) {
+    const to = targets.get(t.id)
+    if (to === undefined || to === t.key_path) continue
+    if (kept.has(to) || (claimed.get(to) ?? 0) > 1) {
+      plan.collisions.push({ id: t.id, keyPath: to })
+      continue
+    }
+    plan.renames.push({ id: t.id, from: t.key_path, to, original_key: t.original_key || t.key_path })
+  }
+  return plan
+}
+
+// Aliases of the renamed keys follow them, as the database does
+export function applyRenames(translations: Translation[], renames: KeyRename[]): Translation[] {
+  const byId = new Map(renames.map((r) => [r.id, r]))
+  const renamed = translations.map((t) => {
+    const r = byId.get(t.id)
+    return r ? { ...t, key_path: r.to, original_key: r.original_key } : t
+  })
+  return retargetAliases(renamed, new Map(renames.map((r) => [r.from, r.to])))
+}
+
+// delete_keys (supabase-setup.sql) deletes the whole selection or nothing. Returns the ids
+// that were deleted, which leaves out keys someone else deleted meanwhile
+export async function deleteRows(projectId: string, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return []
+  const { data, error } = await supabase.rpc('delete_keys', { p_project_id: projectId, p_ids: ids })
+  if (error) throw error
+  return data as string[]
+}
+
+async function recordBestEffort(projectId: string, changes: HistoryChange[], source: ChangeSource) {
+  try {
+    await recordHistory(projectId, changes, source)
+  } catch {
+    // The rows are already saved; a missing history entry should not undo them
+  }
+}
+
+export type NewTranslation = Omit<Translation, 'id' | 'created_at' | 'updated_at' | 'content_updated_at'>
+
+// Copies start as drafts and drop the Figma variable link, which belongs to the original token
+export function copyTranslation(
+  t: Translation,
+  projectId: string,
+  keyPath: string,
+  languages: string[] = Object.keys(t.lang_values),
+): NewTranslation {
+  const keep = <T>(record: Record<string, T>) =>
+    Object.fromEntries(Object.entries(record ?? {}).filter(([lang]) => languages.includes(lang)))
+
+  return {
+    project_id: projectId,
+    key_path: keyPath,
+    lang_values: keep(t.lang_values),
+    lang_status: {},
+    variant_kind: t.variant_kind,
+    variant_arg: t.variant_arg,
+    lang_variants: keep(t.lang_variants),
+    token_type: t.token_type,
+    figma_variable_id: null,
+    description: t.description,
+    extensions: withoutFigmaLink(t.extensions),
+    original_key: null,
+    imported_at: null,
+  }
+}
+
+export async function insertRows(projectId: string, rows: NewTranslation[], source: ChangeSource): Promise<Translation[]> {
+  const inserted: Translation[] = []
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('translations')
+      .insert(rows.slice(i, i + WRITE_BATCH_SIZE))
+      .select()
+
+    if (error) throw error
+    inserted.push(...(data ?? []))
+  }
+
+  await recordBestEffort(
+    projectId,
+    inserted.flatMap((t) =>
+      Object.entries(t.lang_values)
+        .filter(([, value]) => value != null)
+        .map(([lang, value]) => ({
+          translation_id: t.id,
+          key_path: t.key_path,
+          field: 'value' as const,
+          language: lang,
+          old_value: null,
+          new_value: value,
+        })),
+    ),
+    source,
+  )
+  return inserted
+}
+
+export interface SavedEdits {
+  applied: ValueEdit[]
+  // Edits left alone because the value changed, here or on the server, since they were planned
+  stale: ValueEdit[]
+  // The changed rows as the database now has them
+  rows: Translation[]
+}
+
+// save_value_edits (supabase-setup.sql) writes the planned edits and their history in one
+// transaction, each only while the server still has the value it was made on
+export async function saveValueEdits(projectId: string, plan: EditPlan, source: ChangeSource): Promise<SavedEdits> {
+  if (plan.applied.length === 0) return { applied: [], stale: plan.stale, rows: [] }
+  const { data, error } = await supabase.rpc('save_value_edits', {
+    p_project_id: projectId,
+    p_edits: plan.applied.map((e) => ({ id: e.translationId, field: e.field, language: e.language, from: e.from, to: e.to })),
+    p_source: source,
+  })
+  if (error) throw error
+
+  const result = data as { rows: Translation[]; stale: number[] }
+  const stale = new Set(result.stale)
+  return {
+    applied: plan.applied.filter((_, i) => !stale.has(i)),
+    stale: [...plan.stale, ...plan.applied.filter((_, i) => stale.has(i))],
+    rows: result.rows,
+  }
+}
+
+// merge_keys (supabase-setup.sql) saves the edits and deletes the merged keys in one transaction,
+// and fails as a whole if any edit is stale. Returns the edited rows
+export async function saveMerge(projectId: string, plan: EditPlan, removeIds: string[]): Promise<Translation[]> {
+  const { data, error } = await supabase.rpc('merge_keys', {
+    p_project_id: projectId,
+    p_edits: plan.applied.map((e) => ({ id: e.translationId, field: e.field, language: e.language, from: e.from, to: e.to })),
+    p_remove: removeIds,
+  })
+  if (error) throw error
+  return data as Translation[]
+}
+
+// Replaces rows with the database's copies
+export function withSavedRows(translations: Translation[], rows: Translation[]): Translation[] {
+  const byId = new Map(rows.map((t) => [t.id, t]))
+  return translations.map((t) => byId.get(t.id) ?? t)
+}
+
+// rename_keys (supabase-setup.sql) applies the whole batch and its history in one transaction,
+// together with the group_extensions rows of any groups that move with the keys
+export async function saveKeyRenames(
+  projectId: string,
+  renames: KeyRename[],
+  source: ChangeSource,
+  groupRenames: { id: string; group_path: string }[] = [],
+) {
+  if (renames.length === 0 && groupRenames.length === 0) return
+  const { error } = await supabase.rpc('rename_keys', {
+    p_project_id: projectId,
+    p_renames: renames.map((r) => ({ id: r.id, key_path: r.to })),
+    p_source: source,
+    p_group_renames: groupRenames,
+  })
+  if (error) throw error
+}
+
+// save_token_types (supabase-setup.sql) changes every row and records the history in one transaction
+export async function saveTokenTypes(projectId: string, translations: Translation[], tokenType: string | null): Promise<Translation[]> {
+  if (translations.length === 0) return []
+  const { data, error } = await supabase.rpc('save_token_types', {
+    p_project_id: projectId,
+    p_ids: translations.map((t) => t.id),
+    p_token_type: tokenType,
+  })
+  if (error) throw error
+  return data as Translation[]
+}
+
+// The statuses to set per row and language; null puts a language back to draft
+export interface StatusChange {
+  id: string
+  statuses: Record<string, LangStatus | null>
+}
+
+// save_review_statuses (supabase-setup.sql) writes only the given languages, all rows in one transaction
+export async function saveReviewStatuses(projectId: string, changes: StatusChange[]): Promise<Translation[]> {
+  if (changes.length === 0) return []
+  const { data, error } = await supabase.rpc('save_review_statuses', { p_project_id: projectId, p_changes: changes })
+  if (error) throw error
+  return data as Translation[]
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { buildKotlinAccessors, buildSwiftAccessors, buildTypeScriptKeys, inferParams } from './codegen'
+import { androidResourceNames } from './platformExport'
+import { token } from './__fixtures__/translations'
+
+const plural = token('cart.items', { en: '%d items in {{cart}}' }, {
+  variant_kind: 'plural',
+  variant_arg: 'count',
+  lang_variants: { en: { one: '%d item in {{cart}}', other: '%d items in {{cart}}' } },
+})
+
+describe('inferParams', () => {
+  it('keeps the names of mustache and ICU placeholders and narrows them by format', () => {
+    const t = token('home.title', { en: '{{name}} has {count, plural, one {# file from {{owner}}} other {# files}} worth {{total, number}}' })
+    expect(inferParams(t, 'en')).toStrictEqual([
+      { name: 'name', type: 'string | number', conversion: null },
+      { name: 'count', type: 'number', conversion: null },
+      { name: 'total', type: 'number', conversion: null },
+    ])
+  })
+
+  it('names printf specifiers by position and sorts them', () => {
+    expect(inferParams(token('a', { en: '%2$@ sent %1$d files' }), 'en')).toStrictEqual([
+      { name: 'arg1', type: 'number', conversion: 'd' },
+      { name: 'arg2', type: 'string', conversion: '@' },
+    ])
+    expect(inferParams(token('b', { en: '%s of %.1f' }), 'en').map((p) => [p.name, p.type])).toStrictEqual([
+      ['arg1', 'string'],
+      ['arg2', 'number'],
+    ])
+  })
+
+  it('takes the count of plurals from the variant argument rather than printf specifiers', () => {
+    expect(inferParams(plural, 'en')).toStrictEqual([
+      { name: 'count', type: 'number', conversion: null },
+      { name: 'cart', type: 'string | number', conversion: null },
+    ])
+  })
+
+  it('reads the source language only', () => {
+    expect(inferParams(token('a', { en: 'Hi', de: 'Hallo {{name}}' }), 'en')).toStrictEqual([])
+  })
+})
+
+describe('Kotlin accessors', () => {
+  it('nests objects by key path and points at the exported resource names', () => {
+    const translations = [
+      token('home.title', { en: 'Welcome */ home' }),
+      token('home', { en: 'Home' }, {}, 1),
+      token('home.class', { en: 'Class' }, {}, 2),
+      plural,
+    ]
+    const { names } = androidResourceNames(translations)
+
+    expect(buildKotlinAccessors(translations, 'en', names, 'com.example', 'App')).toBe([
+      '// Generated from the "App" project. Do not edit by hand.',
+      '',
+      'package com.example',
+      '',
+      'import androidx.annotation.PluralsRes',
+      'import androidx.annotation.StringRes',
+      '',
+      'object Strings {',
+      '    object Cart {',
+      '        /** %d items in {{cart}} */',
+      '        @PluralsRes val items = R.plurals.cart_items',
+      '    }',
+      '    /** Home */',
+      '    @StringRes val home = R.string.home',
+      '    object Home {',
+      '        /** Class */',
+      '        @StringRes val `class` = R.string.home_class',
+      '        /** Welcome * / home */',
+      '        @StringRes val title = R.string.home_title',
+      '    }',
+      '}',
+      '',
+    ].join('\n'))
+  })
+})
+
+describe('Swift accessors', () => {
+  it('formats printf arguments and plural counts', () => {
+    const translations = [token('home.title', { en: 'Hi "you"' }), token('home.sent', { en: '%@ sent %d files' }, {}, 1), plural]
+
+    expect(buildSwiftAccessors(translations, 'en', 'App')).toBe([
+      '// Generated from the "App" project. Do not edit by hand.',
+      '',
+      'import Foundation',
+      '',
+      'enum L10n {',
+      '    enum Cart {',
+      '        /// %d items in {{cart}}',
+      '        static func items(_ count: Int) -> String {',
+      '            String.localizedStringWithFormat(NSLocalizedString("cart.items", comment: ""), count)',
+      '        }',
+      '    }',
+      '    enum Home {',
+      '        /// %@ sent %d files',
+      '        static func sent(_ arg1: String, _ arg2: Int) -> String {',
+      '            String(format: NSLocalizedString("home.sent", comment: ""), arg1, arg2)',
+      '        }',
+      '        /// Hi "you"',
+      '        static let title = NSLocalizedString("home.title", comment: "")',
+      '    }',
+      '}',
+      '',
+    ].join('\n'))
+  })
+
+  it('numbers segments that normalize to the same identifier', () => {
+    const swift = buildSwiftAccessors([token('home.sign_in', {}), token('home.signIn', {}, {}, 1)], 'en', 'App')
+    expect(swift).toContain('static let signIn = NSLocalizedString("home.sign_in", comment: "")')
+    expect(swift).toContain('static let signIn2 = NSLocalizedString("home.signIn", comment: "")')
+  })
+})
+
+describe('TypeScript keys', () => {
+  it('lists every key path with the parameters it expects', () => {
+    const translations = [token("home.it's", { en: 'Hi {{first-name}}' }), token('home.title', { en: 'Home' }, {}, 1), plural]
+
+    expect(buildTypeScriptKeys(translations, 'en', 'App')).toBe([
+      '// Generated from the "App" project. Do not edit by hand.',
+      '',
+      'export const translationKeys = [',
+      "  'cart.items',",
+      "  'home.it\\'s',",
+      "  'home.title',",
+      '] as const',
+      '',
+      'export type TranslationKey = (typeof translationKeys)[number]',
+      '',
+      'export interface TranslationParams {',
+      "  'cart.items': { count: number; cart: string | number }",
+      "  'home.it\\'s': { 'first-name': string | number }",
+      "  'home.title': Record<never, never>",
+      '}',
+      '',
+      '// Keys that can be looked up without passing any parameters',
+      'export type PlainTranslationKey = {',
+      '  [K in TranslationKey]: keyof TranslationParams[K] extends never ? K : never',
+      '}[TranslationKey]',
+      '',
+    ].join('\n'))
+  })
+})
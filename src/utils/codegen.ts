@@ -0,0 +1,288 @@
+import type { Translation } from '../types'
+import { getLangValue } from './languages'
+import { reservedIn, splitWords } from './keyOptimizer'
+import { extractPlaceholders } from './placeholders'
+import { escapeIosString } from './platformExport'
+import { exportVariants, getVariants } from './variants'
+
+export interface AccessorParam {
+  name: string
+  type: 'string' | 'number' | 'string | number'
+  // printf conversion such as d or @; platforms that format positionally only use these
+  conversion: string | null
+}
+
+interface AccessorNode {
+  segment: string
+  children: AccessorNode[]
+  // Set when a key ends here; a path can be both a key and a group
+  translation: Translation | null
+}
+
+const INDENT = '    '
+const NUMBER_CONVERSIONS = 'diuxXoceEfgG'
+const DOC_LIMIT = 80
+const ICU_NUMBER_TYPES = ['plural', 'selectordinal', 'number']
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function icuArgType(text: string, name: string): AccessorParam['type'] {
+  const match = text.match(new RegExp(`\\{\\s*${escapeRegExp(name)}\\s*,\\s*(\\w+)`))
+  if (!match) return 'string | number'
+  if (ICU_NUMBER_TYPES.includes(match[1])) return 'number'
+  return match[1] === 'select' ? 'string' : 'string | number'
+}
+
+// Parameters read from the source-language value and its variant forms. Named placeholders
+// ({{name}}, {name}) keep their names; printf specifiers become arg1, arg2… by position
+export function inferParams(t: Translation, sourceLanguage: string): AccessorParam[] {
+  const value = getLangValue(t.lang_values, sourceLanguage)
+  const forms = Object.values(getVariants(t, sourceLanguage))
+  const params = new Map<string, AccessorParam>()
+
+  function add(param: AccessorParam) {
+    const existing = params.get(param.name)
+    // A number use anywhere narrows an otherwise loose parameter
+    if (!existing || (existing.type === 'string | number' && param.type === 'number')) params.set(param.name, param)
+  }
+
+  if (t.variant_kind && t.variant_arg) {
+    add({ name: t.variant_arg, type: t.variant_kind === 'plural' ? 'number' : 'string', conversion: null })
+  }
+
+  for (const text of [value, ...forms]) {
+    if (!text) continue
+    let position = 0
+    for (const token of extractPlaceholders(text)) {
+      // In plurals a printf specifier is the count itself, e.g. "%d items"; the value is the other form
+      if (token.kind === 'printf' && t.variant_kind === 'plural') continue
+      if (token.kind === 'mustache') {
+        const [name, format] = token.text.slice(2, -2).split(',').map((s) => s.trim())
+        add({ name, type: format === 'number' ? 'number' : 'string | number', conversion: null })
+      } else if (token.kind === 'icu') {
+        const name = token.text.slice(1, -1)
+        add({ name, type: icuArgType(text, name), conversion: null })
+      } else {
+        const explicit = token.text.match(/^%(\d+)\$/)
+        const conversion = token.text.slice(-1)
+        add({
+          name: `arg${explicit ? explicit[1] : ++position}`,
+          type: NUMBER_CONVERSIONS.includes(conversion) ? 'number' : 'string',
+          conversion,
+        })
+      }
+    }
+  }
+
+  return [...params.values()].sort((a, b) =>
+    a.conversion && b.conversion ? a.name.localeCompare(b.name, undefined, { numeric: true }) : 0,
+  )
+}
+
+function buildAccessorTree(translations: Translation[]): AccessorNode {
+  const root: AccessorNode = { segment: '', children: [], translation: null }
+  const nodes = new Map<string, AccessorNode>([['', root]])
+
+  for (const t of [...translations].sort((a, b) => a.key_path.localeCompare(b.key_path))) {
+    let parent = root
+    let path = ''
+    for (const segment of t.key_path.split('.')) {
+      path = path ? `${path}.${segment}` : segment
+      let node = nodes.get(path)
+      if (!node) {
+        node = { segment, children: [], translation: null }
+        nodes.set(path, node)
+        parent.children.push(node)
+      }
+      parent = node
+    }
+    parent.translation = t
+  }
+
+  return root
+}
+
+function identifier(segment: string, upperFirst: boolean): string {
+  const words = splitWords(segment)
+  const joined = (words.length > 0 ? words : ['key'])
+    .map((w, i) => (i === 0 && !upperFirst ? w : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join('')
+  return /^[0-9]/.test(joined) ? `_${joined}` : joined
+}
+
+// Hands out identifiers within one scope, numbering any that normalize to the same name
+function scopeNames() {
+  const taken = new Set<string>()
+  return (segment: string, upperFirst: boolean) => {
+    const base = identifier(segment, upperFirst)
+    let name = base
+    for (let i = 2; taken.has(name); i++) name = `${base}${i}`
+    taken.add(name)
+    return name
+  }
+}
+
+function docText(t: Translation, sourceLanguage: string): string | null {
+  const value = getLangValue(t.lang_values, sourceLanguage)
+  if (!value) return null
+  const line = value.replace(/\s+/g, ' ').replace(/\*\//g, '* /').trim()
+  return line.length > DOC_LIMIT ? `${line.slice(0, DOC_LIMIT - 1)}…` : line
+}
+
+function header(projectName: string): string {
+  return `// Generated from the "${projectName}" project. Do not edit by hand.`
+}
+
+// Nested objects whose properties point at the Android resources from androidResourceNames,
+// so the names match the strings.xml export exactly
+export function buildKotlinAccessors(
+  translations: Translation[],
+  sourceLanguage: string,
+  names: Map<string, string>,
+  packageName: string,
+  projectName: string,
+): string {
+  const lines = [
+    header(projectName),
+    '',
+    `package ${packageName}`,
+    '',
+    'import androidx.annotation.PluralsRes',
+    'import androidx.annotation.StringRes',
+    '',
+  ]
+
+  const kotlinName = (name: string) => (reservedIn(name, ['kotlin']).length > 0 ? `\`${name}\`` : name)
+
+  function emit(node: AccessorNode, objectName: string, depth: number) {
+    const pad = INDENT.repeat(depth)
+    const nameFor = scopeNames()
+    lines.push(`${pad}object ${kotlinName(objectName)} {`)
+
+    for (const child of node.children) {
+      const t = child.translation
+      if (t) {
+        const plural = t.variant_kind === 'plural' && exportVariants(t, sourceLanguage) !== null
+        const doc = docText(t, sourceLanguage)
+        if (doc) lines.push(`${pad}${INDENT}/** ${doc} */`)
+        lines.push(
+          `${pad}${INDENT}@${plural ? 'PluralsRes' : 'StringRes'} val ${kotlinName(nameFor(child.segment, false))} = ` +
+            `R.${plural ? 'plurals' : 'string'}.${names.get(t.key_path)}`,
+        )
+      }
+      if (child.children.length > 0) emit(child, nameFor(child.segment, true), depth + 1)
+    }
+
+    lines.push(`${pad}}`)
+  }
+
+  emit(buildAccessorTree(translations), 'Strings', 0)
+  lines.push('')
+  return lines.join('\n')
+}
+
+const SWIFT_TYPES: Record<string, string> = { '@': 'String', s: 'CVarArg' }
+
+function swiftType(conversion: string): string {
+  if (SWIFT_TYPES[conversion]) return SWIFT_TYPES[conversion]
+  return 'eEfgG'.includes(conversion) ? 'Double' : 'Int'
+}
+
+// Caseless enums as namespaces. Keys with printf specifiers become functions that format
+// their arguments; plural keys take the count their stringsdict entry selects on
+export function buildSwiftAccessors(translations: Translation[], sourceLanguage: string, projectName: string): string {
+  const lines = [header(projectName), '', 'import Foundation', '']
+
+  const swiftName = (name: string) => (reservedIn(name, ['swift']).length > 0 ? `\`${name}\`` : name)
+
+  function emitKey(t: Translation, name: string, pad: string) {
+    const lookup = `NSLocalizedString("${escapeIosString(t.key_path)}", comment: "")`
+    const doc = docText(t, sourceLanguage)
+    if (doc) lines.push(`${pad}/// ${doc}`)
+
+    if (t.variant_kind === 'plural') {
+      const arg = identifier(t.variant_arg || 'count', false)
+      lines.push(
+        `${pad}static func ${name}(_ ${arg}: Int) -> String {`,
+        `${pad}${INDENT}String.localizedStringWithFormat(${lookup}, ${arg})`,
+        `${pad}}`,
+      )
+      return
+    }
+
+    const params = inferParams(t, sourceLanguage).filter((p) => p.conversion)
+    if (params.length === 0) {
+      lines.push(`${pad}static let ${name} = ${lookup}`)
+      return
+    }
+
+    const signature = params.map((p) => `_ ${p.name}: ${swiftType(p.conversion ?? '@')}`).join(', ')
+    lines.push(
+      `${pad}static func ${name}(${signature}) -> String {`,
+      `${pad}${INDENT}String(format: ${lookup}, ${params.map((p) => p.name).join(', ')})`,
+      `${pad}}`,
+    )
+  }
+
+  function emit(node: AccessorNode, enumName: string, depth: number) {
+    const pad = INDENT.repeat(depth)
+    const nameFor = scopeNames()
+    lines.push(`${pad}enum ${swiftName(enumName)} {`)
+
+    for (const child of node.children) {
+      if (child.translation) emitKey(child.translation, swiftName(nameFor(child.segment, false)), pad + INDENT)
+      if (child.children.length > 0) emit(child, nameFor(child.segment, true), depth + 1)
+    }
+
+    lines.push(`${pad}}`)
+  }
+
+  emit(buildAccessorTree(translations), 'L10n', 0)
+  lines.push('')
+  return lines.join('\n')
+}
+
+function tsString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+function tsProperty(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : tsString(name)
+}
+
+// A const tuple of every key path, the union type derived from it, and the parameters each
+// key expects. Keys without placeholders map to Record<never, never>
+export function buildTypeScriptKeys(translations: Translation[], sourceLanguage: string, projectName: string): string {
+  const sorted = [...translations].sort((a, b) => a.key_path.localeCompare(b.key_path))
+  const lines = [header(projectName), '', 'export const translationKeys = [']
+
+  for (const t of sorted) lines.push(`  ${tsString(t.key_path)},`)
+  lines.push(
+    '] as const',
+    '',
+    'export type TranslationKey = (typeof translationKeys)[number]',
+    '',
+    'export interface TranslationParams {',
+  )
+
+  for (const t of sorted) {
+    const params = inferParams(t, sourceLanguage)
+    const shape = params.length === 0
+      ? 'Record<never, never>'
+      : `{ ${params.map((p) => `${tsProperty(p.name)}: ${p.type}`).join('; ')} }`
+    lines.push(`  ${tsString(t.key_path)}: ${shape}`)
+  }
+
+  lines.push(
+    '}',
+    '',
+    '// Keys that can be looked up without passing any parameters',
+    'export type PlainTranslationKey = {',
+    '  [K in TranslationKey]: keyof TranslationParams[K] extends never ? K : never',
+    '}[TranslationKey]',
+    '',
+  )
+  return lines.join('\n')
+}
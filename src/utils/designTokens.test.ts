@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { aliasTarget, checkAliasEdit, checkAliases, planAliasRetargets, resolveAliases, retargetAliases } from './designTokens'
+import { toTranslation } from './__fixtures__/upload'
+
+function rows(values: Record<string, string>) {
+  return Object.entries(values).map(([keyPath, en], i) =>
+    toTranslation({ key_path: keyPath, lang_values: { en }, token_type: null, figma_variable_id: null, description: null, extensions: {} }, i),
+  )
+}
+
+const index = (translations: ReturnType<typeof rows>) => new Map(translations.map((t) => [t.key_path, t]))
+
+describe('aliases', () => {
+  const translations = rows({ 'common.ok': 'OK', save: '{common.ok}', items: '{count}', first: '{0}' })
+  const byPath = index(translations)
+
+  it('only point at keys that exist', () => {
+    expect(aliasTarget('{common.ok}', byPath)).toBe('common.ok')
+    expect(aliasTarget(' { common.ok } ', byPath)).toBe('common.ok')
+    expect(aliasTarget('{count}', byPath)).toBeNull()
+    expect(aliasTarget('{"hex": "#fff"}', byPath)).toBeNull()
+  })
+
+  it('resolve for exports and keep placeholder-only values as they are', () => {
+    expect(resolveAliases(translations, ['en']).map((t) => t.lang_values.en)).toStrictEqual(['OK', 'OK', '{count}', '{0}'])
+  })
+
+  it('report no problem for a placeholder-only value', () => {
+    expect(translations.flatMap((t) => checkAliases(t, ['en'], byPath))).toStrictEqual([])
+    expect(checkAliasEdit('items', 'en', '{total}', byPath)).toBeNull()
+  })
+
+  it('may not loop back to the key being edited', () => {
+    expect(checkAliasEdit('common.ok', 'en', '{save}', byPath)).toBe('Circular alias: common.ok → save → common.ok')
+  })
+})
+
+describe('retargeting aliases', () => {
+  const [ok, items] = rows({ 'common.ok': 'OK', items: '{common.ok}' })
+  const plural = {
+    ...items,
+    variant_kind: 'plural' as const,
+    lang_status: { en: { status: 'approved' as const, comment: null } },
+    lang_variants: { en: { one: '{count} item', other: '{common.ok}' } },
+  }
+  const moves = new Map([['common.ok', 'common.confirm']])
+
+  it('rewrites plural and select forms along with values', () => {
+    const [, moved] = retargetAliases([ok, plural], moves)
+    expect(moved.lang_values.en).toBe('{common.confirm}')
+    expect(moved.lang_variants.en).toStrictEqual({ one: '{count} item', other: '{common.confirm}' })
+    expect(moved.lang_status).toStrictEqual({})
+  })
+
+  it('plans one forms edit for a language with forms', () => {
+    expect(planAliasRetargets([plural], moves)).toStrictEqual([{
+      translationId: plural.id,
+      keyPath: 'items',
+      language: 'en',
+      field: 'variants',
+      from: JSON.stringify({ one: '{count} item', other: '{common.ok}' }),
+      to: JSON.stringify({ one: '{count} item', other: '{common.confirm}' }),
+    }])
+  })
+})
@@ -0,0 +1,267 @@
+import type { GroupExtension, Translation, ValueIssue, Variants } from '../types'
+import type { ValueEdit } from './bulkEdits'
+import { getLangValue } from './languages'
+import { withoutStatus } from './reviewStatus'
+
+export const FIGMA_EXTENSION = 'com.figma'
+
+// Types whose values are plain text; anything else may have been stored as JSON text
+const TEXT_TYPES = ['string', 'text']
+
+// Quotes rule out JSON objects such as a color's {"hex": "#fff"}
+const ALIAS = /^\{([^{}"]+)\}$/
+
+type AliasIndex = Map<string, Pick<Translation, 'lang_values'>>
+
+// {common.buttons.ok} → common.buttons.ok, whether or not that key exists
+function referencedPath(value: string | null): string | null {
+  return value?.trim().match(ALIAS)?.[1].trim() ?? null
+}
+
+// The key a value points at. Only a key that exists makes it an alias; anything else in braces,
+// such as a {count} placeholder, is literal text
+export function aliasTarget(value: string | null, byPath: AliasIndex): string | null {
+  const target = referencedPath(value)
+  return target !== null && byPath.has(target) ? target : null
+}
+
+export function aliasValue(keyPath: string): string {
+  return `{${keyPath}}`
+}
+
+function parsesAsJson(text: string): boolean {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// lang_values only hold strings, so numbers, booleans and composite values are kept as JSON.
+// A typed token's string that would read back as JSON, like a fontWeight of "700", keeps its
+// quotes so it stays a string
+export function encodeTokenValue(value: unknown, type: string | null): string {
+  if (typeof value !== 'string') return JSON.stringify(value)
+  return isTextType(type) || !parsesAsJson(value) ? value : JSON.stringify(value)
+}
+
+// Undoes encodeTokenValue for typed tokens. Text types always stay strings, as does anything
+// that does not parse, such as a color like #fff or an alias
+export function decodeTokenValue(text: string, type: string | null): unknown {
+  if (isTextType(type)) return text
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+export function isTextType(type: string | null): boolean {
+  return !type || TEXT_TYPES.includes(type)
+}
+
+// A token's own $type, else the nearest group's; the file itself is the group at ''
+export function effectiveTokenType(
+  keyPath: string,
+  tokenType: string | null,
+  groupTypes: Map<string, string>,
+): string | null {
+  if (tokenType) return tokenType
+  const segments = keyPath.split('.')
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const type = groupTypes.get(segments.slice(0, i).join('.'))
+    if (type) return type
+  }
+  return null
+}
+
+export function groupTypeMap(groupExtensions: Pick<GroupExtension, 'group_path' | 'token_type'>[]): Map<string, string> {
+  return new Map(groupExtensions.flatMap((ge) => (ge.token_type ? [[ge.group_path, ge.token_type]] : [])))
+}
+
+// Deep equality that ignores object key order, since jsonb hands objects back with their keys
+// in its own order
+export function sameJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = Object.keys(left)
+  return keys.length === Object.keys(right).length && keys.every((k) => k in right && sameJson(left[k], right[k]))
+}
+
+// The order Figma writes variable properties in, nested under com.figma or flat as
+// com.figma.variableId and so on
+const FIGMA_PROPERTY_ORDER = ['variableId', 'scopes', 'codeSyntax', 'hiddenFromPublishing', 'modeName']
+
+function figmaRank(key: string): number {
+  const property = key.startsWith(`${FIGMA_EXTENSION}.`) ? key.slice(FIGMA_EXTENSION.length + 1) : key
+  const rank = FIGMA_PROPERTY_ORDER.indexOf(property)
+  return rank === -1 ? FIGMA_PROPERTY_ORDER.length : rank
+}
+
+function inFigmaOrder(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(obj).sort(([a], [b]) => figmaRank(a) - figmaRank(b)))
+}
+
+// $extensions as Figma lays them out. Stored key order says nothing, so known Figma properties
+// are put back in Figma's order; anything else follows as stored
+export function orderExtensions(extensions: Record<string, unknown>): Record<string, unknown> {
+  const ordered = inFigmaOrder(extensions)
+  const figma = ordered[FIGMA_EXTENSION]
+  if (typeof figma === 'object' && figma !== null && !Array.isArray(figma)) {
+    ordered[FIGMA_EXTENSION] = inFigmaOrder(figma as Record<string, unknown>)
+  }
+  return ordered
+}
+
+// Token $extensions for export, with com.figma.variableId following the editable column
+export function tokenExtensions(t: Pick<Translation, 'extensions' | 'figma_variable_id'>): Record<string, unknown> | null {
+  const extensions = { ...t.extensions }
+  if (t.figma_variable_id) {
+    const figma = extensions[FIGMA_EXTENSION]
+    extensions[FIGMA_EXTENSION] = {
+      ...(typeof figma === 'object' && figma !== null ? figma : {}),
+      variableId: t.figma_variable_id,
+    }
+  }
+  return Object.keys(extensions).length > 0 ? orderExtensions(extensions) : null
+}
+
+export function withoutFigmaLink(extensions: Record<string, unknown>): Record<string, unknown> {
+  const rest = { ...extensions }
+  delete rest[FIGMA_EXTENSION]
+  return rest
+}
+
+export type AliasProblem = 'circular'
+
+export interface AliasResolution {
+  // The literal text the chain ends at; null when it loops or the last key has no value
+  value: string | null
+  // Key paths followed from the first target on, so the last one is where the value lives
+  chain: string[]
+  problem: AliasProblem | null
+}
+
+// Follows aliases from a key's value in one language. A value that is not an alias resolves
+// to itself with an empty chain
+export function resolveAlias(keyPath: string, lang: string, byPath: AliasIndex): AliasResolution {
+  const seen = new Set([keyPath])
+  const chain: string[] = []
+  let value = getLangValue(byPath.get(keyPath)?.lang_values, lang)
+
+  for (let target = aliasTarget(value, byPath); target; target = aliasTarget(value, byPath)) {
+    chain.push(target)
+    if (seen.has(target)) return { value: null, chain, problem: 'circular' }
+    seen.add(target)
+    value = getLangValue(byPath.get(target)?.lang_values, lang)
+  }
+
+  return { value, chain, problem: null }
+}
+
+// A literal value in one language, or null for a circular alias
+export function resolveTokenValue(keyPath: string, lang: string, byPath: AliasIndex): string | null {
+  const resolved = resolveAlias(keyPath, lang, byPath)
+  return resolved.problem ? null : resolved.value
+}
+
+export function aliasProblemMessage(keyPath: string, resolved: AliasResolution): string | null {
+  const path = [keyPath, ...resolved.chain].join(' → ')
+  return resolved.problem === 'circular' ? `Circular alias: ${path}` : null
+}
+
+// Aliases that loop, one issue per language
+export function checkAliases(t: Translation, languages: string[], byPath: AliasIndex): ValueIssue[] {
+  return languages.flatMap((lang) => {
+    if (!aliasTarget(getLangValue(t.lang_values, lang), byPath)) return []
+    const message = aliasProblemMessage(t.key_path, resolveAlias(t.key_path, lang, byPath))
+    return message ? [{ language: lang, kind: 'alias' as const, message }] : []
+  })
+}
+
+// Whether `value` can be saved as the key's value: an alias must not loop back to the key
+export function checkAliasEdit(keyPath: string, lang: string, value: string, byPath: AliasIndex): string | null {
+  if (!aliasTarget(value, byPath)) return null
+  const next = new Map(byPath).set(keyPath, { lang_values: { ...byPath.get(keyPath)?.lang_values, [lang]: value } })
+  return aliasProblemMessage(keyPath, resolveAlias(keyPath, lang, next))
+}
+
+// Copies with every alias replaced by the text it resolves to, for formats that have no
+// references. Circular aliases become missing values
+export function resolveAliases(translations: Translation[], languages: string[]): Translation[] {
+  const byPath = new Map(translations.map((t) => [t.key_path, t]))
+
+  return translations.map((t) => {
+    const aliased = languages.filter((lang) => aliasTarget(getLangValue(t.lang_values, lang), byPath))
+    if (aliased.length === 0) return t
+    const langValues = { ...t.lang_values }
+    for (const lang of aliased) langValues[lang] = resolveTokenValue(t.key_path, lang, byPath)
+    return { ...t, lang_values: langValues }
+  })
+}
+
+function retargetedValues(t: Translation, moves: Map<string, string>): [string, string][] {
+  return Object.entries(t.lang_values ?? {}).flatMap(([lang, value]): [string, string][] => {
+    const to = moves.get(referencedPath(value) ?? '')
+    return to === undefined ? [] : [[lang, aliasValue(to)]]
+  })
+}
+
+// Plural/select forms are rewritten the same way, per language
+function retargetedForms(t: Translation, moves: Map<string, string>): [string, Variants][] {
+  return Object.entries(t.lang_variants ?? {}).flatMap(([lang, forms]): [string, Variants][] => {
+    const next = Object.fromEntries(
+      Object.entries(forms).map(([category, text]) => {
+        const to = moves.get(referencedPath(text) ?? '')
+        return [category, to === undefined ? text : aliasValue(to)]
+      }),
+    )
+    return Object.keys(next).some((category) => next[category] !== forms[category]) ? [[lang, next]] : []
+  })
+}
+
+// Mirrors the retarget_aliases trigger (supabase-setup.sql) after keys move from one path to
+// another: aliases follow them and the rewritten languages go back to draft. A value naming a
+// moved key was an alias by definition, since that key existed
+export function retargetAliases(translations: Translation[], moves: Map<string, string>): Translation[] {
+  if (moves.size === 0) return translations
+
+  return translations.map((t) => {
+    const values = retargetedValues(t, moves)
+    const forms = retargetedForms(t, moves)
+    if (values.length === 0 && forms.length === 0) return t
+    const languages = new Set([...values, ...forms].map(([lang]) => lang))
+    return {
+      ...t,
+      lang_values: { ...t.lang_values, ...Object.fromEntries(values) },
+      lang_variants: { ...t.lang_variants, ...Object.fromEntries(forms) },
+      lang_status: [...languages].reduce(withoutStatus, t.lang_status),
+    }
+  })
+}
+
+// The same rewrite as edits, for keys that are deleted rather than renamed
+export function planAliasRetargets(translations: Translation[], moves: Map<string, string>): ValueEdit[] {
+  return translations.flatMap((t) => {
+    const base = { translationId: t.id, keyPath: t.key_path }
+    const forms = retargetedForms(t, moves)
+    // Saving the forms also sets the language's value to their "other" form
+    const withForms = new Set(forms.map(([lang]) => lang))
+    return [
+      ...forms.map(([lang, variants]): ValueEdit => ({
+        ...base,
+        language: lang,
+        field: 'variants',
+        from: JSON.stringify(t.lang_variants[lang]),
+        to: JSON.stringify(variants),
+      })),
+      ...retargetedValues(t, moves)
+        .filter(([lang]) => !withForms.has(lang))
+        .map(([lang, to]): ValueEdit => ({ ...base, language: lang, field: 'value', from: getLangValue(t.lang_values, lang), to })),
+    ]
+  })
+}
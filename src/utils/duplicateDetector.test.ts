@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import type { DuplicateGroup } from '../types'
+import { findDuplicateValues, findSimilarValues, normalizeValue, planMerge } from './duplicateDetector'
+import { toTranslation } from './__fixtures__/upload'
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    prev = row
+  }
+  return prev[b.length]
+}
+
+function rows(values: Record<string, Record<string, string>>) {
+  return Object.entries(values).map(([keyPath, langValues], i) =>
+    toTranslation({ key_path: keyPath, lang_values: langValues, token_type: null, figma_variable_id: null, description: null, extensions: {} }, i),
+  )
+}
+
+const summary = (found: DuplicateGroup[]) => found.map((g) => ({ kind: g.kind, language: g.language, keyPaths: g.keyPaths }))
+const groups = (translations: ReturnType<typeof rows>, languages: string[]) => summary(findDuplicateValues(translations, languages))
+
+describe('findDuplicateValues', () => {
+  it('groups equal values per language', () => {
+    const translations = rows({
+      'a.ok': { en: 'OK', de: 'OK' },
+      'b.ok': { en: 'OK', de: 'Gut' },
+      'c.cancel': { en: 'Cancel', de: 'Abbrechen' },
+    })
+
+    expect(groups(translations, ['en', 'de'])).toStrictEqual([{ kind: 'exact', language: 'en', keyPaths: ['a.ok', 'b.ok'] }])
+  })
+
+  it('reports values that only differ in case, spacing or punctuation separately', () => {
+    const translations = rows({ a: { en: 'Save' }, b: { en: 'save!' }, c: { en: ' SAVE ' } })
+
+    expect(groups(translations, ['en'])).toStrictEqual([{ kind: 'normalized', language: 'en', keyPaths: ['a', 'b', 'c'] }])
+  })
+
+  it('leaves similar values to findSimilarValues', () => {
+    const translations = rows({ a: { en: 'Delete project' }, b: { en: 'Delete projects' } })
+
+    expect(groups(translations, ['en'])).toStrictEqual([])
+  })
+
+  it('reports keys equal in every language once more as merge candidates', () => {
+    const translations = rows({ a: { en: 'OK', de: 'OK' }, b: { en: 'OK', de: 'OK' }, c: { en: 'OK' } })
+
+    expect(groups(translations, ['en', 'de'])).toStrictEqual([
+      { kind: 'exact', language: 'en', keyPaths: ['a', 'b', 'c'] },
+      { kind: 'exact', language: 'de', keyPaths: ['a', 'b'] },
+      { kind: 'all_languages', language: null, keyPaths: ['a', 'b'] },
+    ])
+  })
+
+  it('ignores empty values and aliases', () => {
+    const translations = rows({ a: { en: '' }, b: { en: '  ' }, c: { en: '{common.ok}' }, d: { en: '{common.ok}' }, 'common.ok': { en: 'OK' } })
+
+    expect(groups(translations, ['en'])).toStrictEqual([])
+  })
+
+  it('compares placeholder-only values that name no key like any other text', () => {
+    const translations = rows({ a: { en: '{count}' }, b: { en: '{count}' } })
+
+    expect(groups(translations, ['en'])).toStrictEqual([
+      { kind: 'exact', language: 'en', keyPaths: ['a', 'b'] },
+      { kind: 'all_languages', language: null, keyPaths: ['a', 'b'] },
+    ])
+  })
+
+  it('puts every key with a repeated value in exactly one exact group per language', () => {
+    fc.assert(
+      fc.property(fc.array(fc.constantFrom('OK', 'Cancel', 'Save', 'Delete', 'Done'), { maxLength: 30 }), (values) => {
+        const translations = rows(Object.fromEntries(values.map((v, i) => [`key${i}`, { en: v }])))
+        const exact = findDuplicateValues(translations, ['en']).filter((g) => g.kind === 'exact')
+
+        for (const [i, v] of values.entries()) {
+          const containing = exact.filter((g) => g.keyPaths.includes(`key${i}`))
+          expect(containing).toHaveLength(values.filter((other) => other === v).length > 1 ? 1 : 0)
+        }
+      }),
+    )
+  })
+})
+
+describe('findSimilarValues', () => {
+  it('finds similar values above the threshold only', () => {
+    const translations = rows({ a: { en: 'Delete project' }, b: { en: 'Delete projects' }, c: { en: 'Rename project' } })
+
+    expect(summary(findSimilarValues(translations, ['en'], 0.9))).toStrictEqual([{ kind: 'similar', language: 'en', keyPaths: ['a', 'b'] }])
+    expect(findSimilarValues(translations, ['en'], 0.99)).toStrictEqual([])
+  })
+
+  it('skips values that normalize to the same text', () => {
+    const translations = rows({ a: { en: 'Delete project' }, b: { en: 'delete project!' } })
+
+    expect(findSimilarValues(translations, ['en'])).toStrictEqual([])
+  })
+
+  it('groups the same keys as comparing every pair', () => {
+    const word = fc.constantFrom('save', 'saved', 'delete', 'project', 'projects', 'file', 'files', 'open', 'opens')
+    fc.assert(
+      fc.property(fc.array(fc.array(word, { minLength: 1, maxLength: 3 }).map((w) => w.join(' ')), { maxLength: 25 }), fc.constantFrom(0.6, 0.75, 0.9), (values, threshold) => {
+        const translations = rows(Object.fromEntries(values.map((v, i) => [`key${i}`, { en: v }])))
+        const found = findSimilarValues(translations, ['en'], threshold).map((g) => [...g.keyPaths].sort())
+
+        const normalized = values.map(normalizeValue)
+        for (const [i, a] of normalized.entries()) {
+          for (const [j, b] of normalized.entries()) {
+            if (i >= j || a === b || a.length < 5 || b.length < 5) continue
+            if (levenshtein(a, b) <= Math.floor((1 - threshold) * Math.max(a.length, b.length))) {
+              expect(found.some((g) => g.includes(`key${i}`) && g.includes(`key${j}`))).toBe(true)
+            }
+          }
+        }
+      }),
+    )
+  })
+})
+
+describe('normalizeValue', () => {
+  it('is stable once applied', () => {
+    fc.assert(
+      fc.property(fc.string(), (value) => {
+        expect(normalizeValue(normalizeValue(value))).toBe(normalizeValue(value))
+      }),
+    )
+  })
+})
+
+describe('planMerge', () => {
+  it('fills only the values the kept key is missing', () => {
+    const [keep, other] = rows({ keep: { en: 'OK' }, other: { en: 'Okay', de: 'OK' } })
+
+    expect(planMerge(keep, [other], ['en', 'de'])).toStrictEqual([
+      { translationId: keep.id, keyPath: 'keep', language: 'de', field: 'value', from: null, to: 'OK' },
+    ])
+  })
+})
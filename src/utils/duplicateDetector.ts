@@ -1,28 +1,291 @@
-import type { Translation, DuplicateGroup } from '../types'
+import type { Translation, DuplicateGroup, DuplicateKind } from '../types'
+import { getLangValue } from './languages'
+import type { ValueEdit } from './bulkEdits'
+import { aliasTarget, aliasValue } from './designTokens'
 
-export function findDuplicateValues(translations: Translation[]): DuplicateGroup[] {
-  const duplicates: DuplicateGroup[] = []
-  const languages = ['az', 'en', 'ru'] as const
+export const DEFAULT_SIMILARITY = 0.85
 
-  for (const lang of languages) {
-    const valueKey = `${lang}_value` as const
-    const valueMap = new Map<string, string[]>()
+// Short strings are too alike to compare fuzzily ("Yes" vs "Yet"), long ones too slow
+const FUZZY_MIN_LENGTH = 5
+const FUZZY_MAX_LENGTH = 200
 
-    for (const t of translations) {
-      const val = t[valueKey]
-      if (!val || val.trim() === '') continue
+export const DUPLICATE_KIND_LABELS: Record<DuplicateKind, string> = {
+  exact: 'Duplicate value',
+  normalized: 'Same value apart from case, spacing or punctuation',
+  similar: 'Similar values',
+  all_languages: 'Same in every language',
+}
+
+export function duplicateGroupId(group: DuplicateGroup): string {
+  return `${group.kind}::${group.language ?? '*'}::${group.value}`
+}
 
-      const existing = valueMap.get(val) || []
-      existing.push(t.key_path)
-      valueMap.set(val, existing)
+// "Save ", "save" and "Save!" all become "save"
+export function normalizeValue(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Levenshtein distance, or null once it is certain to exceed `max`
+function boundedDistance(a: string, b: string, max: number): number | null {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let best = i
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      best = Math.min(best, row[j])
     }
+    if (best > max) return null
+    prev = row
+  }
+
+  return prev[b.length] <= max ? prev[b.length] : null
+}
+
+function pushGroups(
+  groups: DuplicateGroup[],
+  kind: DuplicateKind,
+  language: string | null,
+  buckets: Iterable<[string, string[]]>,
+) {
+  for (const [value, keyPaths] of buckets) {
+    if (keyPaths.length > 1) groups.push({ kind, value, language, keyPaths })
+  }
+}
+
+function bigramCounts(value: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2)
+    counts.set(gram, (counts.get(gram) ?? 0) + 1)
+  }
+  return counts
+}
+
+// Buckets of normalized values whose texts are within `threshold` of each other, joined
+// transitively. Values are sorted by length so each one is only compared with values short
+// enough to still reach the threshold, and only with those sharing enough two-letter pieces:
+// one edit changes at most two of them, so values with fewer in common cannot be close enough
+function similarBuckets(normalized: Iterable<string>, threshold: number): string[][] {
+  const values = [...normalized]
+    .filter((v) => v.length >= FUZZY_MIN_LENGTH && v.length <= FUZZY_MAX_LENGTH)
+    .sort((a, b) => a.length - b.length)
+  const parent = values.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  // bigram → indexes of shorter values with it and how often they have it, side by side
+  const index = new Map<string, { ids: number[]; counts: number[] }>()
+  const shared = new Int32Array(values.length)
+  let first = 0
 
-    for (const [value, keyPaths] of valueMap) {
-      if (keyPaths.length > 1) {
-        duplicates.push({ value, language: lang, keyPaths })
+  for (let j = 0; j < values.length; j++) {
+    const longest = values[j].length
+    const max = Math.floor((1 - threshold) * longest)
+    const needed = longest - 1 - 2 * max
+    const grams = bigramCounts(values[j])
+    // Shorter values out of reach now are out of reach for every longer value too
+    while (longest - values[first].length > max) first++
+
+    const touched: number[] = []
+    for (const [gram, count] of grams) {
+      const postings = index.get(gram)
+      if (!postings) continue
+      for (let p = postings.ids.length - 1; p >= 0 && postings.ids[p] >= first; p--) {
+        const i = postings.ids[p]
+        if (shared[i] === 0) touched.push(i)
+        shared[i] += Math.min(count, postings.counts[p])
+      }
+    }
+    // Short values at a low threshold need nothing in common, so every one in reach is a candidate
+    const candidates = needed > 0 ? touched : Array.from({ length: j - first }, (_, k) => first + k)
+    for (const i of candidates) {
+      if (shared[i] >= needed && find(i) !== find(j) && boundedDistance(values[i], values[j], max) !== null) {
+        parent[find(j)] = find(i)
       }
     }
+    for (const i of touched) shared[i] = 0
+
+    for (const [gram, count] of grams) {
+      const postings = index.get(gram) ?? { ids: [], counts: [] }
+      postings.ids.push(j)
+      postings.counts.push(count)
+      index.set(gram, postings)
+    }
   }
 
+  const clusters = new Map<number, string[]>()
+  values.forEach((v, i) => clusters.set(find(i), [...(clusters.get(find(i)) ?? []), v]))
+  return [...clusters.values()].filter((c) => c.length > 1)
+}
+
+// One language's values by their normalized form (normalized → raw value → key paths).
+// Aliases are how duplicates get resolved, so keys pointing at the same key never count
+function valuesByNormalized(translations: Translation[], lang: string, byPath: Map<string, Translation>) {
+  const valueMap = new Map<string, string[]>()
+  const normalizedMap = new Map<string, Map<string, string[]>>()
+
+  for (const t of translations) {
+    const val = getLangValue(t.lang_values, lang)
+    if (!val || val.trim() === '' || aliasTarget(val, byPath)) continue
+
+    const existing = valueMap.get(val) || []
+    existing.push(t.key_path)
+    valueMap.set(val, existing)
+
+    const normalized = normalizeValue(val)
+    if (!normalized) continue
+    const raw = normalizedMap.get(normalized) ?? new Map<string, string[]>()
+    raw.set(val, existing)
+    normalizedMap.set(normalized, raw)
+  }
+
+  return { valueMap, normalizedMap }
+}
+
+// Exact matches per language, then matches that only differ in case, spacing or punctuation.
+// Normalized groups only cover values the exact ones missed, and keys equal in every
+// language are reported once as merge candidates. Fuzzy matches are far slower, so they
+// come from findSimilarValues when asked for
+export function findDuplicateValues(translations: Translation[], languages: string[]): DuplicateGroup[] {
+  const duplicates: DuplicateGroup[] = []
+  const byPath = new Map(translations.map((t) => [t.key_path, t]))
+
+  for (const lang of languages) {
+    const { valueMap, normalizedMap } = valuesByNormalized(translations, lang, byPath)
+
+    pushGroups(duplicates, 'exact', lang, valueMap)
+
+    pushGroups(
+      duplicates,
+      'normalized',
+      lang,
+      [...normalizedMap.values()]
+        .filter((raw) => raw.size > 1)
+        .map((raw): [string, string[]] => [[...raw.keys()][0], [...raw.values()].flat()]),
+    )
+  }
+
+  // Only keys with a value in every language count; otherwise any two empty keys would match
+  const everyLanguage = new Map<string, string[]>()
+  for (const t of translations) {
+    const values = languages.map((lang) => getLangValue(t.lang_values, lang))
+    if (values.some((v) => !v || v.trim() === '' || aliasTarget(v, byPath))) continue
+    const signature = JSON.stringify(values)
+    everyLanguage.set(signature, [...(everyLanguage.get(signature) ?? []), t.key_path])
+  }
+  pushGroups(
+    duplicates,
+    'all_languages',
+    null,
+    [...everyLanguage].map(([signature, keyPaths]): [string, string[]] => [JSON.parse(signature)[0], keyPaths]),
+  )
+
   return duplicates
 }
+
+// Values per language that are within `threshold` of each other without normalizing to the
+// same text
+export function findSimilarValues(
+  translations: Translation[],
+  languages: string[],
+  threshold: number = DEFAULT_SIMILARITY,
+): DuplicateGroup[] {
+  const similar: DuplicateGroup[] = []
+  const byPath = new Map(translations.map((t) => [t.key_path, t]))
+
+  for (const lang of languages) {
+    const { normalizedMap } = valuesByNormalized(translations, lang, byPath)
+    pushGroups(
+      similar,
+      'similar',
+      lang,
+      similarBuckets(normalizedMap.keys(), threshold).map((cluster): [string, string[]] => [
+        [...normalizedMap.get(cluster[0])!.keys()][0],
+        cluster.flatMap((v) => [...normalizedMap.get(v)!.values()].flat()),
+      ]),
+    )
+  }
+
+  return similar
+}
+
+// Values the kept key is missing, taken from the first removed key that has them
+export function planMerge(keep: Translation, removed: Translation[], languages: string[]): ValueEdit[] {
+  const edits: ValueEdit[] = []
+
+  for (const lang of languages) {
+    if (getLangValue(keep.lang_values, lang)) continue
+    const donor = removed.find((t) => getLangValue(t.lang_values, lang))
+    if (!donor) continue
+
+    const variants = donor.lang_variants?.[lang]
+    if (keep.variant_kind && donor.variant_kind === keep.variant_kind && variants) {
+      const current = keep.lang_variants?.[lang]
+      edits.push({
+        translationId: keep.id,
+        keyPath: keep.key_path,
+        language: lang,
+        field: 'variants',
+        from: current ? JSON.stringify(current) : null,
+        to: JSON.stringify(variants),
+      })
+    } else {
+      edits.push({
+        translationId: keep.id,
+        keyPath: keep.key_path,
+        language: lang,
+        field: 'value',
+        from: getLangValue(keep.lang_values, lang),
+        to: getLangValue(donor.lang_values, lang),
+      })
+    }
+  }
+
+  return edits
+}
+
+// The kept key first takes any values it is missing, as in a merge; the others then point at
+// it in every language instead of being deleted. Keys with plural or select forms can't be
+// aliases and are left out by the caller
+export function planAliasConversion(keep: Translation, aliased: Translation[], languages: string[]): ValueEdit[] {
+  const alias = aliasValue(keep.key_path)
+  const edits = planMerge(keep, aliased, languages)
+
+  for (const t of aliased) {
+    for (const lang of languages) {
+      const value = getLangValue(t.lang_values, lang)
+      if (value === alias) continue
+      edits.push({ translationId: t.id, keyPath: t.key_path, language: lang, field: 'value', from: value, to: alias })
+    }
+  }
+
+  return edits
+}
+
+export interface KeyReference {
+  keyPath: string
+  language: string
+}
+
+// Values that nest `keyPath` the way i18n libraries do: i18next's $t(home.title) and
+// vue-i18n's @:home.title or @.lower:home.title. Braces are left out since {name} is a placeholder
+export function findKeyReferences(translations: Translation[], keyPath: string): KeyReference[] {
+  const escaped = keyPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = new RegExp(`(?:\\$t\\(\\s*['"]?|@(?:\\.\\w+)?:)${escaped}(?![\\w-]|\\.\\w)`)
+  const references: KeyReference[] = []
+
+  for (const t of translations) {
+    if (t.key_path === keyPath) continue
+    for (const [language, value] of Object.entries(t.lang_values ?? {})) {
+      const forms = Object.values(t.lang_variants?.[language] ?? {})
+      if ([value, ...forms].some((text) => text && pattern.test(text))) references.push({ keyPath: t.key_path, language })
+    }
+  }
+
+  return references
+}
@@ -0,0 +1,155 @@
+import type { ChangeSource, Translation, Variants } from '../types'
+import { supabase } from '../supabaseClient'
+import { recordHistory } from './history'
+import { applyEditPlan, currentValue, planValueEdits } from './bulkEdits'
+import type { ValueEdit } from './bulkEdits'
+
+const DB_NAME = 'translation-edits'
+const STORE = 'edits'
+// How often a save is retried when the key changed between reading and writing it
+const SAVE_ATTEMPTS = 3
+
+export type QueuedEditState = 'pending' | 'failed' | 'conflict'
+
+// A cell edit kept in the browser until the server has it. `from` is the value the edit was
+// made on; if the server no longer has it, someone else changed the cell meanwhile
+export interface QueuedEdit extends ValueEdit {
+  // A timestamp, so edits keep their order across visits
+  id: number
+  projectId: string
+  userId: string
+  source: ChangeSource
+  state: QueuedEditState
+  error: string | null
+  // The server's value once it no longer matches `from`
+  theirs: string | null
+}
+
+export type SendResult =
+  | { status: 'saved'; row: Translation }
+  | { status: 'offline' }
+  | { status: 'conflict'; theirs: string | null }
+  | { status: 'failed'; error: string }
+
+let database: Promise<IDBDatabase> | null = null
+let lastId = 0
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return database
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Without storage (blocked, or a private window in some browsers) the queue still works until
+// the page is closed, so failures to read or write it are ignored
+
+// Edits this account left in this browser, oldest first
+export async function loadQueuedEdits(projectId: string, userId: string): Promise<QueuedEdit[]> {
+  try {
+    const all = await withStore<QueuedEdit[]>('readonly', (store) => store.getAll())
+    lastId = Math.max(lastId, ...all.map((e) => e.id))
+    return all.filter((e) => e.projectId === projectId && e.userId === userId).sort((a, b) => a.id - b.id)
+  } catch {
+    return []
+  }
+}
+
+export function newQueuedEdit(edit: Omit<QueuedEdit, 'id'>): QueuedEdit {
+  lastId = Math.max(Date.now(), lastId + 1)
+  return { ...edit, id: lastId }
+}
+
+export async function putQueuedEdit(edit: QueuedEdit) {
+  try {
+    await withStore('readwrite', (store) => store.put(edit))
+  } catch {
+    // The queue in memory is still up to date
+  }
+}
+
+export async function removeQueuedEdit(id: number) {
+  try {
+    await withStore('readwrite', (store) => store.delete(id))
+  } catch {
+    // The queue in memory is still up to date
+  }
+}
+
+export function isSameCell(a: Pick<ValueEdit, 'translationId' | 'field' | 'language'>, b: Pick<ValueEdit, 'translationId' | 'field' | 'language'>) {
+  return a.translationId === b.translationId && a.field === b.field && a.language === b.language
+}
+
+// Forms compare by content; the database may hand them back with their keys in another order
+export function sameCellValue(field: ValueEdit['field'], a: string | null, b: string | null): boolean {
+  if (field === 'value' || a === null || b === null) return a === b
+  const left = JSON.parse(a) as Variants
+  const right = JSON.parse(b) as Variants
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return [...keys].every((k) => left[k] === right[k])
+}
+
+// What the table shows: the server's row with the edits still on their way laid over it
+export function withQueuedEdits(t: Translation, edits: QueuedEdit[]): Translation {
+  const mine = edits.filter((e) => e.translationId === t.id)
+  if (mine.length === 0) return t
+  return applyEditPlan([t], planValueEdits([t], mine.map((e) => ({ ...e, from: currentValue(t, e) }))))[0]
+}
+
+// Writes one edit if the cell still holds the value it was made on. The row is only updated
+// if nobody saved it between reading and writing (updated_at is unchanged); otherwise it is
+// read again
+export async function sendQueuedEdit(edit: QueuedEdit, attempt = 1): Promise<SendResult> {
+  const { data: row, error, status } = await supabase.from('translations').select('*').eq('id', edit.translationId).maybeSingle()
+  if (status === 0) return { status: 'offline' }
+  if (error) return { status: 'failed', error: error.message }
+  if (!row) return { status: 'failed', error: 'The key was deleted' }
+
+  const server = row as Translation
+  const theirs = currentValue(server, edit)
+  if (!sameCellValue(edit.field, theirs, edit.from)) {
+    return sameCellValue(edit.field, theirs, edit.to) ? { status: 'saved', row: server } : { status: 'conflict', theirs }
+  }
+
+  const plan = planValueEdits([server], [{ ...edit, from: theirs }])
+  const { data: updated, error: updateError, status: updateStatus } = await supabase
+    .from('translations')
+    .update(plan.patches[0].patch)
+    .eq('id', server.id)
+    .eq('updated_at', server.updated_at)
+    .select()
+
+  if (updateStatus === 0) return { status: 'offline' }
+  if (updateError) return { status: 'failed', error: updateError.message }
+  if (!updated || updated.length === 0) {
+    return attempt < SAVE_ATTEMPTS
+      ? sendQueuedEdit(edit, attempt + 1)
+      : { status: 'failed', error: 'The key kept changing while saving' }
+  }
+
+  try {
+    await recordHistory(edit.projectId, [{
+      translation_id: edit.translationId,
+      key_path: server.key_path,
+      field: edit.field,
+      language: edit.language,
+      old_value: theirs,
+      new_value: edit.to,
+    }], edit.source)
+  } catch {
+    // The edit itself succeeded; a missing history entry should not undo it
+  }
+  return { status: 'saved', row: updated[0] as Translation }
+}
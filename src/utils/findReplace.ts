@@ -0,0 +1,137 @@
+import type { Translation } from '../types'
+import { getLangValue } from './languages'
+import type { ValueEdit } from './bulkEdits'
+
+export interface FindOptions {
+  query: string
+  replacement: string
+  caseSensitive: boolean
+  wholeWord: boolean
+  regex: boolean
+}
+
+// A run of text that is either untouched or one replaced match
+export interface DiffSegment {
+  text: string
+  replacement?: string
+}
+
+export interface FormChange {
+  // Plural or select category, null for plain values
+  category: string | null
+  before: string
+  after: string
+  segments: DiffSegment[]
+}
+
+export interface ReplaceChange {
+  translationId: string
+  keyPath: string
+  language: string
+  forms: FormChange[]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// \b only knows ASCII letters, which would match "Kart" inside "Kartı"
+export function buildPattern(options: FindOptions): RegExp | string {
+  if (!options.query) return 'Enter text to find'
+  const source = options.regex ? options.query : escapeRegExp(options.query)
+  const bounded = options.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source
+
+  try {
+    return new RegExp(bounded, options.caseSensitive ? 'gu' : 'giu')
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid pattern'
+  }
+}
+
+// Same $-substitutions as String.prototype.replace: $$, $&, $1…$99 and $<name>
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, what: string, name?: string) => {
+    if (what === '$') return '$'
+    if (what === '&') return match[0]
+    if (name !== undefined) return match.groups?.[name] ?? ''
+    const index = Number(what)
+    return index > 0 && index < match.length ? (match[index] ?? '') : token
+  })
+}
+
+function replaceInText(text: string, pattern: RegExp, options: FindOptions): FormChange | null {
+  const segments: DiffSegment[] = []
+  let after = ''
+  let last = 0
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[0] === '') continue
+    const replacement = options.regex ? expandReplacement(options.replacement, match as RegExpExecArray) : options.replacement
+    if (match.index > last) segments.push({ text: text.slice(last, match.index) })
+    segments.push({ text: match[0], replacement })
+    after += text.slice(last, match.index) + replacement
+    last = match.index + match[0].length
+  }
+
+  if (segments.length === 0) return null
+  if (last < text.length) segments.push({ text: text.slice(last) })
+  after += text.slice(last)
+  return after === text ? null : { category: null, before: text, after, segments }
+}
+
+export function findReplacements(
+  translations: Translation[],
+  languages: string[],
+  options: FindOptions,
+): ReplaceChange[] | string {
+  const pattern = buildPattern(options)
+  if (typeof pattern === 'string') return pattern
+
+  const changes: ReplaceChange[] = []
+  for (const t of translations) {
+    for (const lang of languages) {
+      const forms: FormChange[] = []
+      const variants = t.variant_kind ? t.lang_variants?.[lang] : undefined
+
+      if (variants) {
+        for (const [category, text] of Object.entries(variants)) {
+          const change = replaceInText(text, pattern, options)
+          if (change) forms.push({ ...change, category })
+        }
+      } else {
+        const value = getLangValue(t.lang_values, lang)
+        const change = value ? replaceInText(value, pattern, options) : null
+        if (change) forms.push(change)
+      }
+
+      if (forms.length > 0) changes.push({ translationId: t.id, keyPath: t.key_path, language: lang, forms })
+    }
+  }
+  return changes
+}
+
+export function changeKey(change: ReplaceChange): string {
+  return `${change.translationId}::${change.language}`
+}
+
+export function toValueEdits(translations: Translation[], changes: ReplaceChange[]): ValueEdit[] {
+  const byId = new Map(translations.map((t) => [t.id, t]))
+
+  return changes.flatMap((change): ValueEdit[] => {
+    const t = byId.get(change.translationId)
+    if (!t) return []
+    const base = { translationId: t.id, keyPath: t.key_path, language: change.language }
+
+    if (change.forms[0].category === null) {
+      return [{ ...base, field: 'value', from: change.forms[0].before, to: change.forms[0].after }]
+    }
+    const variants = { ...t.lang_variants[change.language] }
+    for (const form of change.forms) variants[form.category ?? 'other'] = form.after
+    return [{
+      ...base,
+      field: 'variants',
+      from: JSON.stringify(t.lang_variants[change.language]),
+      to: JSON.stringify(variants),
+    }]
+  })
+}
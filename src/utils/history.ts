@@ -0,0 +1,50 @@
+import type { ChangeSource, HistoryEntry, HistoryField } from '../types'
+import { supabase } from '../supabaseClient'
+import { languageLabel } from './languages'
+
+export type HistoryChange = Pick<
+  HistoryEntry,
+  'translation_id' | 'key_path' | 'field' | 'language' | 'old_value' | 'new_value'
+>
+
+const INSERT_BATCH_SIZE = 500
+
+export function historyFieldLabel(field: HistoryField, language: string | null): string {
+  if (field === 'value') return `${languageLabel(language ?? '')} value`
+  if (field === 'variants') return `${languageLabel(language ?? '')} plural/select forms`
+  if (field === 'key_path') return 'Key path'
+  if (field === 'token_type') return 'Token type'
+  if (field === 'description') return 'Description'
+  if (field === 'extensions') return 'Extensions'
+  return 'Figma variable ID'
+}
+
+export const SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: 'Manual edit',
+  upload: 'Upload',
+  bulk: 'Bulk action',
+  revert: 'Revert',
+}
+
+export async function recordHistory(
+  projectId: string,
+  changes: HistoryChange[],
+  source: ChangeSource,
+  importId: string | null = null,
+) {
+  // changed_by is stamped by the database from the signed-in account
+  const rows = changes.map((c) => ({
+    ...c,
+    project_id: projectId,
+    import_id: importId,
+    source,
+  }))
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('translation_history')
+      .insert(rows.slice(i, i + INSERT_BATCH_SIZE))
+
+    if (error) throw error
+  }
+}
@@ -0,0 +1,233 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest'
+import type { LangValues, Project } from '../types'
+import { parseImportFile, resolveImportedKeys } from './importers'
+import type { ParsedImport } from './importers'
+import { androidResourceNames, buildAndroidStrings, buildIosStrings } from './platformExport'
+import { buildPoFile, buildXliff } from './webExport'
+import { toCsv } from './csv'
+import { token } from './__fixtures__/translations'
+
+const project: Project = {
+  id: 'p1',
+  name: 'App',
+  languages: ['en', 'de'],
+  source_language: 'en',
+  key_rules: {},
+  created_at: '2024-01-01T00:00:00Z',
+}
+
+function values(parsed: ParsedImport): [string, LangValues][] {
+  return parsed.rows.map((r) => [r.key_path, r.lang_values])
+}
+
+describe('XLIFF import', () => {
+  it('reads XLIFF 2.0 units by name, with both languages on the multi-language drop', () => {
+    const xliff = `<?xml version="1.0"?>
+<xliff version="2.0" srcLang="en" trgLang="de">
+  <file id="f1">
+    <unit id="u1" name="home.title">
+      <segment><source>Fish &amp; &lt;chips&gt;</source><target>Fisch &amp; Pommes</target></segment>
+    </unit>
+    <unit id="u2" name="home.body">
+      <segment><source>Body</source></segment>
+    </unit>
+  </file>
+</xliff>`
+
+    expect(values(parseImportFile('app.xlf', xliff, null, project))).toStrictEqual([
+      ['home.title', { en: 'Fish & <chips>', de: 'Fisch & Pommes' }],
+      ['home.body', { en: 'Body' }],
+    ])
+    // Dropped on a language, only the target is read
+    expect(values(parseImportFile('app.xlf', xliff, 'de', project))).toStrictEqual([
+      ['home.title', { de: 'Fisch & Pommes' }],
+    ])
+  })
+
+  it('reads XLIFF 1.2 trans-units by resname, falling back to id', () => {
+    const xliff = `<?xml version="1.0"?>
+<xliff version="1.2">
+  <file source-language="en" target-language="de" original="app">
+    <body>
+      <trans-unit id="1" resname="home.title"><source>Hi</source><target>Hallo</target></trans-unit>
+      <trans-unit id="home.body"><source>Body</source><target>Text</target></trans-unit>
+    </body>
+  </file>
+</xliff>`
+
+    expect(values(parseImportFile('app.xliff', xliff, null, project))).toStrictEqual([
+      ['home.title', { en: 'Hi', de: 'Hallo' }],
+      ['home.body', { en: 'Body', de: 'Text' }],
+    ])
+  })
+
+  it('rejects files for languages outside the project and invalid XML', () => {
+    const french = '<xliff version="2.0" srcLang="en" trgLang="fr"><file id="f"/></xliff>'
+    expect(() => parseImportFile('fr.xlf', french, null, project)).toThrow('fr.xlf targets fr, which is not in this project')
+    expect(() => parseImportFile('bad.xlf', '<xliff>', 'de', project)).toThrow('Invalid XML in bad.xlf')
+  })
+
+  it('reads back what the exporter wrote', () => {
+    const t = token('home.title', { en: 'Fish & <b>chips</b>', de: 'Fisch "Pommes"' })
+    const xliff = buildXliff([t], 'en', 'de', 'app.xlf')
+    expect(values(parseImportFile('app.xlf', xliff, null, project))).toStrictEqual([['home.title', t.lang_values]])
+  })
+})
+
+describe('gettext import', () => {
+  it('keys entries by msgctxt or msgid and unescapes continued strings', () => {
+    const po = [
+      '# Translator comment',
+      'msgid ""',
+      'msgstr "Language: de\\n"',
+      '',
+      '#, fuzzy',
+      'msgctxt "home.title"',
+      'msgid "Hello"',
+      'msgstr ""',
+      '"Hallo \\"du\\"\\n"',
+      '"zweite Zeile\\tEnde\\\\"',
+      '',
+      'msgid "home.body"',
+      'msgstr "Text"',
+      'msgid "home.next"',
+      'msgstr "Weiter"',
+      '',
+      'msgctxt "home.empty"',
+      'msgid "Empty"',
+      'msgstr ""',
+      '',
+      '#~ msgctxt "home.old"',
+      '#~ msgid "Old"',
+      '#~ msgstr "Alt"',
+    ].join('\n')
+
+    expect(values(parseImportFile('de.po', po, 'de', project))).toStrictEqual([
+      ['home.title', { de: 'Hallo "du"\nzweite Zeile\tEnde\\' }],
+      ['home.body', { de: 'Text' }],
+      ['home.next', { de: 'Weiter' }],
+    ])
+  })
+
+  it('takes the first plural form', () => {
+    const po = [
+      'msgctxt "cart.items"',
+      'msgid "One item"',
+      'msgid_plural "{count} items"',
+      'msgstr[0] "Ein Artikel"',
+      'msgstr[1] "{count} Artikel"',
+    ].join('\r\n')
+
+    expect(values(parseImportFile('de.po', po, 'de', project))).toStrictEqual([['cart.items', { de: 'Ein Artikel' }]])
+  })
+
+  it('needs to be dropped on a language', () => {
+    expect(() => parseImportFile('de.po', '', null, project)).toThrow('gettext PO files hold one language; drop de.po on that language')
+  })
+
+  it('reads back what the exporter wrote', () => {
+    const t = token('home.quote', { en: 'Say "hi"', de: 'Sag "hallo"\\\nund\ttschüss' })
+    const po = buildPoFile([t], 'de', 'en')
+    expect(values(parseImportFile('de.po', po, 'de', project))).toStrictEqual([['home.quote', { de: t.lang_values.de }]])
+  })
+})
+
+describe('Android import', () => {
+  it('unescapes values, keeps quoted whitespace and skips untranslatable strings', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <string name="home_title">Don\\'t \\"stop\\"</string>
+    <string name="home_padded">"  two  spaces "</string>
+    <string name="home_collapsed">one
+        line</string>
+    <string name="home_escapes">a\\nb\\tc \\u00e9 \\@home &amp; &lt;b&gt;</string>
+    <string name="app_name" translatable="false">App</string>
+</resources>`
+
+    expect(values(parseImportFile('strings.xml', xml, 'en', project))).toStrictEqual([
+      ['home_title', { en: 'Don\'t "stop"' }],
+      ['home_padded', { en: '  two  spaces ' }],
+      ['home_collapsed', { en: 'one line' }],
+      ['home_escapes', { en: 'a\nb\tc é @home & <b>' }],
+    ])
+  })
+
+  it('rejects XML that is not a resource file', () => {
+    expect(() => parseImportFile('layout.xml', '<LinearLayout/>', 'en', project)).toThrow(
+      'layout.xml is not an Android string resource file',
+    )
+  })
+
+  it('maps resource names back to the key paths they were exported from', () => {
+    const current = [token('home.title', { en: "It's \"here\"" }), token('home_title', { en: '  padded' }, {}, 1)]
+    const xml = buildAndroidStrings(current, 'en', androidResourceNames(current).names)
+    const parsed = parseImportFile('strings.xml', xml, 'en', project)
+
+    expect(resolveImportedKeys([parsed], current, 'en').rows.map((r) => [r.key_path, r.lang_values])).toStrictEqual([
+      ['home.title', { en: "It's \"here\"" }],
+      ['home_title', { en: '  padded' }],
+    ])
+  })
+})
+
+describe('iOS import', () => {
+  it('reads "key" = "value"; pairs between comments and unescapes them', () => {
+    const strings = [
+      '/* Title on the home screen */',
+      '"home.title" = "Say \\"hi\\"\\n\\t\\U00e9";',
+      '// trailing comment',
+      '"home.body"="Text; with = signs";',
+    ].join('\n')
+
+    expect(values(parseImportFile('de.strings', strings, 'de', project))).toStrictEqual([
+      ['home.title', { de: 'Say "hi"\n\té' }],
+      ['home.body', { de: 'Text; with = signs' }],
+    ])
+  })
+
+  it.each([
+    ['"home.title" "Hi";', 'Malformed entry in bad.strings'],
+    ['"home.title" = ;', 'Malformed entry in bad.strings'],
+    ['home.title = "Hi";', 'Unexpected "h" in bad.strings'],
+  ])('rejects %j', (strings, message) => {
+    expect(() => parseImportFile('bad.strings', strings, 'de', project)).toThrow(message)
+  })
+
+  it('reads back what the exporter wrote', () => {
+    const t = token('home.quote', { de: 'Sag "hallo"\\\r\nund\ttschüss' })
+    expect(values(parseImportFile('de.strings', buildIosStrings([t], 'de'), 'de', project))).toStrictEqual([
+      ['home.quote', t.lang_values],
+    ])
+  })
+})
+
+describe('CSV import', () => {
+  it('reads quoted commas, quotes and newlines and leaves empty cells out', () => {
+    const csv = '\uFEFFkey,EN,de,notes\r\nhome.title,"Hello, ""you""","Hallo\ndu",ignored\r\nhome.body,Body,\r\n\r\n,orphan,\r\n'
+
+    expect(values(parseImportFile('sheet.csv', csv, null, project))).toStrictEqual([
+      ['home.title', { en: 'Hello, "you"', de: 'Hallo\ndu' }],
+      ['home.body', { en: 'Body' }],
+    ])
+  })
+
+  it('compares the source column of exported sheets instead of importing it', () => {
+    const csv = toCsv([
+      ['id', 'key_path', 'token_type', 'en', 'de'],
+      ['1', 'home.title', 'string', 'Hi, "old"', 'Hallo'],
+    ])
+    const [row] = parseImportFile('sheet.csv', csv, null, project).rows
+
+    expect(row.lang_values).toStrictEqual({ de: 'Hallo' })
+    expect(row.token_type).toBe('string')
+    expect(row.sheet).toStrictEqual({ id: '1', sourceText: 'Hi, "old"' })
+  })
+
+  it('needs a key column and a language column', () => {
+    expect(() => parseImportFile('sheet.csv', 'name,en\nx,y', null, project)).toThrow('sheet.csv has no key_path column')
+    expect(() => parseImportFile('sheet.csv', 'key,fr\nx,y', null, project)).toThrow(
+      "sheet.csv has no columns for this project's languages (en, de)",
+    )
+  })
+})
@@ -0,0 +1,410 @@
+import type { Project, Translation } from '../types'
+import { flattenJsons } from './jsonFlattener'
+import type { FlatRow, FlattenResult } from './jsonFlattener'
+import type { TokenFile } from './tokenValidator'
+import { androidResourceNames } from './platformExport'
+import { parseCsv } from './csv'
+import { readXlsx } from './xlsx'
+import { getLangValue } from './languages'
+import { SHEET_ID_COLUMN, SHEET_KEY_COLUMN, SHEET_TYPE_COLUMN } from './spreadsheet'
+
+export type ImportFormat = 'figma' | 'xliff' | 'po' | 'android' | 'ios' | 'csv' | 'xlsx'
+
+// Rows from a sheet exported by us carry the row id and the source text it was exported with
+export interface ImportedRow extends FlatRow {
+  sheet?: { id: string | null; sourceText: string | null }
+}
+
+export interface ParsedImport extends FlattenResult {
+  format: ImportFormat
+  rows: ImportedRow[]
+  // The parsed JSON of Figma files, kept for the upload validator
+  tokens?: TokenFile
+}
+
+export interface ImportReport {
+  // Sheet rows whose key was deleted since export; they are not imported
+  missing: string[]
+  sourceChanged: { keyPath: string; exported: string | null; current: string | null }[]
+}
+
+export interface ResolvedImport extends FlattenResult {
+  report: ImportReport
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  figma: 'Figma JSON',
+  xliff: 'XLIFF',
+  po: 'gettext PO',
+  android: 'Android strings.xml',
+  ios: 'iOS .strings',
+  csv: 'CSV',
+  xlsx: 'Excel workbook',
+}
+
+// Formats that hold a single language and need to be dropped on that language
+export const SINGLE_LANGUAGE_ACCEPT = '.json,.po,.xml,.strings,.xlf,.xliff'
+// Formats that carry their own language codes
+export const MULTI_LANGUAGE_ACCEPT = '.xlf,.xliff,.csv,.xlsx'
+
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop()
+  if (ext === 'json') return 'figma'
+  if (ext === 'xlf' || ext === 'xliff') return 'xliff'
+  if (ext === 'po') return 'po'
+  if (ext === 'xml') return 'android'
+  if (ext === 'strings') return 'ios'
+  if (ext === 'csv') return 'csv'
+  if (ext === 'xlsx') return 'xlsx'
+  return null
+}
+
+function rowsFromValues(lang: string, values: Map<string, string>): FlatRow[] {
+  return Array.from(values, ([key_path, value]) => ({
+    key_path,
+    lang_values: { [lang]: value },
+    token_type: null,
+    figma_variable_id: null,
+    description: null,
+    extensions: {},
+  }))
+}
+
+function parseXml(content: string, fileName: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${fileName}`)
+  }
+  return doc
+}
+
+// XLIFF 2.0 (<unit name>) and 1.2 (<trans-unit resname>). Our own export puts the key path in
+// name; files from other tools often only have an id, which is used as-is
+function parseXliff(content: string, fileName: string, lang: string | null, project: Project): FlatRow[] {
+  const doc = parseXml(content, fileName)
+  const root = doc.documentElement
+  const firstFile = doc.getElementsByTagName('file')[0]
+  const srcLang = root.getAttribute('srcLang') ?? firstFile?.getAttribute('source-language') ?? null
+  const trgLang = root.getAttribute('trgLang') ?? firstFile?.getAttribute('target-language') ?? null
+
+  // A file dropped on a language fills only that language
+  const targetLang = lang ?? trgLang
+  const sourceLang = lang ? null : srcLang
+
+  if (!targetLang || !project.languages.includes(targetLang)) {
+    throw new Error(`${fileName} targets ${targetLang ?? 'no language'}, which is not in this project`)
+  }
+
+  const rows: FlatRow[] = []
+  const units = [
+    ...Array.from(doc.getElementsByTagName('unit')),
+    ...Array.from(doc.getElementsByTagName('trans-unit')),
+  ]
+
+  for (const unit of units) {
+    const keyPath = unit.getAttribute('name') ?? unit.getAttribute('resname') ?? unit.getAttribute('id')
+    if (!keyPath) continue
+
+    const row: FlatRow = {
+      key_path: keyPath,
+      lang_values: {},
+      token_type: null,
+      figma_variable_id: null,
+      description: null,
+      extensions: {},
+    }
+    const source = unit.getElementsByTagName('source')[0]
+    const target = unit.getElementsByTagName('target')[0]
+
+    if (sourceLang && source && project.languages.includes(sourceLang)) {
+      row.lang_values[sourceLang] = source.textContent ?? ''
+    }
+    if (target && target.textContent) {
+      row.lang_values[targetLang] = target.textContent
+    }
+
+    if (Object.keys(row.lang_values).length > 0) rows.push(row)
+  }
+
+  return rows
+}
+
+function unescapePoString(value: string): string {
+  return value.replace(/\\(.)/g, (_, ch: string) => {
+    if (ch === 'n') return '\n'
+    if (ch === 't') return '\t'
+    if (ch === 'r') return '\r'
+    return ch
+  })
+}
+
+// Entries are keyed by msgctxt (where our export puts the key path), falling back to msgid.
+// Untranslated entries and obsolete (#~) entries are skipped
+function parsePo(content: string, lang: string): FlatRow[] {
+  const values = new Map<string, string>()
+  let entry: Record<string, string> = {}
+  let current: string | null = null
+
+  function flush() {
+    const key = entry.msgctxt ?? entry.msgid
+    if (key && entry.msgstr) values.set(key, entry.msgstr)
+    entry = {}
+    current = null
+  }
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+
+    if (line === '') {
+      flush()
+      continue
+    }
+    if (line.startsWith('#')) continue
+
+    const keyword = line.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+"(.*)"$/)
+    if (keyword) {
+      // A new msgctxt/msgid after a msgstr starts the next entry even without a blank line
+      if ((keyword[1] === 'msgctxt' || keyword[1] === 'msgid') && 'msgstr' in entry) flush()
+      current = keyword[1] === 'msgstr[0]' ? 'msgstr' : keyword[1]
+      entry[current] = unescapePoString(keyword[2])
+      continue
+    }
+
+    const continuation = line.match(/^"(.*)"$/)
+    if (continuation && current) entry[current] += unescapePoString(continuation[1])
+  }
+  flush()
+
+  return rowsFromValues(lang, values)
+}
+
+function unescapeAndroidString(raw: string): string {
+  let value = raw.trim()
+
+  // Quoted strings keep their whitespace; unquoted ones are collapsed like aapt does
+  if (/^"[\s\S]*"$/.test(value) && !/[^\\](\\\\)*\\"$/.test(value)) {
+    value = value.slice(1, -1)
+  } else {
+    value = value.replace(/\s+/g, ' ')
+  }
+
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, esc: string) => {
+    if (esc === 'n') return '\n'
+    if (esc === 't') return '\t'
+    if (esc.length === 5) return String.fromCharCode(parseInt(esc.slice(1), 16))
+    return esc
+  })
+}
+
+// Resource names are kept as key paths here; resolveImportedKeys maps them back to
+// existing key paths once the current translations are known
+function parseAndroid(content: string, fileName: string, lang: string): FlatRow[] {
+  const doc = parseXml(content, fileName)
+  if (doc.documentElement.tagName !== 'resources') {
+    throw new Error(`${fileName} is not an Android string resource file`)
+  }
+
+  const values = new Map<string, string>()
+  for (const el of Array.from(doc.getElementsByTagName('string'))) {
+    const name = el.getAttribute('name')
+    if (!name || el.getAttribute('translatable') === 'false') continue
+    values.set(name, unescapeAndroidString(el.textContent ?? ''))
+  }
+
+  return rowsFromValues(lang, values)
+}
+
+function unescapeIosString(value: string): string {
+  return value.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, esc: string) => {
+    if (esc === 'n') return '\n'
+    if (esc === 'r') return '\r'
+    if (esc === 't') return '\t'
+    if (esc.length === 5) return String.fromCharCode(parseInt(esc.slice(1), 16))
+    return esc
+  })
+}
+
+// "key" = "value"; pairs, with /* */ and // comments in between
+function parseIosStrings(content: string, fileName: string, lang: string): FlatRow[] {
+  const values = new Map<string, string>()
+  const token = /\s+|\/\*[\s\S]*?\*\/|\/\/[^\n]*|"((?:[^"\\]|\\.)*)"|([=;])|(\S)/g
+  const pending: string[] = []
+  let assigned = false
+  let match: RegExpExecArray | null
+
+  while ((match = token.exec(content))) {
+    const [, quoted, punct, unexpected] = match
+    if (unexpected !== undefined) {
+      throw new Error(`Unexpected "${unexpected}" in ${fileName}`)
+    }
+    if (quoted !== undefined) {
+      pending.push(unescapeIosString(quoted))
+    } else if (punct === ';') {
+      if (pending.length !== 2 || !assigned) throw new Error(`Malformed entry in ${fileName}`)
+      values.set(pending[0], pending[1])
+      pending.length = 0
+      assigned = false
+    } else if (punct === '=') {
+      if (pending.length !== 1) throw new Error(`Malformed entry in ${fileName}`)
+      assigned = true
+    }
+  }
+
+  return rowsFromValues(lang, values)
+}
+
+// Header row names the key column (key_path or key) and one column per language code.
+// Sheets we exported also have an id column; their source-language column is only compared
+// against the current source text, never imported. Empty cells are left out so they don't
+// blank existing values
+function parseTable(table: string[][], fileName: string, project: Project): ImportedRow[] {
+  const [header, ...records] = table
+  if (!header) throw new Error(`${fileName} is empty`)
+
+  const columns = header.map((h) => h.trim().toLowerCase())
+  const keyIndex = columns.findIndex((c) => c === SHEET_KEY_COLUMN || c === 'key')
+  if (keyIndex === -1) throw new Error(`${fileName} has no ${SHEET_KEY_COLUMN} column`)
+
+  const idIndex = columns.indexOf(SHEET_ID_COLUMN)
+  const typeIndex = columns.indexOf(SHEET_TYPE_COLUMN)
+  const sourceIndex = columns.indexOf(project.source_language.toLowerCase())
+  const langColumns = project.languages
+    .map((lang) => ({ lang, index: columns.indexOf(lang.toLowerCase()) }))
+    .filter((c) => c.index !== -1 && (idIndex === -1 || c.index !== sourceIndex))
+
+  if (langColumns.length === 0) {
+    throw new Error(`${fileName} has no columns for this project's languages (${project.languages.join(', ')})`)
+  }
+
+  const rows: ImportedRow[] = []
+  for (const record of records) {
+    const keyPath = record[keyIndex]?.trim()
+    if (!keyPath) continue
+
+    const row: ImportedRow = {
+      key_path: keyPath,
+      lang_values: {},
+      token_type: (typeIndex !== -1 && record[typeIndex]?.trim()) || null,
+      figma_variable_id: null,
+      description: null,
+      extensions: {},
+    }
+    for (const { lang, index } of langColumns) {
+      if (record[index]) row.lang_values[lang] = record[index]
+    }
+    if (idIndex !== -1) {
+      row.sheet = {
+        id: record[idIndex]?.trim() || null,
+        sourceText: sourceIndex === -1 ? null : record[sourceIndex] ?? '',
+      }
+    }
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// lang is the language the file was dropped on, or null for the multi-language drop zone
+export function parseImportFile(
+  fileName: string,
+  content: string | ArrayBuffer,
+  lang: string | null,
+  project: Project,
+): ParsedImport {
+  const format = detectImportFormat(fileName)
+  if (!format) throw new Error(`Unsupported file type: ${fileName}`)
+
+  if (format === 'xlsx') {
+    if (typeof content === 'string') throw new Error(`${fileName} must be read as binary`)
+    return { format, rows: parseTable(readXlsx(new Uint8Array(content)), fileName, project), groupExtensions: [] }
+  }
+  if (typeof content !== 'string') throw new Error(`${fileName} must be read as text`)
+
+  if (format === 'xliff') {
+    return { format, rows: parseXliff(content, fileName, lang, project), groupExtensions: [] }
+  }
+  if (format === 'csv') {
+    return { format, rows: parseTable(parseCsv(content), fileName, project), groupExtensions: [] }
+  }
+  if (!lang) {
+    throw new Error(`${IMPORT_FORMAT_LABELS[format]} files hold one language; drop ${fileName} on that language`)
+  }
+
+  if (format === 'figma') {
+    let json: Record<string, unknown>
+    try {
+      json = JSON.parse(content)
+    } catch (err) {
+      throw new Error(`Invalid JSON in ${fileName}: ${err instanceof Error ? err.message : 'parse error'}`)
+    }
+    return { format, ...flattenJsons({ [lang]: json }), tokens: { fileName, language: lang, json } }
+  }
+  if (format === 'po') return { format, rows: parsePo(content, lang), groupExtensions: [] }
+  if (format === 'android') return { format, rows: parseAndroid(content, fileName, lang), groupExtensions: [] }
+  return { format, rows: parseIosStrings(content, fileName, lang), groupExtensions: [] }
+}
+
+// Merges every dropped file into one row per key path. Android resource names are mapped back
+// to the key paths they were exported from, sheet rows are matched by id (falling back to key
+// path), and new keys from formats without token types default to Figma's string type
+export function resolveImportedKeys(
+  imports: ParsedImport[],
+  current: Translation[],
+  sourceLanguage: string,
+): ResolvedImport {
+  const androidKeys = new Map<string, string>()
+  for (const [keyPath, name] of androidResourceNames(current).names) androidKeys.set(name, keyPath)
+
+  const byId = new Map(current.map((t) => [t.id, t]))
+  const byKey = new Map(current.map((t) => [t.key_path, t]))
+  const rows = new Map<string, FlatRow>()
+  const report: ImportReport = { missing: [], sourceChanged: [] }
+
+  for (const parsed of imports) {
+    for (const { sheet, ...row } of parsed.rows) {
+      let keyPath = parsed.format === 'android' ? androidKeys.get(row.key_path) ?? row.key_path : row.key_path
+
+      if (sheet) {
+        const existing = (sheet.id && byId.get(sheet.id)) || byKey.get(row.key_path)
+        if (!existing) {
+          report.missing.push(row.key_path)
+          continue
+        }
+
+        // Follows renames made after the sheet was exported
+        keyPath = existing.key_path
+        const currentSource = getLangValue(existing.lang_values, sourceLanguage)
+        if (sheet.sourceText !== null && sheet.sourceText !== (currentSource ?? '')) {
+          report.sourceChanged.push({ keyPath, exported: sheet.sourceText, current: currentSource })
+        }
+        if (Object.keys(row.lang_values).length === 0) continue
+      }
+
+      const merged = rows.get(keyPath) ?? {
+        key_path: keyPath,
+        lang_values: {},
+        token_type: null,
+        figma_variable_id: null,
+        description: null,
+        extensions: {},
+      }
+
+      Object.assign(merged.lang_values, row.lang_values)
+      merged.token_type = row.token_type || merged.token_type
+      merged.figma_variable_id = row.figma_variable_id || merged.figma_variable_id
+      merged.description = row.description || merged.description
+      merged.extensions = { ...merged.extensions, ...row.extensions }
+      rows.set(keyPath, merged)
+    }
+  }
+
+  for (const row of rows.values()) {
+    if (!row.token_type && !byKey.has(row.key_path)) row.token_type = 'string'
+  }
+
+  return {
+    rows: Array.from(rows.values()),
+    groupExtensions: imports.flatMap((i) => i.groupExtensions),
+    report,
+  }
+}
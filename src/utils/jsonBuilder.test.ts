@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import { buildDeveloperJson, buildFigmaJson, setNestedValue } from './jsonBuilder'
+import { flattenJsons } from './jsonFlattener'
+import { toGroupExtension, toTranslation, uploadFixture } from './__fixtures__/upload'
+import figmaEn from './__fixtures__/figma-variables-en.json'
+import figmaDe from './__fixtures__/figma-variables-de.json'
+import figmaNative from './__fixtures__/figma-native-light.json'
+
+describe('buildFigmaJson', () => {
+  it.each([
+    ['en', figmaEn],
+    ['de', figmaDe],
+  ])('gives back the uploaded %s file unchanged', (lang, file) => {
+    const { translations, groupExtensions } = uploadFixture({ en: figmaEn, de: figmaDe })
+    const exported = buildFigmaJson(translations, groupExtensions, lang)
+
+    expect(exported).toStrictEqual(file)
+    // Key order too, so a re-exported file diffs cleanly against the original
+    expect(JSON.stringify(exported, null, 2)).toBe(JSON.stringify(file, null, 2))
+  })
+
+  it("gives back Figma's native export, including the file's mode name", () => {
+    const { translations, groupExtensions } = uploadFixture({ en: figmaNative })
+    const exported = buildFigmaJson(translations, groupExtensions, 'en')
+
+    expect(JSON.stringify(exported, null, 2)).toBe(JSON.stringify(figmaNative, null, 2))
+  })
+
+  it('keeps string token types as they were uploaded', () => {
+    const { translations, groupExtensions } = uploadFixture({ en: figmaEn })
+    const exported = buildFigmaJson(translations, groupExtensions, 'en') as typeof figmaEn
+
+    expect(exported.common.buttons.ok.$type).toBe('string')
+  })
+
+  it('writes an edited variable ID into com.figma without dropping its other properties', () => {
+    const { translations, groupExtensions } = uploadFixture({ en: figmaEn })
+    const edited = translations.map((t) => (t.key_path === 'common.buttons.ok' ? { ...t, figma_variable_id: 'VariableID:99:1' } : t))
+    const exported = buildFigmaJson(edited, groupExtensions, 'en') as typeof figmaEn
+
+    expect(exported.common.buttons.ok.$extensions).toStrictEqual({
+      'com.figma': { variableId: 'VariableID:99:1', scopes: ['TEXT_CONTENT'] },
+    })
+  })
+
+  it('leaves out keys without a value in the language but keeps the groups', () => {
+    const { translations, groupExtensions } = uploadFixture({ en: figmaEn, de: { home: { title: { $value: 'Hallo' } } } })
+
+    expect(buildFigmaJson(translations, groupExtensions, 'de')).toStrictEqual({
+      common: { $description: figmaEn.common.$description, $extensions: figmaEn.common.$extensions },
+      home: { title: { $type: 'string', $value: 'Hallo' } },
+      layout: { $type: 'number', $extensions: figmaEn.layout.$extensions },
+    })
+  })
+})
+
+describe('buildDeveloperJson', () => {
+  it('resolves aliases, decodes typed values and exports string tokens as text', () => {
+    const { translations, groupExtensions } = uploadFixture({ en: figmaEn, de: figmaDe })
+    const json = buildDeveloperJson(translations, ['en', 'de'], groupExtensions) as Record<string, typeof figmaEn>
+
+    expect(Object.keys(json)).toStrictEqual(['Translations/EN', 'Translations/DE'])
+    expect(json['Translations/EN'].common.buttons).toStrictEqual({
+      ok: { $value: 'OK', $type: 'text', $description: 'Confirms a dialog' },
+      cancel: { $value: 'Cancel', $type: 'text' },
+      save: { $value: 'OK', $type: 'text' },
+    })
+    expect(json['Translations/DE'].common.buttons.save).toStrictEqual({ $value: 'Speichern', $type: 'text' })
+    expect(json['Translations/EN'].layout).toStrictEqual({
+      gap: { $value: 8, $type: 'number' },
+      max_width: { $value: 1280.5, $type: 'number', $description: 'Content column on desktop' },
+      compact: { $value: false, $type: 'boolean' },
+      font_weight: { $value: '700', $type: 'fontWeight' },
+    })
+  })
+
+  it('keeps a value that is only a placeholder as text', () => {
+    const { translations } = uploadFixture({ en: { items: { $value: '{count}' }, index: { $value: '{0}' } } })
+
+    expect(buildDeveloperJson(translations, ['en'])).toStrictEqual({
+      'Translations/EN': { items: { $value: '{count}', $type: null }, index: { $value: '{0}', $type: null } },
+    })
+  })
+
+  it('leaves out values whose aliases loop', () => {
+    const { translations } = uploadFixture({ en: { a: { $value: '{b}' }, b: { $value: '{a}' }, c: { $value: 'Kept' } } })
+
+    expect(buildDeveloperJson(translations, ['en'])).toStrictEqual({
+      'Translations/EN': { c: { $value: 'Kept', $type: null } },
+    })
+  })
+})
+
+// Segments as they show up in key paths: never empty, no dots and no leading $
+const segment = fc.stringMatching(/^[A-Za-z0-9_][A-Za-z0-9_ -]{0,11}$/)
+
+// Key paths where no key is also the group of another key
+const keyPaths = fc
+  .uniqueArray(fc.array(segment, { minLength: 1, maxLength: 4 }), {
+    minLength: 1,
+    maxLength: 20,
+    selector: (segments) => segments.join('.'),
+  })
+  .map((paths) =>
+    paths.filter((path) =>
+      !paths.some((other) => other.length > path.length && path.every((s, i) => other[i] === s)),
+    ),
+  )
+
+describe('setNestedValue', () => {
+  it('puts every value at its path and nothing else', () => {
+    fc.assert(
+      fc.property(keyPaths, (paths) => {
+        const obj: Record<string, unknown> = {}
+        paths.forEach((path, i) => setNestedValue(obj, path.join('.'), i))
+
+        paths.forEach((path, i) => {
+          const value = path.reduce<unknown>((node, s) => (node as Record<string, unknown>)[s], obj)
+          expect(value).toBe(i)
+        })
+        const leaves = (node: unknown): number =>
+          typeof node === 'object' && node !== null ? Object.values(node).reduce((sum: number, n) => sum + leaves(n), 0) : 1
+        expect(leaves(obj)).toBe(paths.length)
+      }),
+    )
+  })
+})
+
+describe('Figma round trip', () => {
+  const token = fc.oneof(
+    fc.record({ $type: fc.constant('string'), $value: fc.string() }),
+    fc.record({ $value: fc.string() }),
+    fc.record({ $type: fc.constant('number'), $value: fc.integer() }),
+    fc.record({ $type: fc.constant('boolean'), $value: fc.boolean() }),
+    fc.record({ $type: fc.constant('fontFamily'), $value: fc.string() }),
+  )
+
+  it('flattening an export gives back the rows it was built from', () => {
+    fc.assert(
+      fc.property(
+        keyPaths.chain((paths) => fc.tuple(fc.constant(paths), fc.array(token, { minLength: paths.length, maxLength: paths.length }))),
+        ([paths, tokens]) => {
+          const tree: Record<string, unknown> = {}
+          paths.forEach((path, i) => setNestedValue(tree, path.join('.'), tokens[i]))
+          // As read from disk, with plain object prototypes
+          const file = JSON.parse(JSON.stringify(tree)) as Record<string, unknown>
+
+          const first = flattenJsons({ en: file })
+          const exported = buildFigmaJson(first.rows.map(toTranslation), first.groupExtensions.map(toGroupExtension), 'en')
+
+          expect(exported).toStrictEqual(file)
+          expect(flattenJsons({ en: exported })).toStrictEqual(first)
+        },
+      ),
+    )
+  })
+})
@@ -1,9 +1,11 @@
 import type { Translation, GroupExtension } from '../types'
+import { getLangValue, languageLabel } from './languages'
+import { decodeTokenValue, effectiveTokenType, groupTypeMap, orderExtensions, resolveTokenValue, tokenExtensions } from './designTokens'
 
-function setNestedValue(
+export function setNestedValue(
   obj: Record<string, unknown>,
   path: string,
-  value: Record<string, unknown>,
+  value: unknown,
 ) {
   const segments = path.split('.')
   let current = obj
@@ -24,7 +26,7 @@ function applyGroupExtensions(
   groupExtensions: GroupExtension[],
 ) {
   for (const ge of groupExtensions) {
-    const segments = ge.group_path.split('.')
+    const segments = ge.group_path ? ge.group_path.split('.') : []
     let current = obj
 
     for (const seg of segments) {
@@ -34,70 +36,86 @@ function applyGroupExtensions(
       current = current[seg] as Record<string, unknown>
     }
 
-    current.$extensions = ge.extensions
+    if (ge.token_type) current.$type = ge.token_type
+    if (ge.description) current.$description = ge.description
+    if (Object.keys(ge.extensions ?? {}).length > 0) current.$extensions = orderExtensions(ge.extensions)
   }
 }
 
-export function buildDeveloperJson(translations: Translation[]): Record<string, unknown> {
-  const result: Record<string, unknown> = {
-    'Translations/AZ': {},
-    'Translations/EN': {},
-    'Translations/RU': {},
+// A group's $type, $description and $extensions ahead of its children, as design token files
+// lay them out; tokens keep their own order
+function groupPropertiesFirst(node: Record<string, unknown>): Record<string, unknown> {
+  if ('$value' in node) return node
+  const entries = Object.entries(node)
+  return Object.fromEntries([
+    ...entries.filter(([key]) => key.startsWith('$')),
+    ...entries
+      .filter(([key]) => !key.startsWith('$'))
+      .map(([key, child]) => [
+        key,
+        typeof child === 'object' && child !== null ? groupPropertiesFirst(child as Record<string, unknown>) : child,
+      ]),
+  ])
+}
+
+// Aliases are resolved to the text they point at, since apps read these values directly
+export function buildDeveloperJson(
+  translations: Translation[],
+  languages: string[],
+  groupExtensions: GroupExtension[] = [],
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const lang of languages) {
+    result[`Translations/${languageLabel(lang)}`] = {}
   }
 
+  const byPath = new Map(translations.map((t) => [t.key_path, t]))
+  const groupTypes = groupTypeMap(groupExtensions)
+
   for (const t of translations) {
-    const tokenType = t.token_type === 'string' ? 'text' : t.token_type
+    const type = effectiveTokenType(t.key_path, t.token_type, groupTypes)
+    const tokenType = type === 'string' ? 'text' : type
 
-    if (t.az_value != null) {
-      setNestedValue(result['Translations/AZ'] as Record<string, unknown>, t.key_path, {
-        $value: t.az_value,
-        $type: tokenType,
-      })
-    }
-    if (t.en_value != null) {
-      setNestedValue(result['Translations/EN'] as Record<string, unknown>, t.key_path, {
-        $value: t.en_value,
-        $type: tokenType,
-      })
-    }
-    if (t.ru_value != null) {
-      setNestedValue(result['Translations/RU'] as Record<string, unknown>, t.key_path, {
-        $value: t.ru_value,
-        $type: tokenType,
-      })
+    for (const lang of languages) {
+      const val = resolveTokenValue(t.key_path, lang, byPath)
+      if (val == null) continue
+
+      const token: Record<string, unknown> = { $value: decodeTokenValue(val, type), $type: tokenType }
+      if (t.description) token.$description = t.description
+      setNestedValue(result[`Translations/${languageLabel(lang)}`] as Record<string, unknown>, t.key_path, token)
     }
   }
 
   return result
 }
 
+// Mirrors what upload reads, so a Figma file survives upload and export unchanged: aliases
+// stay {references}, typed values get their JSON type back, and groups keep $type,
+// $description and $extensions
 export function buildFigmaJson(
   translations: Translation[],
   groupExtensions: GroupExtension[],
-  lang: 'az' | 'en' | 'ru',
+  lang: string,
 ): Record<string, unknown> {
   const result: Record<string, unknown> = {}
-  const valueKey = `${lang}_value` as const
+  const groupTypes = groupTypeMap(groupExtensions)
 
   for (const t of translations) {
-    const val = t[valueKey]
+    const val = getLangValue(t.lang_values, lang)
     if (val == null) continue
 
-    const token: Record<string, unknown> = {
-      $type: t.token_type,
-      $value: val,
-    }
+    const token: Record<string, unknown> = {}
+    if (t.token_type) token.$type = t.token_type
+    token.$value = decodeTokenValue(val, effectiveTokenType(t.key_path, t.token_type, groupTypes))
+    if (t.description) token.$description = t.description
 
-    if (t.figma_variable_id) {
-      token.$extensions = {
-        'com.figma': { variableId: t.figma_variable_id },
-      }
-    }
+    const extensions = tokenExtensions(t)
+    if (extensions) token.$extensions = extensions
 
     setNestedValue(result, t.key_path, token)
   }
 
   applyGroupExtensions(result, groupExtensions)
 
-  return result
+  return groupPropertiesFirst(result)
 }
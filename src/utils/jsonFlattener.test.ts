@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import { flattenJsons } from './jsonFlattener'
+import { decodeTokenValue, encodeTokenValue } from './designTokens'
+import figmaEn from './__fixtures__/figma-variables-en.json'
+import figmaDe from './__fixtures__/figma-variables-de.json'
+import figmaNative from './__fixtures__/figma-native-light.json'
+
+describe('flattenJsons', () => {
+  it('merges one file per language into a row per key', () => {
+    const { rows } = flattenJsons({ en: figmaEn, de: figmaDe })
+
+    expect(rows.map((r) => r.key_path)).toStrictEqual([
+      'common.buttons.ok',
+      'common.buttons.cancel',
+      'common.buttons.save',
+      'home.title',
+      'home.empty_state',
+      'layout.gap',
+      'layout.max_width',
+      'layout.compact',
+      'layout.font_weight',
+    ])
+    expect(rows.find((r) => r.key_path === 'common.buttons.cancel')).toStrictEqual({
+      key_path: 'common.buttons.cancel',
+      lang_values: { en: 'Cancel', de: 'Abbrechen' },
+      token_type: 'string',
+      figma_variable_id: 'VariableID:12:2',
+      description: null,
+      extensions: { 'com.figma': { variableId: 'VariableID:12:2', scopes: ['TEXT_CONTENT'] } },
+    })
+  })
+
+  it('keeps aliases as references and typed values as JSON', () => {
+    const { rows } = flattenJsons({ en: figmaEn })
+    const value = (keyPath: string) => rows.find((r) => r.key_path === keyPath)?.lang_values.en
+
+    expect(value('common.buttons.save')).toBe('{common.buttons.ok}')
+    expect(value('layout.gap')).toBe('8')
+    expect(value('layout.compact')).toBe('false')
+    expect(value('layout.font_weight')).toBe('"700"')
+  })
+
+  it('records group and file properties, inheriting nothing into the rows', () => {
+    const { rows, groupExtensions } = flattenJsons({ en: figmaNative })
+
+    expect(groupExtensions).toStrictEqual([
+      { group_path: '', extensions: { 'com.figma.modeName': 'Light' }, description: null, token_type: null },
+      { group_path: 'color', extensions: {}, description: null, token_type: 'color' },
+      { group_path: 'radius', extensions: {}, description: 'Corner radii in px', token_type: 'number' },
+    ])
+    expect(rows.find((r) => r.key_path === 'radius.small')?.token_type).toBeNull()
+  })
+
+  it('only reads a figma_variable_id from the com.figma object', () => {
+    const { rows } = flattenJsons({ en: figmaNative })
+
+    expect(rows.every((r) => r.figma_variable_id === null)).toBe(true)
+    expect(rows.find((r) => r.key_path === 'label.sign_in')?.extensions).toStrictEqual({
+      'com.figma.variableId': 'VariableID:3:30',
+      'com.figma.scopes': ['TEXT_CONTENT'],
+    })
+  })
+
+  it('skips values that are neither tokens nor groups', () => {
+    const { rows } = flattenJsons({ en: { a: 'loose', b: null, c: { $value: 'ok' } } })
+
+    expect(rows.map((r) => r.key_path)).toStrictEqual(['c'])
+  })
+
+  it('leaves languages without a file out of lang_values', () => {
+    const { rows } = flattenJsons({ en: { a: { $value: 'A' } }, de: null })
+
+    expect(rows[0].lang_values).toStrictEqual({ en: 'A' })
+  })
+})
+
+describe('token value encoding', () => {
+  const typed = fc.constantFrom('number', 'boolean', 'color', 'dimension', 'fontFamily', 'fontWeight', 'shadow')
+  // What JSON.parse can give back, so -0 and undefined are out
+  const jsonValue = fc.jsonValue().map((v) => JSON.parse(JSON.stringify(v)) as unknown)
+
+  it('gives typed tokens back the value they were uploaded with', () => {
+    fc.assert(
+      fc.property(typed, jsonValue, (type, value) => {
+        expect(decodeTokenValue(encodeTokenValue(value, type), type)).toStrictEqual(value)
+      }),
+    )
+  })
+
+  it('stores text tokens as the text itself', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(null, 'string', 'text'), fc.string(), (type, value) => {
+        expect(encodeTokenValue(value, type)).toBe(value)
+        expect(decodeTokenValue(value, type)).toBe(value)
+      }),
+    )
+  })
+})
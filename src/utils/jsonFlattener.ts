@@ -1,31 +1,49 @@
-interface FlatRow {
+import type { LangValues } from '../types'
+import { encodeTokenValue, FIGMA_EXTENSION } from './designTokens'
+
+export interface FlatRow {
   key_path: string
-  az_value?: string | null
-  en_value?: string | null
-  ru_value?: string | null
+  lang_values: LangValues
   token_type: string | null
   figma_variable_id: string | null
+  description: string | null
+  extensions: Record<string, unknown>
 }
 
-interface GroupExt {
+export interface GroupExt {
   group_path: string
   extensions: Record<string, unknown>
+  description: string | null
+  token_type: string | null
 }
 
-interface FlattenResult {
+export interface FlattenResult {
   rows: FlatRow[]
   groupExtensions: GroupExt[]
 }
 
+// Group $type, $description and $extensions; the file's own are kept at group path ''
+function recordGroup(node: Record<string, unknown>, path: string, groupExtensions: Map<string, GroupExt>) {
+  if (!node.$extensions && !node.$description && !node.$type) return
+  const group = groupExtensions.get(path)
+  groupExtensions.set(path, {
+    group_path: path,
+    extensions: (node.$extensions as Record<string, unknown>) || group?.extensions || {},
+    description: node.$description as string || group?.description || null,
+    token_type: node.$type as string || group?.token_type || null,
+  })
+}
+
 function flattenNode(
   node: Record<string, unknown>,
   pathPrefix: string,
-  lang: 'az' | 'en' | 'ru',
+  lang: string,
   rows: Map<string, FlatRow>,
   groupExtensions: Map<string, GroupExt>,
+  groupType: string | null,
 ) {
   for (const [key, value] of Object.entries(node)) {
-    if (key === '$extensions') continue
+    if (key.startsWith('$')) continue
 
     const child = value as Record<string, unknown>
     if (!child || typeof child !== 'object') continue
@@ -36,47 +54,44 @@ function flattenNode(
       // Leaf node — a translation token
       const existing = rows.get(currentPath) || {
         key_path: currentPath,
-        az_value: null,
-        en_value: null,
-        ru_value: null,
+        lang_values: {},
         token_type: null,
         figma_variable_id: null,
+        description: null,
+        extensions: {},
       }
 
-      existing[`${lang}_value`] = child.$value as string
+      existing.lang_values[lang] = encodeTokenValue(child.$value, child.$type as string || groupType)
       existing.token_type = child.$type as string || existing.token_type
+      existing.description = child.$description as string || existing.description
 
       if (child.$extensions) {
         const ext = child.$extensions as Record<string, Record<string, string>>
-        existing.figma_variable_id = ext?.['com.figma']?.variableId || existing.figma_variable_id
+        existing.extensions = { ...existing.extensions, ...ext }
+        existing.figma_variable_id = ext?.[FIGMA_EXTENSION]?.variableId || existing.figma_variable_id
       }
 
       rows.set(currentPath, existing)
     } else {
       // Group node — recurse
-      if (child.$extensions) {
-        groupExtensions.set(currentPath, {
-          group_path: currentPath,
-          extensions: child.$extensions as Record<string, unknown>,
-        })
-      }
-
-      flattenNode(child, currentPath, lang, rows, groupExtensions)
+      recordGroup(child, currentPath, groupExtensions)
+      flattenNode(child, currentPath, lang, rows, groupExtensions, child.$type as string || groupType)
     }
   }
 }
 
+// Files are keyed by language code; languages without a file are left out of each row's lang_values
 export function flattenJsons(
-  azJson: Record<string, unknown> | null,
-  enJson: Record<string, unknown> | null,
-  ruJson: Record<string, unknown> | null,
+  files: Record<string, Record<string, unknown> | null>,
 ): FlattenResult {
   const rows = new Map<string, FlatRow>()
   const groupExtensions = new Map<string, GroupExt>()
 
-  if (azJson) flattenNode(azJson, '', 'az', rows, groupExtensions)
-  if (enJson) flattenNode(enJson, '', 'en', rows, groupExtensions)
-  if (ruJson) flattenNode(ruJson, '', 'ru', rows, groupExtensions)
+  for (const [lang, json] of Object.entries(files)) {
+    if (!json) continue
+    recordGroup(json, '', groupExtensions)
+    flattenNode(json, '', lang, rows, groupExtensions, json.$type as string || null)
+  }
 
   return {
     rows: Array.from(rows.values()),
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import type { KeyPlatform, KeyRules, NamingStyle } from '../types'
+import { analyzeKeyIssues, DEFAULT_KEY_RULES, normalizeSegment, optimizeKey, planKeyFixes, reservedIn } from './keyOptimizer'
+
+const STYLE_PATTERNS: Record<NamingStyle, RegExp> = {
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  'kebab-case': /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
+}
+
+const ALL_PLATFORMS: KeyPlatform[] = ['java', 'kotlin', 'swift', 'c', 'android', 'generic']
+
+// Mostly key-like text, with reserved words and the odd accent or symbol mixed in
+const keyText = fc.oneof(
+  fc.string(),
+  fc.stringMatching(/^[A-Za-z0-9 _.-]{0,24}$/),
+  fc.constantFrom('class', 'Default', 'string', 'value', 'Hôme Screen', '3D view', 'HTTPServer', '__init__', ''),
+)
+
+const rules = fc.record({
+  style: fc.constantFrom<NamingStyle>('snake_case', 'camelCase', 'kebab-case'),
+  reserved: fc.subarray(ALL_PLATFORMS),
+}).map((r): KeyRules => ({ ...DEFAULT_KEY_RULES, ...r }))
+
+describe('optimizeKey', () => {
+  it.each([
+    ['Home Screen', 'home_screen'],
+    ['home.title', 'hometitle'],
+    ['--Sign  In--', 'sign_in'],
+    ['3d_view', 'fix_3d_view'],
+    ['class', 'common_fix_class'],
+    ['', 'fix'],
+    ['already_fine', 'already_fine'],
+  ])('%j → %j', (key, optimized) => {
+    expect(optimizeKey(key)).toStrictEqual({ optimized, wasChanged: key !== optimized })
+  })
+
+  it('gives a lowercase identifier that is not a reserved word', () => {
+    fc.assert(
+      fc.property(keyText, (key) => {
+        const { optimized } = optimizeKey(key)
+        expect(optimized).toMatch(/^[a-z][a-z0-9_]*$/)
+        expect(optimized).not.toMatch(/__|_$/)
+        expect(reservedIn(optimized, ALL_PLATFORMS)).toStrictEqual([])
+      }),
+    )
+  })
+
+  it('leaves its own output alone', () => {
+    fc.assert(
+      fc.property(keyText, (key) => {
+        const { optimized } = optimizeKey(key)
+        expect(optimizeKey(optimized)).toStrictEqual({ optimized, wasChanged: false })
+      }),
+    )
+  })
+})
+
+describe('normalizeSegment', () => {
+  it.each([
+    ['Home Screen', 'snake_case', 'home_screen'],
+    ['homeScreen', 'snake_case', 'home_screen'],
+    ['home-screen', 'camelCase', 'homeScreen'],
+    ['HTTPServer', 'kebab-case', 'http-server'],
+    ['Hôme', 'snake_case', 'home'],
+    ['1st', 'camelCase', 'fix1st'],
+    ['default', 'camelCase', 'commonFixDefault'],
+  ] as const)('%j in %s → %j', (segment, style, normalized) => {
+    expect(normalizeSegment(segment, { ...DEFAULT_KEY_RULES, style })).toBe(normalized)
+  })
+
+  it('follows the naming style and avoids the reserved words', () => {
+    fc.assert(
+      fc.property(keyText, rules, (segment, r) => {
+        const normalized = normalizeSegment(segment, r)
+        expect(normalized).toMatch(STYLE_PATTERNS[r.style])
+        expect(reservedIn(normalized, r.reserved)).toStrictEqual([])
+      }),
+    )
+  })
+
+  it('is stable once applied', () => {
+    fc.assert(
+      fc.property(keyText, rules, (segment, r) => {
+        const normalized = normalizeSegment(segment, r)
+        expect(normalizeSegment(normalized, r)).toBe(normalized)
+      }),
+    )
+  })
+
+  it('gives key paths the key checks accept as they are', () => {
+    fc.assert(
+      fc.property(fc.array(keyText, { minLength: 1, maxLength: 5 }), rules, (segments, r) => {
+        const keyPath = segments.map((s) => normalizeSegment(s, r)).join('.')
+        expect(analyzeKeyIssues(keyPath, r)).toBeNull()
+      }),
+    )
+  })
+})
+
+describe('planKeyFixes', () => {
+  it.each([
+    ['snake_case', 'home.save_button', ['home.save_button_2', 'home.save_button_3']],
+    ['camelCase', 'home.saveButton', ['home.saveButton2', 'home.saveButton3']],
+    ['kebab-case', 'home.save-button', ['home.save-button-2', 'home.save-button-3']],
+  ] as const)('numbers colliding %s fixes in the same style', (style, existing, numbered) => {
+    const r = { ...DEFAULT_KEY_RULES, style }
+    const keys = [existing, 'home.Save Button', 'home.SAVE BUTTON'].map((keyPath, i) => ({ id: `k${i}`, key_path: keyPath }))
+    const fixes = planKeyFixes(keys, r)
+
+    expect(fixes.map((f) => [f.to, f.collision])).toStrictEqual([
+      [numbered[0], 'existing'],
+      [numbered[1], 'existing'],
+    ])
+    for (const f of fixes) expect(analyzeKeyIssues(f.to, r)).toBeNull()
+  })
+
+  it('never turns a key into a group of another key or the other way round', () => {
+    const keys = ['home.title', 'Home.Title.Main', 'home.header.main', 'home.Header'].map((keyPath, i) => ({ id: `k${i}`, key_path: keyPath }))
+    const fixes = planKeyFixes(keys, DEFAULT_KEY_RULES)
+
+    expect(fixes.map((f) => [f.from, f.to, f.collision, f.conflict])).toStrictEqual([
+      ['home.Header', 'home.header_2', 'existing', false],
+      ['Home.Title.Main', 'home.title.main', 'existing', true],
+    ])
+  })
+
+  it('gives every fix a free path that passes the key checks', () => {
+    fc.assert(
+      fc.property(fc.uniqueArray(fc.array(keyText, { minLength: 1, maxLength: 3 }), { maxLength: 15, selector: (s) => s.join('.') }), rules, (paths, r) => {
+        const keys = paths.map((segments, i) => ({ id: `k${i}`, key_path: segments.join('.') }))
+        const fixes = planKeyFixes(keys, r)
+        const fixed = new Set(fixes.map((f) => f.id))
+        // Conflicts block the batch until they are skipped or edited
+        const applied = fixes.filter((f) => !f.conflict)
+        const final = [...keys.filter((k) => !fixed.has(k.id)).map((k) => k.key_path), ...applied.map((f) => f.to)]
+
+        expect(new Set(final).size).toBe(final.length)
+        for (const f of applied) {
+          expect(analyzeKeyIssues(f.to, r)).toBeNull()
+          expect(final.filter((p) => p.startsWith(`${f.to}.`) || f.to.startsWith(`${p}.`))).toStrictEqual([])
+        }
+      }),
+    )
+  })
+})
@@ -1,30 +1,75 @@
-import type { KeyIssue } from '../types'
-
-const FORBIDDEN_KEYWORDS = new Set([
-  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char',
-  'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum',
-  'extends', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements',
-  'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null',
-  'package', 'private', 'protected', 'public', 'return', 'short', 'static',
-  'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
-  'transient', 'try', 'void', 'volatile', 'while',
-  'as', 'fun', 'in', 'is', 'object', 'typealias', 'typeof', 'val', 'var',
-  'when', 'companion', 'data', 'sealed', 'internal', 'open', 'lateinit',
-  'inline', 'crossinline', 'noinline', 'reified', 'suspend', 'tailrec',
-  'vararg', 'where', 'it', 'out', 'dynamic', 'actual', 'expect',
-  'let', 'func', 'self', 'true', 'false', 'nil', 'inout', 'init', 'deinit',
-  'subscript', 'convenience', 'required', 'override', 'mutating', 'lazy',
-  'weak', 'unowned', 'optional', 'prefix', 'postfix', 'infix', 'operator',
-  'fileprivate', 'rethrows', 'repeat', 'guard', 'defer', 'fallthrough',
-  'associatedtype', 'protocol', 'struct', 'extension', 'indirect', 'get', 'set',
-  'willset', 'didset', 'any', 'some',
-  'auto', 'register', 'extern', 'union', 'signed', 'unsigned', 'sizeof', 'typedef',
-  'id', 'string', 'layout', 'color', 'style', 'drawable', 'menu', 'raw', 'xml',
-  'mipmap', 'name', 'anim', 'animator', 'array', 'attr', 'bool', 'dimen',
-  'fraction', 'integer', 'interpolator', 'plurals', 'values', 'font', 'unit',
-  'type', 'value', 'key', 'index', 'item', 'list', 'map', 'result', 'error',
-])
+import type { KeyIssue, KeyPlatform, KeyRules, NamingStyle, Project, SegmentIssue } from '../types'
 
+const RESERVED_WORDS: Record<KeyPlatform, string[]> = {
+  java: [
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char',
+    'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum',
+    'extends', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements',
+    'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null',
+    'package', 'private', 'protected', 'public', 'return', 'short', 'static',
+    'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
+    'transient', 'try', 'void', 'volatile', 'while', 'true', 'false',
+  ],
+  kotlin: [
+    'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if',
+    'in', 'interface', 'is', 'null', 'object', 'package', 'return', 'super',
+    'this', 'throw', 'true', 'try', 'typealias', 'typeof', 'val', 'var', 'when',
+    'while', 'companion', 'data', 'sealed', 'internal', 'open', 'lateinit',
+    'inline', 'crossinline', 'noinline', 'reified', 'suspend', 'tailrec',
+    'vararg', 'where', 'it', 'out', 'dynamic', 'actual', 'expect',
+  ],
+  swift: [
+    'associatedtype', 'class', 'deinit', 'enum', 'extension', 'fileprivate',
+    'func', 'import', 'init', 'inout', 'internal', 'let', 'open', 'operator',
+    'private', 'protocol', 'public', 'rethrows', 'static', 'struct', 'subscript',
+    'typealias', 'var', 'break', 'case', 'continue', 'default', 'defer', 'do',
+    'else', 'fallthrough', 'for', 'guard', 'if', 'in', 'repeat', 'return',
+    'switch', 'where', 'while', 'as', 'any', 'false', 'is', 'nil', 'self',
+    'super', 'throw', 'throws', 'true', 'try', 'some', 'convenience', 'required',
+    'override', 'mutating', 'lazy', 'weak', 'unowned', 'optional', 'prefix',
+    'postfix', 'infix', 'indirect', 'get', 'set', 'willset', 'didset',
+  ],
+  c: ['auto', 'register', 'extern', 'union', 'signed', 'unsigned', 'sizeof', 'typedef'],
+  android: [
+    'id', 'string', 'layout', 'color', 'style', 'drawable', 'menu', 'raw', 'xml',
+    'mipmap', 'anim', 'animator', 'array', 'attr', 'bool', 'dimen', 'fraction',
+    'integer', 'interpolator', 'plurals', 'values', 'font',
+  ],
+  // Names that shadow members of generated accessor types
+  generic: ['name', 'unit', 'type', 'value', 'key', 'index', 'item', 'list', 'map', 'result', 'error'],
+}
+
+export const KEY_PLATFORM_LABELS: Record<KeyPlatform, string> = {
+  java: 'Java',
+  kotlin: 'Kotlin',
+  swift: 'Swift',
+  c: 'C',
+  android: 'Android resource types',
+  generic: 'Common member names',
+}
+
+export const NAMING_STYLE_LABELS: Record<NamingStyle, string> = {
+  snake_case: 'snake_case',
+  camelCase: 'camelCase',
+  'kebab-case': 'kebab-case',
+}
+
+export const DEFAULT_KEY_RULES: KeyRules = {
+  style: 'snake_case',
+  maxDepth: null,
+  maxLength: null,
+  reserved: ['java', 'kotlin', 'swift', 'c', 'android', 'generic'],
+  custom: [],
+}
+
+const FORBIDDEN_KEYWORDS = new Set(Object.values(RESERVED_WORDS).flat())
+
+// Stored rules only hold what differs from the defaults
+export function projectKeyRules(project: Pick<Project, 'key_rules'>): KeyRules {
+  return { ...DEFAULT_KEY_RULES, ...project.key_rules }
+}
+
+// Flat identifier used for Android resource names, whatever the project's key rules
 export function optimizeKey(key: string): { optimized: string; wasChanged: boolean } {
   let result = key
     .toLowerCase()
@@ -33,7 +78,9 @@ export function optimizeKey(key: string): { optimized: string; wasChanged: boole
     .replace(/_+/g, '_')
     .replace(/^_+|_+$/g, '')
 
-  if (!result || /^[0-9]/.test(result)) {
+  if (!result) {
+    result = 'fix'
+  } else if (/^[0-9]/.test(result)) {
     result = 'fix_' + result
   }
 
@@ -44,17 +91,200 @@ export function optimizeKey(key: string): { optimized: string; wasChanged: boole
   return { optimized: result, wasChanged: key !== result }
 }
 
-export function analyzeKeyIssues(keyPath: string): KeyIssue | null {
+// "Home Screen", "homeScreen", "home-screen" and "Hôme_screen" all give ["home", "screen"]
+export function splitWords(segment: string): string[] {
+  return segment
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+function joinWords(words: string[], style: NamingStyle): string {
+  if (style === 'snake_case') return words.join('_')
+  if (style === 'kebab-case') return words.join('-')
+  return words.map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))).join('')
+}
+
+export function reservedIn(word: string, platforms: KeyPlatform[]): KeyPlatform[] {
+  return platforms.filter((p) => RESERVED_WORDS[p].includes(word.toLowerCase()))
+}
+
+function normalizeOnce(segment: string, rules: KeyRules): string {
+  let words = splitWords(segment)
+  if (words.length === 0 || /^[0-9]/.test(words[0])) words = ['fix', ...words]
+
+  const joined = joinWords(words, rules.style)
+  if (reservedIn(joined, rules.reserved).length > 0) return joinWords(['common', 'fix', ...words], rules.style)
+  return joined
+}
+
+// camelCase one-letter words read back as an acronym ("a b c" → aBC → a, bc), so the result
+// is normalized again until it reads back as itself
+export function normalizeSegment(segment: string, rules: KeyRules): string {
+  const normalized = normalizeOnce(segment, rules)
+  const again = normalizeOnce(normalized, rules)
+  return again === normalized ? normalized : normalizeSegment(again, rules)
+}
+
+// Checks every segment against the project's rules. The suggested key path fixes style and
+// reserved words; depth, length and custom rules are only reported since they need a person
+// to decide on a new name
+export function analyzeKeyIssues(keyPath: string, rules: KeyRules = DEFAULT_KEY_RULES): KeyIssue | null {
   const segments = keyPath.split('.')
-  const lastSegment = segments[segments.length - 1]
-  const { optimized, wasChanged } = optimizeKey(lastSegment)
+  const issues: SegmentIssue[] = []
+  const fixed = segments.map((segment, index) => {
+    const normalized = normalizeSegment(segment, rules)
+    const reserved = reservedIn(segment, rules.reserved)
 
-  if (!wasChanged) return null
+    if (reserved.length > 0) {
+      const platforms = reserved.map((p) => KEY_PLATFORM_LABELS[p]).join(', ')
+      issues.push({ index, segment, message: `"${segment}" is reserved in ${platforms}` })
+    } else if (/^[0-9]/.test(segment)) {
+      issues.push({ index, segment, message: `"${segment}" starts with a digit` })
+    } else if (normalized !== segment) {
+      issues.push({ index, segment, message: `"${segment}" is not ${NAMING_STYLE_LABELS[rules.style]}` })
+    }
 
-  const fixedSegments = [...segments.slice(0, -1), optimized]
-  return {
-    original: lastSegment,
-    suggested: optimized,
-    keyPath: fixedSegments.join('.'),
+    for (const rule of rules.custom) {
+      try {
+        if (new RegExp(rule.pattern, 'u').test(segment)) issues.push({ index, segment, message: rule.message })
+      } catch {
+        // Invalid patterns are rejected in the settings; skip any stored before that
+      }
+    }
+    return normalized
+  })
+
+  if (rules.maxDepth && segments.length > rules.maxDepth) {
+    const index = rules.maxDepth
+    issues.push({ index, segment: segments[index], message: `Nested more than ${rules.maxDepth} levels deep` })
+  }
+  if (rules.maxLength && keyPath.length > rules.maxLength) {
+    const index = segments.length - 1
+    issues.push({ index, segment: segments[index], message: `Longer than ${rules.maxLength} characters` })
   }
+
+  if (issues.length === 0) return null
+  return { keyPath: fixed.join('.'), segments: issues.sort((a, b) => a.index - b.index) }
+}
+
+export interface KeyFix {
+  id: string
+  from: string
+  suggested: string
+  to: string
+  // Left out of the batch; the key keeps its path
+  skipped: boolean
+  // Why `to` differs from the suggestion: it was taken by a key that stays, or by another fix
+  collision: 'existing' | 'suggestion' | null
+  // A hand-edited target that is already taken, or any target inside another key's path (a.b.c
+  // when a.b is a key); these block the batch
+  conflict: boolean
+}
+
+type KeyRow = { id: string; key_path: string }
+
+// The number joins the last segment as one more word, so the suffixed path keeps the style
+function withSuffix(keyPath: string, n: number, style: NamingStyle): string {
+  const segments = keyPath.split('.')
+  const last = segments.pop() ?? ''
+  return [...segments, joinWords([...splitWords(last), String(n)], style)].join('.')
+}
+
+// Key paths and the groups above them. Nested exports can't hold a key that is also a group,
+// so a path clashes with a key on the same path, with a group of that name (a.b when a.b.c is
+// a key) and with a key above it (a.b.c when a.b is a key)
+interface PathIndex {
+  keys: Set<string>
+  groups: Set<string>
+}
+
+function groupsAbove(keyPath: string): string[] {
+  const segments = keyPath.split('.')
+  return segments.slice(1).map((_, i) => segments.slice(0, i + 1).join('.'))
+}
+
+function indexPaths(keyPaths: Iterable<string>): PathIndex {
+  const index: PathIndex = { keys: new Set(), groups: new Set() }
+  for (const keyPath of keyPaths) addPath(index, keyPath)
+  return index
+}
+
+function addPath(index: PathIndex, keyPath: string) {
+  index.keys.add(keyPath)
+  for (const group of groupsAbove(keyPath)) index.groups.add(group)
+}
+
+function clashesOnPath(index: PathIndex, keyPath: string): boolean {
+  return index.keys.has(keyPath) || index.groups.has(keyPath)
+}
+
+// A numeric suffix on the last segment can't get past these
+function clashesAbove(index: PathIndex, keyPath: string): boolean {
+  return groupsAbove(keyPath).some((group) => index.keys.has(group))
+}
+
+// Plans renames for every key with a fixable issue. Skipped keys keep their path, while keys being
+// fixed give theirs up, so a fix may take over another fix's old path. Suggestions that would
+// land on a taken path, or on a group of other keys, get a numeric suffix; hand-edited targets
+// are used as given. Both are flagged as conflicts when they clash in a way a suffix can't fix
+export function planKeyFixes(
+  translations: KeyRow[],
+  rules: KeyRules,
+  skipped: Set<string> = new Set(),
+  overrides: Map<string, string> = new Map(),
+): KeyFix[] {
+  const candidates = translations
+    .map((t) => ({ t, issue: analyzeKeyIssues(t.key_path, rules) }))
+    .filter((c): c is { t: KeyRow; issue: KeyIssue } => c.issue !== null && c.issue.keyPath !== c.t.key_path)
+    .sort((a, b) => a.t.key_path.localeCompare(b.t.key_path))
+
+  const fixing = new Set(candidates.filter((c) => !skipped.has(c.t.id)).map((c) => c.t.id))
+  const kept = indexPaths(translations.filter((t) => !fixing.has(t.id)).map((t) => t.key_path))
+  const taken = indexPaths(kept.keys)
+  const fixes = new Map<string, KeyFix>()
+
+  for (const { t, issue } of candidates) {
+    if (fixing.has(t.id)) continue
+    fixes.set(t.id, { id: t.id, from: t.key_path, suggested: issue.keyPath, to: t.key_path, skipped: true, collision: null, conflict: false })
+  }
+
+  // Hand-edited targets claim their paths first so suggestions route around them
+  for (const { t, issue } of candidates) {
+    const override = overrides.get(t.id)
+    if (!fixing.has(t.id) || override === undefined) continue
+    fixes.set(t.id, {
+      id: t.id,
+      from: t.key_path,
+      suggested: issue.keyPath,
+      to: override,
+      skipped: false,
+      collision: null,
+      conflict: clashesOnPath(taken, override) || clashesAbove(taken, override),
+    })
+    addPath(taken, override)
+  }
+
+  for (const { t, issue } of candidates) {
+    if (!fixing.has(t.id) || overrides.has(t.id)) continue
+    let to = issue.keyPath
+    let collision: KeyFix['collision'] = null
+    const conflict = clashesAbove(taken, to)
+    if (conflict) {
+      collision = clashesAbove(kept, to) ? 'existing' : 'suggestion'
+    } else if (clashesOnPath(taken, to)) {
+      collision = clashesOnPath(kept, to) ? 'existing' : 'suggestion'
+      let n = 2
+      while (clashesOnPath(taken, withSuffix(issue.keyPath, n, rules.style))) n++
+      to = withSuffix(issue.keyPath, n, rules.style)
+    }
+    fixes.set(t.id, { id: t.id, from: t.key_path, suggested: issue.keyPath, to, skipped: false, collision, conflict })
+    if (!conflict) addPath(taken, to)
+  }
+
+  return candidates.flatMap((c) => fixes.get(c.t.id) ?? [])
 }
@@ -0,0 +1,148 @@
+import type { GroupExtension, Translation } from '../types'
+import { copyTranslation, planKeyRenames } from './bulkEdits'
+import type { KeyRename, NewTranslation } from './bulkEdits'
+import { getLangValue } from './languages'
+
+export interface KeyTreeNode {
+  name: string
+  path: string
+  children: KeyTreeNode[]
+  // Tokens anywhere below this group
+  count: number
+  filled: number
+  percent: number
+}
+
+export interface SubtreeMove {
+  renames: KeyRename[]
+  extensions: { id: string; group_path: string }[]
+  collisions: string[]
+}
+
+export interface SubtreeCopy {
+  inserts: NewTranslation[]
+  extensions: Omit<GroupExtension, 'id'>[]
+  collisions: string[]
+}
+
+export function isInSubtree(path: string, group: string): boolean {
+  return path === group || path.startsWith(`${group}.`)
+}
+
+function reroot(path: string, from: string, to: string): string {
+  return to + path.slice(from.length)
+}
+
+// Only groups are nodes; leaf tokens are counted but not listed
+export function buildKeyTree(translations: Translation[], languages: string[]): KeyTreeNode[] {
+  const root: KeyTreeNode = { name: '', path: '', children: [], count: 0, filled: 0, percent: 0 }
+  const nodes = new Map<string, KeyTreeNode>([['', root]])
+
+  for (const t of translations) {
+    const filled = languages.filter((lang) => getLangValue(t.lang_values, lang)).length
+    const segments = t.key_path.split('.').slice(0, -1)
+    let parent = root
+    let path = ''
+
+    for (const segment of segments) {
+      path = path ? `${path}.${segment}` : segment
+      let node = nodes.get(path)
+      if (!node) {
+        node = { name: segment, path, children: [], count: 0, filled: 0, percent: 0 }
+        nodes.set(path, node)
+        parent.children.push(node)
+      }
+      node.count++
+      node.filled += filled
+      parent = node
+    }
+  }
+
+  for (const node of nodes.values()) {
+    const total = node.count * languages.length
+    node.percent = total === 0 ? 100 : Math.floor((node.filled / total) * 100)
+    node.children.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  return root.children
+}
+
+// Deepest group every path lives in, '' when they only share the root
+export function commonGroup(paths: string[]): string {
+  if (paths.length === 0) return ''
+  let common = paths[0].split('.').slice(0, -1)
+  for (const path of paths.slice(1)) {
+    const segments = path.split('.').slice(0, -1)
+    let i = 0
+    while (i < common.length && i < segments.length && common[i] === segments[i]) i++
+    common = common.slice(0, i)
+  }
+  return common.join('.')
+}
+
+// Moves a path from under `from` (possibly the root) to under `to`
+export function moveUnder(path: string, from: string, to: string): string {
+  return from ? reroot(path, from, to) : `${to}.${path}`
+}
+
+export function validateGroupPath(path: string): string | null {
+  if (!path) return 'Enter a group path'
+  if (path.split('.').some((segment) => !segment.trim())) return 'Group path has an empty segment'
+  return null
+}
+
+export function planSubtreeMove(
+  translations: Translation[],
+  groupExtensions: GroupExtension[],
+  from: string,
+  to: string,
+): SubtreeMove {
+  const targets = new Map(
+    translations.filter((t) => isInSubtree(t.key_path, from)).map((t) => [t.id, reroot(t.key_path, from, to)]),
+  )
+  const { renames, collisions } = planKeyRenames(translations, targets)
+  const existingGroups = new Set(groupExtensions.map((ge) => ge.group_path))
+  const plan: SubtreeMove = { renames, extensions: [], collisions: collisions.map((c) => c.keyPath) }
+
+  for (const ge of groupExtensions) {
+    if (!isInSubtree(ge.group_path, from)) continue
+    const next = reroot(ge.group_path, from, to)
+    if (existingGroups.has(next)) plan.collisions.push(next)
+    plan.extensions.push({ id: ge.id, group_path: next })
+  }
+
+  return plan
+}
+
+export function planSubtreeCopy(
+  translations: Translation[],
+  groupExtensions: GroupExtension[],
+  from: string,
+  to: string,
+): SubtreeCopy {
+  const existing = new Set(translations.map((t) => t.key_path))
+  const existingGroups = new Set(groupExtensions.map((ge) => ge.group_path))
+  const plan: SubtreeCopy = { inserts: [], extensions: [], collisions: [] }
+
+  for (const t of translations) {
+    if (!isInSubtree(t.key_path, from)) continue
+    const next = reroot(t.key_path, from, to)
+    if (existing.has(next)) plan.collisions.push(next)
+    plan.inserts.push(copyTranslation(t, t.project_id, next))
+  }
+
+  for (const ge of groupExtensions) {
+    if (!isInSubtree(ge.group_path, from)) continue
+    const next = reroot(ge.group_path, from, to)
+    if (existingGroups.has(next)) plan.collisions.push(next)
+    plan.extensions.push({
+      project_id: ge.project_id,
+      group_path: next,
+      extensions: ge.extensions,
+      description: ge.description,
+      token_type: ge.token_type,
+    })
+  }
+
+  return plan
+}
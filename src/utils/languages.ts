@@ -0,0 +1,38 @@
+import type { LangValues } from '../types'
+
+export const DEFAULT_LANGUAGES = ['az', 'en', 'ru']
+export const DEFAULT_SOURCE_LANGUAGE = 'en'
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  az: 'Azerbaijani',
+  en: 'English',
+  ru: 'Russian',
+  tr: 'Turkish',
+  ka: 'Georgian',
+  uk: 'Ukrainian',
+  kk: 'Kazakh',
+  uz: 'Uzbek',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  ar: 'Arabic',
+}
+
+// BCP 47-ish: a 2–3 letter language subtag with optional region/script subtags
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/
+
+export function isValidLanguageCode(code: string): boolean {
+  return LANGUAGE_CODE_PATTERN.test(code)
+}
+
+export function languageName(lang: string): string {
+  return LANGUAGE_NAMES[lang] ?? lang.toUpperCase()
+}
+
+export function languageLabel(lang: string): string {
+  return lang.toUpperCase()
+}
+
+export function getLangValue(values: LangValues | null | undefined, lang: string): string | null {
+  return values?.[lang] ?? null
+}
@@ -0,0 +1,50 @@
+import type { Profile, ReviewStatus, Role } from '../types'
+
+// Mirrors the row-level policies in supabase-setup.sql; the database is the
+// source of truth, these only decide what the UI offers.
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  developer: 'Developer',
+  translator: 'Translator',
+  reviewer: 'Reviewer',
+}
+
+export function roleLabel(role: Role | null): string {
+  return role ? ROLE_LABELS[role] : 'No access'
+}
+
+export function isAdmin(profile: Profile): boolean {
+  return profile.role === 'admin'
+}
+
+export function canManageProjects(profile: Profile): boolean {
+  return profile.role === 'admin'
+}
+
+export function canDeleteTokens(profile: Profile): boolean {
+  return profile.role === 'admin'
+}
+
+export function canUpload(profile: Profile): boolean {
+  return profile.role === 'admin' || profile.role === 'developer'
+}
+
+export function canEditKeys(profile: Profile): boolean {
+  return profile.role === 'admin' || profile.role === 'developer'
+}
+
+export function canReview(profile: Profile): boolean {
+  return profile.role === 'admin' || profile.role === 'reviewer'
+}
+
+export function canEditLanguage(profile: Profile, lang: string): boolean {
+  if (profile.role === 'admin' || profile.role === 'developer') return true
+  return profile.role === 'translator' && profile.languages.includes(lang)
+}
+
+// Translators move their own languages between draft and needs review; only reviewers decide
+export function canSetStatus(profile: Profile, lang: string, status: ReviewStatus): boolean {
+  if (status === 'approved' || status === 'rejected') return canReview(profile)
+  return canEditLanguage(profile, lang)
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { ValueIssueKind } from '../types'
+import { checkTranslation, checkValue, extractPlaceholders, extractTags, findValueIssues, isBlockingIssue } from './placeholders'
+import { token } from './__fixtures__/translations'
+
+describe('extractPlaceholders', () => {
+  it('reads mustache, ICU and printf placeholders', () => {
+    expect(extractPlaceholders('{{ name }} has {count} and %1$d of %s, %@ and %.2f')).toStrictEqual([
+      { kind: 'mustache', text: '{{name}}' },
+      { kind: 'icu', text: '{count}' },
+      { kind: 'printf', text: '%1$d' },
+      { kind: 'printf', text: '%s' },
+      { kind: 'printf', text: '%@' },
+      { kind: 'printf', text: '%.2f' },
+    ])
+  })
+
+  it('skips ICU plural branches and escaped percent signs', () => {
+    expect(extractPlaceholders('{count, plural, one {# item from {shop}} other {# items}} at 100%% off')).toStrictEqual([
+      { kind: 'icu', text: '{count}' },
+    ])
+  })
+})
+
+describe('extractTags', () => {
+  it('normalizes tags to their name', () => {
+    expect(extractTags('<B class="x">Hi</b><br/> 1 < 2')).toStrictEqual(['<b>', '</b>', '<br/>'])
+  })
+})
+
+describe('checkValue', () => {
+  it('finds nothing when placeholders, tags and outer whitespace match in any order', () => {
+    expect(checkValue('<b>{{name}}</b> has %d', '%d hat <b>{{name}}</b>', 'de')).toStrictEqual([])
+  })
+
+  it('reports missing and unexpected placeholders, counting repeats', () => {
+    expect(checkValue('{{a}} and {{a}}', '{{a}} und %s', 'de')).toStrictEqual([
+      { language: 'de', kind: 'missing', message: 'Missing {{a}}' },
+      { language: 'de', kind: 'extra', message: 'Unexpected %s' },
+    ])
+  })
+
+  it('reports a missing and an extra placeholder of the same syntax as a rename', () => {
+    expect(checkValue('Hi {{name}}', 'Hallo {{nom}}', 'de')).toStrictEqual([
+      { language: 'de', kind: 'renamed', message: '{{name}} was renamed to {{nom}}' },
+    ])
+  })
+
+  it('reports markup and whitespace differences', () => {
+    expect(checkValue(' <b>Hi</b><br/>', 'Hallo</b><i> ', 'de')).toStrictEqual([
+      { language: 'de', kind: 'markup', message: 'Markup differs: missing <b> <br/>, unexpected <i>' },
+      { language: 'de', kind: 'whitespace', message: 'Leading whitespace differs from the source' },
+      { language: 'de', kind: 'whitespace', message: 'Trailing whitespace differs from the source' },
+    ])
+  })
+})
+
+describe('isBlockingIssue', () => {
+  it('only lets whitespace differences through', () => {
+    const kinds: ValueIssueKind[] = ['missing', 'extra', 'renamed', 'markup', 'variants', 'alias', 'whitespace']
+    expect(kinds.filter((kind) => isBlockingIssue({ language: 'de', kind, message: '' }))).toStrictEqual(kinds.slice(0, -1))
+  })
+})
+
+describe('checkTranslation', () => {
+  it('compares every other language with the source and skips missing values', () => {
+    const t = token('home.title', { en: 'Hi {{name}}', de: 'Hallo' })
+    expect(checkTranslation(t, ['en', 'de', 'fr'], 'en')).toStrictEqual([
+      { language: 'de', kind: 'missing', message: 'Missing {{name}}' },
+    ])
+  })
+
+  it('checks nothing without a source value', () => {
+    expect(checkTranslation(token('home.title', { de: '%s' }), ['en', 'de'], 'en')).toStrictEqual([])
+  })
+})
+
+describe('findValueIssues', () => {
+  it('compares aliases by the text they resolve to', () => {
+    const translations = [
+      token('brand.name', { en: '{{brand}}', de: 'Marke' }),
+      token('home.title', { en: '{brand.name}', de: '{brand.name}' }, {}, 1),
+    ]
+    const issues = findValueIssues(translations, ['en', 'de'], 'en')
+
+    expect([...issues.keys()]).toStrictEqual(['brand.name', 'home.title'])
+    expect(issues.get('home.title')).toStrictEqual([{ language: 'de', kind: 'missing', message: 'Missing {{brand}}' }])
+  })
+})
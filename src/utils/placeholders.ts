@@ -0,0 +1,166 @@
+import type { Translation, ValueIssue, ValueIssueKind } from '../types'
+import { getLangValue } from './languages'
+import { checkVariants } from './variants'
+import { checkAliases, resolveAliases } from './designTokens'
+
+type TokenKind = 'mustache' | 'icu' | 'printf'
+
+interface Token {
+  kind: TokenKind
+  text: string
+}
+
+const PRINTF = /%(?:\d+\$)?[-+ #0]*\d*(?:\.\d+)?(?:hh|h|ll|l|z)?[sdifuxXoeEgGc@]/y
+const TAG = /<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>/g
+
+// Whitespace differences are worth a look; the rest break formatting at runtime
+const BLOCKING_ISSUES: ValueIssueKind[] = ['missing', 'extra', 'renamed', 'markup', 'variants', 'alias']
+
+// Scans {{name}}, ICU arguments ({count} and {count, plural, …} — only the argument name is
+// compared, the branches are translated text) and printf specifiers (%s, %1$d, %@)
+export function extractPlaceholders(value: string): Token[] {
+  const tokens: Token[] = []
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]
+
+    if (ch === '{' && value[i + 1] === '{') {
+      const end = value.indexOf('}}', i + 2)
+      if (end === -1) break
+      tokens.push({ kind: 'mustache', text: `{{${value.slice(i + 2, end).trim()}}}` })
+      i = end + 1
+    } else if (ch === '{') {
+      // Skip to the matching brace so plural branches aren't read as arguments
+      let depth = 0
+      let end = i
+      for (; end < value.length; end++) {
+        if (value[end] === '{') depth++
+        else if (value[end] === '}' && --depth === 0) break
+      }
+      const name = value.slice(i + 1, end).split(',')[0].trim()
+      if (name) tokens.push({ kind: 'icu', text: `{${name}}` })
+      i = end
+    } else if (ch === '%') {
+      if (value[i + 1] === '%') {
+        i++
+        continue
+      }
+      PRINTF.lastIndex = i
+      const match = PRINTF.exec(value)
+      if (match) {
+        tokens.push({ kind: 'printf', text: match[0] })
+        i += match[0].length - 1
+      }
+    }
+  }
+
+  return tokens
+}
+
+// <b>, </b> and <br/> normalized to their tag name so attribute changes don't count
+export function extractTags(value: string): string[] {
+  return (value.match(TAG) ?? []).map((tag) => {
+    const name = tag.match(/^<\/?([a-zA-Z][\w-]*)/)![1].toLowerCase()
+    if (tag.startsWith('</')) return `</${name}>`
+    return tag.endsWith('/>') ? `<${name}/>` : `<${name}>`
+  })
+}
+
+// Items in a that b has fewer of, counting repeats
+function multisetDiff(a: string[], b: string[]): string[] {
+  const counts = new Map<string, number>()
+  for (const item of b) counts.set(item, (counts.get(item) ?? 0) + 1)
+
+  const result: string[] = []
+  for (const item of a) {
+    const n = counts.get(item) ?? 0
+    if (n > 0) counts.set(item, n - 1)
+    else result.push(item)
+  }
+  return result
+}
+
+function leadingWhitespace(value: string) {
+  return value.match(/^\s*/)![0]
+}
+
+function trailingWhitespace(value: string) {
+  return value.match(/\s*$/)![0]
+}
+
+export function checkValue(source: string, target: string, language: string): ValueIssue[] {
+  const issues: ValueIssue[] = []
+  const sourceTokens = extractPlaceholders(source)
+  const targetTokens = extractPlaceholders(target)
+  const missing = multisetDiff(sourceTokens.map((t) => t.text), targetTokens.map((t) => t.text))
+  const extra = multisetDiff(targetTokens.map((t) => t.text), sourceTokens.map((t) => t.text))
+  const kindOf = (text: string) => [...sourceTokens, ...targetTokens].find((t) => t.text === text)!.kind
+
+  // A missing and an extra placeholder of the same syntax is most likely a rename
+  for (const text of [...missing]) {
+    const renamedTo = extra.find((e) => kindOf(e) === kindOf(text))
+    if (!renamedTo) continue
+    missing.splice(missing.indexOf(text), 1)
+    extra.splice(extra.indexOf(renamedTo), 1)
+    issues.push({ language, kind: 'renamed', message: `${text} was renamed to ${renamedTo}` })
+  }
+  for (const text of missing) issues.push({ language, kind: 'missing', message: `Missing ${text}` })
+  for (const text of extra) issues.push({ language, kind: 'extra', message: `Unexpected ${text}` })
+
+  const sourceTags = extractTags(source)
+  const targetTags = extractTags(target)
+  const missingTags = multisetDiff(sourceTags, targetTags)
+  const extraTags = multisetDiff(targetTags, sourceTags)
+  if (missingTags.length > 0 || extraTags.length > 0) {
+    const parts = [
+      missingTags.length > 0 && `missing ${missingTags.join(' ')}`,
+      extraTags.length > 0 && `unexpected ${extraTags.join(' ')}`,
+    ].filter(Boolean)
+    issues.push({ language, kind: 'markup', message: `Markup differs: ${parts.join(', ')}` })
+  }
+
+  if (leadingWhitespace(source) !== leadingWhitespace(target)) {
+    issues.push({ language, kind: 'whitespace', message: 'Leading whitespace differs from the source' })
+  }
+  if (trailingWhitespace(source) !== trailingWhitespace(target)) {
+    issues.push({ language, kind: 'whitespace', message: 'Trailing whitespace differs from the source' })
+  }
+
+  return issues
+}
+
+// Every translated value is compared with the source-language value of the same key, and
+// plural/select tokens must fill each form their locale needs
+export function checkTranslation(t: Translation, languages: string[], sourceLanguage: string): ValueIssue[] {
+  const source = getLangValue(t.lang_values, sourceLanguage)
+  const placeholderIssues = source
+    ? languages.flatMap((lang) => {
+        const target = getLangValue(t.lang_values, lang)
+        if (lang === sourceLanguage || !target) return []
+        return checkValue(source, target, lang)
+      })
+    : []
+
+  return [...placeholderIssues, ...checkVariants(t, languages)]
+}
+
+// Keyed by key path, like the key issue map in the table. Aliases are compared by the text
+// they resolve to, and broken ones are issues of their own
+export function findValueIssues(
+  translations: Translation[],
+  languages: string[],
+  sourceLanguage: string,
+): Map<string, ValueIssue[]> {
+  const byPath = new Map(translations.map((t) => [t.key_path, t]))
+  const resolved = resolveAliases(translations, languages)
+  const map = new Map<string, ValueIssue[]>()
+  translations.forEach((t, i) => {
+    const issues = [...checkAliases(t, languages, byPath), ...checkTranslation(resolved[i], languages, sourceLanguage)]
+    if (issues.length > 0) map.set(t.key_path, issues)
+  })
+  return map
+}
+
+export function isBlockingIssue(issue: ValueIssue): boolean {
+  return BLOCKING_ISSUES.includes(issue.kind)
+}
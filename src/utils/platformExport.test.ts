@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import {
+  androidResourceNames,
+  androidValuesDir,
+  buildAndroidStrings,
+  buildIosStrings,
+  buildStringsDict,
+  buildXcStrings,
+  escapeAndroidString,
+  escapeIosString,
+} from './platformExport'
+import { token } from './__fixtures__/translations'
+
+const plural = token('cart.items', { en: '{count} items' }, {
+  variant_kind: 'plural',
+  variant_arg: 'count',
+  lang_variants: { en: { other: '{count} items', one: '{count} item' } },
+})
+
+describe('Android export', () => {
+  it.each([
+    ["Don't", "Don\\'t"],
+    ['Say "hi"', 'Say \\"hi\\"'],
+    ['a\\b', 'a\\\\b'],
+    ['Line\nbreak\tand tab', 'Line\\nbreak\\tand tab'],
+    ['Fish & <chips>', 'Fish &amp; &lt;chips&gt;'],
+    ['@home', '\\@home'],
+    ['?attr', '\\?attr'],
+    [' padded', '" padded"'],
+    ['two  spaces', '"two  spaces"'],
+  ])('escapes %j', (value, escaped) => {
+    expect(escapeAndroidString(value)).toBe(escaped)
+  })
+
+  it('writes the source language to values/ and others to qualified folders', () => {
+    expect(androidValuesDir('en', 'en')).toBe('values')
+    expect(androidValuesDir('de', 'en')).toBe('values-de')
+    expect(androidValuesDir('pt-BR', 'en')).toBe('values-pt-rBR')
+    expect(androidValuesDir('en', 'de')).toBe('values-en')
+  })
+
+  it('flattens key paths into resource names and numbers collisions', () => {
+    const { names, collisions } = androidResourceNames([token('home.title', {}), token('home_title', {}, {}, 1)])
+    expect([...names]).toStrictEqual([['home.title', 'home_title'], ['home_title', 'home_title_2']])
+    expect(collisions).toStrictEqual([{ keyPath: 'home_title', name: 'home_title_2' }])
+  })
+
+  it('writes strings and plurals, skipping values the language lacks', () => {
+    const translations = [token('home.title', { en: "It's here" }), token('home.empty', { de: 'Leer' }, {}, 1), plural]
+    const { names } = androidResourceNames(translations)
+
+    expect(buildAndroidStrings(translations, 'en', names)).toBe([
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<resources>',
+      '    <string name="home_title">It\\\'s here</string>',
+      '    <plurals name="cart_items">',
+      '        <item quantity="one">{count} item</item>',
+      '        <item quantity="other">{count} items</item>',
+      '    </plurals>',
+      '</resources>',
+      '',
+    ].join('\n'))
+  })
+})
+
+describe('iOS export', () => {
+  it('escapes quotes, backslashes and control characters', () => {
+    expect(escapeIosString('Say "hi"\\\n\r\t')).toBe('Say \\"hi\\"\\\\\\n\\r\\t')
+  })
+
+  it('writes one "key" = "value"; line per value', () => {
+    const translations = [token('home.title', { en: 'Hello "you"' }), token('home.empty', { de: 'Leer' }, {}, 1)]
+    expect(buildIosStrings(translations, 'en')).toBe('"home.title" = "Hello \\"you\\"";\n')
+  })
+
+  it('puts plurals in a stringsdict, or none when the language has no plurals', () => {
+    const dict = buildStringsDict([token('home.title', { en: 'Hi' }), plural], 'en')
+    expect(dict).toContain('<key>cart.items</key>')
+    expect(dict).toContain('<string>%#@count@</string>')
+    expect(dict).toContain('<key>one</key>\n            <string>{count} item</string>')
+    expect(dict).not.toContain('home.title')
+    expect(buildStringsDict([token('home.title', { en: 'Hi' })], 'en')).toBeNull()
+  })
+
+  it('marks values awaiting review in the string catalog', () => {
+    const reviewed = token('home.title', { en: 'Hi', de: 'Hallo' }, { lang_status: { de: { status: 'needs_review', comment: null } } })
+    const catalog = buildXcStrings([reviewed], ['en', 'de'], 'en') as { sourceLanguage: string; strings: Record<string, { localizations: unknown }> }
+
+    expect(catalog.sourceLanguage).toBe('en')
+    expect(catalog.strings['home.title'].localizations).toStrictEqual({
+      en: { stringUnit: { state: 'translated', value: 'Hi' } },
+      de: { stringUnit: { state: 'needs_review', value: 'Hallo' } },
+    })
+  })
+})
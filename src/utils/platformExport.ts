@@ -0,0 +1,197 @@
+import type { Translation } from '../types'
+import { getLangValue } from './languages'
+import { getValueStatus } from './reviewStatus'
+import { optimizeKey } from './keyOptimizer'
+import { exportVariants } from './variants'
+
+export interface ResourceNames {
+  names: Map<string, string>
+  // Key paths that normalized to a name already taken, with the suffixed name they got
+  collisions: { keyPath: string; name: string }[]
+}
+
+// Android resource names are flat identifiers, so each key path is joined with
+// underscores and run through the same normalization as the key optimizer
+export function androidResourceNames(translations: Translation[]): ResourceNames {
+  const names = new Map<string, string>()
+  const taken = new Set<string>()
+  const collisions: { keyPath: string; name: string }[] = []
+
+  for (const t of translations) {
+    const base = optimizeKey(t.key_path.split('.').join('_')).optimized
+    let name = base
+    for (let i = 2; taken.has(name); i++) name = `${base}_${i}`
+
+    if (name !== base) collisions.push({ keyPath: t.key_path, name })
+    taken.add(name)
+    names.set(t.key_path, name)
+  }
+
+  return { names, collisions }
+}
+
+// pt-BR → values-pt-rBR; the source language goes to the default values/ folder
+export function androidValuesDir(lang: string, sourceLanguage: string): string {
+  if (lang === sourceLanguage) return 'values'
+  const [language, region] = lang.split('-')
+  return region ? `values-${language}-r${region}` : `values-${language}`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+export function escapeAndroidString(value: string): string {
+  let escaped = escapeXml(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+
+  // A leading @ or ? would be read as a resource or attribute reference
+  if (/^[@?]/.test(escaped)) escaped = '\\' + escaped
+
+  // aapt collapses surrounding and repeated whitespace unless the string is quoted
+  if (/^\s|\s$|\s{2}/.test(value)) escaped = `"${escaped}"`
+
+  return escaped
+}
+
+export function buildAndroidStrings(
+  translations: Translation[],
+  lang: string,
+  names: Map<string, string>,
+): string {
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>', '<resources>']
+
+  for (const t of translations) {
+    const value = getLangValue(t.lang_values, lang)
+    if (value == null) continue
+
+    // Android has no select resource, so select tokens fall back to their "other" form
+    const forms = t.variant_kind === 'plural' ? exportVariants(t, lang) : null
+    if (forms) {
+      lines.push(`    <plurals name="${names.get(t.key_path)}">`)
+      for (const [quantity, text] of forms) {
+        lines.push(`        <item quantity="${quantity}">${escapeAndroidString(text)}</item>`)
+      }
+      lines.push('    </plurals>')
+      continue
+    }
+
+    lines.push(`    <string name="${names.get(t.key_path)}">${escapeAndroidString(value)}</string>`)
+  }
+
+  lines.push('</resources>', '')
+  return lines.join('\n')
+}
+
+export function escapeIosString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+}
+
+export function buildIosStrings(translations: Translation[], lang: string): string {
+  const lines: string[] = []
+
+  for (const t of translations) {
+    const value = getLangValue(t.lang_values, lang)
+    if (value == null) continue
+    lines.push(`"${escapeIosString(t.key_path)}" = "${escapeIosString(value)}";`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+function plistString(value: string): string {
+  return `<string>${escapeXml(value)}</string>`
+}
+
+// Plural tokens for Localizable.stringsdict, or null when there are none in this language.
+// The same keys still appear in Localizable.strings with their "other" form; the stringsdict
+// entry wins at runtime
+export function buildStringsDict(translations: Translation[], lang: string): string | null {
+  const entries: string[] = []
+
+  for (const t of translations) {
+    const forms = t.variant_kind === 'plural' ? exportVariants(t, lang) : null
+    if (!forms) continue
+
+    const arg = t.variant_arg || 'count'
+    entries.push(
+      `    <key>${escapeXml(t.key_path)}</key>`,
+      '    <dict>',
+      '        <key>NSStringLocalizedFormatKey</key>',
+      `        ${plistString(`%#@${arg}@`)}`,
+      `        <key>${escapeXml(arg)}</key>`,
+      '        <dict>',
+      '            <key>NSStringFormatSpecTypeKey</key>',
+      '            <string>NSStringPluralRuleType</string>',
+      '            <key>NSStringFormatValueTypeKey</key>',
+      '            <string>d</string>',
+      ...forms.flatMap(([category, text]) => [
+        `            <key>${category}</key>`,
+        `            ${plistString(text)}`,
+      ]),
+      '        </dict>',
+      '    </dict>',
+    )
+  }
+
+  if (entries.length === 0) return null
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    '<dict>',
+    ...entries,
+    '</dict>',
+    '</plist>',
+    '',
+  ].join('\n')
+}
+
+// Xcode string catalog (.xcstrings); values awaiting review keep that state in Xcode
+export function buildXcStrings(
+  translations: Translation[],
+  languages: string[],
+  sourceLanguage: string,
+): Record<string, unknown> {
+  const strings: Record<string, unknown> = {}
+
+  for (const t of translations) {
+    const localizations: Record<string, unknown> = {}
+
+    for (const lang of languages) {
+      const value = getLangValue(t.lang_values, lang)
+      if (value == null) continue
+
+      const status = getValueStatus(t, lang)
+      const state = status === 'needs_review' || status === 'rejected' ? 'needs_review' : 'translated'
+      const forms = t.variant_kind === 'plural' ? exportVariants(t, lang) : null
+
+      localizations[lang] = forms
+        ? {
+            variations: {
+              plural: Object.fromEntries(
+                forms.map(([category, text]) => [category, { stringUnit: { state, value: text } }]),
+              ),
+            },
+          }
+        : { stringUnit: { state, value } }
+    }
+
+    strings[t.key_path] = { extractionState: 'manual', localizations }
+  }
+
+  return { sourceLanguage, strings, version: '1.0' }
+}
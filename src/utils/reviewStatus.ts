@@ -0,0 +1,71 @@
+import type { Translation, ReviewStatus, LangStatus } from '../types'
+import { getLangValue } from './languages'
+
+export type ValueStatus = 'missing' | ReviewStatus
+
+export type ApprovalMode = 'all' | 'approved_fallback' | 'approved_omit'
+
+export const VALUE_STATUSES: ValueStatus[] = ['missing', 'draft', 'needs_review', 'approved', 'rejected']
+
+export const STATUS_LABELS: Record<ValueStatus, string> = {
+  missing: 'Missing',
+  draft: 'Draft',
+  needs_review: 'Needs review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+}
+
+export const STATUS_COLORS: Record<ValueStatus, string> = {
+  missing: 'bg-gray-200',
+  draft: 'bg-gray-400',
+  needs_review: 'bg-warning',
+  approved: 'bg-success',
+  rejected: 'bg-danger',
+}
+
+export function getValueStatus(t: Translation, lang: string): ValueStatus {
+  const value = getLangValue(t.lang_values, lang)
+  if (value == null || value === '') return 'missing'
+  return t.lang_status?.[lang]?.status ?? 'draft'
+}
+
+// Dropping a language's entry puts it back to draft
+export function withoutStatus(langStatus: Record<string, LangStatus>, lang: string): Record<string, LangStatus> {
+  const next = { ...langStatus }
+  delete next[lang]
+  return next
+}
+
+export function isApproved(t: Translation, lang: string): boolean {
+  return getValueStatus(t, lang) === 'approved'
+}
+
+// Replaces values that are not approved, either with the approved source-language
+// value or with null so exporters leave them out
+export function applyApprovalMode(
+  translations: Translation[],
+  languages: string[],
+  sourceLanguage: string,
+  mode: ApprovalMode,
+): Translation[] {
+  if (mode === 'all') return translations
+
+  return translations.map((t) => {
+    const sourceApproved = isApproved(t, sourceLanguage)
+    const fallback = sourceApproved ? getLangValue(t.lang_values, sourceLanguage) : null
+    const langValues = { ...t.lang_values }
+    const langVariants = { ...t.lang_variants }
+
+    for (const lang of languages) {
+      if (isApproved(t, lang)) continue
+      langValues[lang] = mode === 'approved_fallback' ? fallback : null
+      if (mode === 'approved_fallback' && sourceApproved && t.lang_variants?.[sourceLanguage]) {
+        langVariants[lang] = t.lang_variants[sourceLanguage]
+      } else {
+        delete langVariants[lang]
+      }
+    }
+
+    return { ...t, lang_values: langValues, lang_variants: langVariants }
+  })
+}
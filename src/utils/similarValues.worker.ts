@@ -0,0 +1,15 @@
+import type { DuplicateGroup, Translation } from '../types'
+import { findSimilarValues } from './duplicateDetector'
+
+export interface SimilarValuesRequest {
+  translations: Translation[]
+  languages: string[]
+  threshold: number
+}
+
+// Fuzzy matching can take seconds on large projects, so it runs off the main thread
+self.onmessage = (e: MessageEvent<SimilarValuesRequest>) => {
+  const { translations, languages, threshold } = e.data
+  const groups: DuplicateGroup[] = findSimilarValues(translations, languages, threshold)
+  self.postMessage(groups)
+}
@@ -0,0 +1,60 @@
+import type { Translation } from '../types'
+import { getLangValue, languageLabel } from './languages'
+
+export type SheetFilter = 'all' | 'missing' | 'changed'
+
+// Columns that aren't languages. id and the source column let a re-import match rows and
+// spot source text that changed after the sheet went out
+export const SHEET_ID_COLUMN = 'id'
+export const SHEET_KEY_COLUMN = 'key_path'
+export const SHEET_TYPE_COLUMN = 'token_type'
+export const SHEET_NOTES_COLUMN = 'notes'
+
+function isMissingTranslation(t: Translation, languages: string[], sourceLanguage: string): boolean {
+  return languages.some((lang) => lang !== sourceLanguage && !getLangValue(t.lang_values, lang))
+}
+
+// Rejection comments give translators the reviewer's context next to the string
+function sheetNotes(t: Translation, languages: string[]): string {
+  return languages
+    .filter((lang) => t.lang_status?.[lang]?.comment)
+    .map((lang) => `${languageLabel(lang)}: ${t.lang_status[lang].comment}`)
+    .join('\n')
+}
+
+export function filterSheetTranslations(
+  translations: Translation[],
+  languages: string[],
+  sourceLanguage: string,
+  filter: SheetFilter,
+  changedSince: string | null,
+): Translation[] {
+  if (filter === 'missing') {
+    return translations.filter((t) => isMissingTranslation(t, languages, sourceLanguage))
+  }
+  if (filter === 'changed' && changedSince) {
+    const since = new Date(changedSince).getTime()
+    return translations.filter((t) => new Date(t.updated_at).getTime() >= since)
+  }
+  return translations
+}
+
+// Source language first, then the rest in project order
+export function buildSheetRows(
+  translations: Translation[],
+  languages: string[],
+  sourceLanguage: string,
+): (string | null)[][] {
+  const langColumns = [sourceLanguage, ...languages.filter((lang) => lang !== sourceLanguage)]
+  const header = [SHEET_ID_COLUMN, SHEET_KEY_COLUMN, SHEET_TYPE_COLUMN, ...langColumns, SHEET_NOTES_COLUMN]
+
+  const rows = translations.map((t) => [
+    t.id,
+    t.key_path,
+    t.token_type,
+    ...langColumns.map((lang) => getLangValue(t.lang_values, lang)),
+    sheetNotes(t, languages),
+  ])
+
+  return [header, ...rows]
+}
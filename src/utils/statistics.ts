@@ -0,0 +1,141 @@
+import type { HistoryEntry, Translation } from '../types'
+import { getLangValue } from './languages'
+
+export interface LanguageStats {
+  language: string
+  total: number
+  filled: number
+  missing: number
+  percent: number
+  // Source-language words and characters still waiting for this language
+  wordsToTranslate: number
+  charsToTranslate: number
+}
+
+export interface GroupStats {
+  group: string
+  total: number
+  missing: Record<string, number>
+}
+
+export interface TrendPoint {
+  date: string
+  filled: Record<string, number>
+}
+
+export type TrendEntry = Pick<HistoryEntry, 'field' | 'language' | 'old_value' | 'new_value' | 'changed_at'>
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+// Same rule as the "Missing" review status, so the table filter shows exactly these keys
+function isFilled(value: string | null | undefined): boolean {
+  return value != null && value !== ''
+}
+
+export function percentOf(part: number, total: number): number {
+  return total === 0 ? 100 : Math.floor((part / total) * 100)
+}
+
+export function topLevelGroup(keyPath: string): string {
+  return keyPath.split('.')[0]
+}
+
+export function languageStats(
+  translations: Translation[],
+  languages: string[],
+  sourceLanguage: string,
+): LanguageStats[] {
+  return languages.map((lang) => {
+    let filled = 0
+    let wordsToTranslate = 0
+    let charsToTranslate = 0
+
+    for (const t of translations) {
+      if (isFilled(getLangValue(t.lang_values, lang))) {
+        filled++
+        continue
+      }
+      const source = getLangValue(t.lang_values, sourceLanguage)
+      if (lang !== sourceLanguage && source) {
+        wordsToTranslate += countWords(source)
+        charsToTranslate += source.length
+      }
+    }
+
+    return {
+      language: lang,
+      total: translations.length,
+      filled,
+      missing: translations.length - filled,
+      percent: percentOf(filled, translations.length),
+      wordsToTranslate,
+      charsToTranslate,
+    }
+  })
+}
+
+// Groups are the first key path segment, sorted by how much is missing
+export function groupStats(translations: Translation[], languages: string[]): GroupStats[] {
+  const groups = new Map<string, GroupStats>()
+
+  for (const t of translations) {
+    const name = topLevelGroup(t.key_path)
+    const stats = groups.get(name) ?? {
+      group: name,
+      total: 0,
+      missing: Object.fromEntries(languages.map((lang) => [lang, 0])),
+    }
+
+    stats.total++
+    for (const lang of languages) {
+      if (!isFilled(getLangValue(t.lang_values, lang))) stats.missing[lang]++
+    }
+    groups.set(name, stats)
+  }
+
+  const totalMissing = (g: GroupStats) => Object.values(g.missing).reduce((a, b) => a + b, 0)
+  return Array.from(groups.values()).sort((a, b) => totalMissing(b) - totalMissing(a) || a.group.localeCompare(b.group))
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Filled counts at the end of each of the last `days` days, rebuilt by walking the value history
+// backwards from today's counts. Deleted keys leave no history, so older points can be off by
+// the number of keys deleted since
+export function completionTrend(
+  translations: Translation[],
+  languages: string[],
+  history: TrendEntry[],
+  days: number,
+  now = new Date(),
+): TrendPoint[] {
+  const filled: Record<string, number> = {}
+  for (const lang of languages) {
+    filled[lang] = translations.filter((t) => isFilled(getLangValue(t.lang_values, lang))).length
+  }
+
+  const sorted = [...history].sort((a, b) => b.changed_at.localeCompare(a.changed_at))
+  const points: TrendPoint[] = []
+  let cursor = 0
+
+  for (let i = 0; i < days; i++) {
+    const end = new Date(now)
+    end.setUTCHours(23, 59, 59, 999)
+    end.setUTCDate(end.getUTCDate() - i)
+
+    // Undo every change made after the end of this day
+    while (cursor < sorted.length && new Date(sorted[cursor].changed_at) > end) {
+      const entry = sorted[cursor++]
+      if (!entry.language || !(entry.language in filled)) continue
+      filled[entry.language] -= Number(isFilled(entry.new_value)) - Number(isFilled(entry.old_value))
+    }
+
+    points.push({ date: dayKey(end), filled: { ...filled } })
+  }
+
+  return points.reverse()
+}
@@ -0,0 +1,167 @@
+import { isTextType } from './designTokens'
+
+export type TokenProblemKind =
+  | 'invalid_node'
+  | 'non_string_value'
+  | 'mixed_node'
+  | 'dotted_segment'
+  | 'unknown_type'
+  | 'type_conflict'
+  | 'missing_in_language'
+
+export interface TokenProblem {
+  kind: TokenProblemKind
+  fileName: string
+  language: string
+  // JSON path inside the file, e.g. $.home["sign.in"].$value
+  path: string
+  message: string
+}
+
+// A Figma JSON file as dropped on a language, before flattening
+export interface TokenFile {
+  fileName: string
+  language: string
+  json: unknown
+}
+
+// Figma variable types plus the W3C design token types
+export const KNOWN_TOKEN_TYPES = [
+  'string', 'text', 'number', 'boolean', 'color', 'dimension', 'fontFamily', 'fontWeight',
+  'duration', 'cubicBezier', 'strokeStyle', 'border', 'transition', 'shadow', 'gradient', 'typography',
+]
+
+export const TOKEN_PROBLEM_LABELS: Record<TokenProblemKind, string> = {
+  invalid_node: 'Not a token or group',
+  non_string_value: 'Non-text value on a text token',
+  mixed_node: 'Token with children',
+  dotted_segment: 'Dot in name',
+  unknown_type: 'Unknown type',
+  type_conflict: 'Type differs between languages',
+  missing_in_language: 'Missing in this language',
+}
+
+interface Leaf {
+  path: string
+  type: string | null
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
+
+function jsonPath(parent: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`
+}
+
+// Walks one file the way flattenJsons reads it and reports what it would skip, coerce or merge
+function checkFile(file: TokenFile, problems: TokenProblem[]): Map<string, Leaf> {
+  const leaves = new Map<string, Leaf>()
+  const report = (kind: TokenProblemKind, path: string, message: string) =>
+    problems.push({ kind, fileName: file.fileName, language: file.language, path, message })
+
+  function checkType(node: Record<string, unknown>, path: string) {
+    if (!('$type' in node)) return
+    if (typeof node.$type !== 'string' || !KNOWN_TOKEN_TYPES.includes(node.$type)) {
+      report('unknown_type', jsonPath(path, '$type'), `Unknown $type ${JSON.stringify(node.$type)}`)
+    }
+  }
+
+  // Groups pass their $type down, so a number under a "number" group is fine
+  function walk(node: Record<string, unknown>, path: string, keyPath: string, groupType: string | null) {
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$')) continue
+
+      const childPath = jsonPath(path, key)
+      const childKeyPath = keyPath ? `${keyPath}.${key}` : key
+
+      if (!isObject(child)) {
+        report('invalid_node', childPath, `"${key}" is ${describeType(child)}, not a token or group; it is skipped`)
+        continue
+      }
+      if (key.includes('.')) {
+        report('dotted_segment', childPath, `"${key}" contains a dot, so it reads as the nested path ${childKeyPath}`)
+      }
+      checkType(child, childPath)
+
+      const type = typeof child.$type === 'string' ? child.$type : groupType
+      if (!('$value' in child)) {
+        walk(child, childPath, childKeyPath, type)
+        continue
+      }
+
+      const value = child.$value
+      if (typeof value !== 'string' && isTextType(type)) {
+        report(
+          'non_string_value',
+          jsonPath(childPath, '$value'),
+          `$value is ${describeType(value)} but the token is ${type ? `of type ${type}` : 'untyped'}; it is stored as text`,
+        )
+      }
+      const nested = Object.keys(child).filter((k) => !k.startsWith('$'))
+      if (nested.length > 0) {
+        report('mixed_node', childPath, `Has a $value and children (${nested.join(', ')}); the children are skipped`)
+      }
+      if (leaves.has(childKeyPath)) {
+        report('dotted_segment', childPath, `${childKeyPath} is defined twice in this file`)
+      }
+      leaves.set(childKeyPath, { path: childPath, type: typeof child.$type === 'string' ? child.$type : null })
+    }
+  }
+
+  if (!isObject(file.json)) {
+    report('invalid_node', '$', `The file holds ${describeType(file.json)}, not a token group`)
+    return leaves
+  }
+  walk(file.json, '$', '', typeof file.json.$type === 'string' ? file.json.$type : null)
+  return leaves
+}
+
+// Per-file structure first, then what the files disagree on: a key's $type, and keys only
+// some of the files have
+export function validateTokenFiles(files: TokenFile[]): TokenProblem[] {
+  const problems: TokenProblem[] = []
+  const leavesByFile = files.map((file) => ({ file, leaves: checkFile(file, problems) }))
+  if (files.length < 2) return problems
+
+  const allKeys = new Set(leavesByFile.flatMap(({ leaves }) => [...leaves.keys()]))
+
+  for (const keyPath of allKeys) {
+    const present = leavesByFile.filter(({ leaves }) => leaves.has(keyPath))
+    const typed = present.filter(({ leaves }) => leaves.get(keyPath)?.type)
+
+    for (const { file, leaves } of typed) {
+      const leaf = leaves.get(keyPath)
+      const other = typed.find((o) => o.leaves.get(keyPath)?.type !== leaf?.type)
+      if (!leaf || !other) continue
+      problems.push({
+        kind: 'type_conflict',
+        fileName: file.fileName,
+        language: file.language,
+        path: jsonPath(leaf.path, '$type'),
+        message: `$type is "${leaf.type}" here but "${other.leaves.get(keyPath)?.type}" in ${other.file.fileName}`,
+      })
+    }
+
+    if (present.length === files.length) continue
+    const names = present.map(({ file }) => file.fileName).join(', ')
+    for (const { file } of leavesByFile.filter(({ leaves }) => !leaves.has(keyPath))) {
+      problems.push({
+        kind: 'missing_in_language',
+        fileName: file.fileName,
+        language: file.language,
+        // Where the other files have it
+        path: present[0].leaves.get(keyPath)?.path ?? '$',
+        message: `${keyPath} is in ${names} but not in this file`,
+      })
+    }
+  }
+
+  return problems
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { acceptedForStrategy, changeId, computeUploadDiff, isEditedSinceImport, valueCategory } from './uploadDiff'
+import { flattenJsons } from './jsonFlattener'
+import { uploadFixture } from './__fixtures__/upload'
+import figmaEn from './__fixtures__/figma-variables-en.json'
+
+describe('computeUploadDiff', () => {
+  it('finds nothing to change when the same file is uploaded again', () => {
+    const { translations } = uploadFixture({ en: figmaEn })
+    // Stored extensions come back from jsonb with their keys reordered
+    expect(translations[0].extensions).toStrictEqual({ 'com.figma': { scopes: ['TEXT_CONTENT'], variableId: 'VariableID:12:1' } })
+
+    const diff = computeUploadDiff(flattenJsons({ en: figmaEn }).rows, translations, ['en'])
+
+    expect(diff.keys).toStrictEqual([])
+    expect(diff.unchangedCount).toBe(translations.length)
+  })
+
+  it('reports extensions whose content changed', () => {
+    const { translations } = uploadFixture({ en: figmaEn })
+    const { rows } = flattenJsons({ en: figmaEn })
+    rows[0].extensions = { 'com.figma': { variableId: 'VariableID:12:1', scopes: ['ALL_SCOPES'] } }
+
+    const diff = computeUploadDiff(rows, translations, ['en'])
+
+    expect(diff.keys.map((k) => [k.keyPath, k.changes.map((c) => c.category)])).toStrictEqual([['common.buttons.ok', ['extensions']]])
+  })
+})
+
+describe('database_wins', () => {
+  const imported = '2024-01-01T00:00:00Z'
+  const later = '2024-02-01T00:00:00Z'
+
+  it('only counts content changes as edits, not review status changes', () => {
+    const [t] = uploadFixture({ en: figmaEn }).translations
+    const approved = { ...t, imported_at: imported, updated_at: later, content_updated_at: imported }
+    const edited = { ...approved, content_updated_at: later }
+
+    expect(isEditedSinceImport(approved)).toBe(false)
+    expect(isEditedSinceImport(edited)).toBe(true)
+    expect(isEditedSinceImport({ ...approved, imported_at: null })).toBe(true)
+  })
+
+  it('takes the file for a row that was only approved and keeps the values of an edited one', () => {
+    const { translations } = uploadFixture({ en: figmaEn })
+    const { rows } = flattenJsons({ en: figmaEn })
+    rows[0].lang_values = { en: 'Okay' }
+    const [t] = translations
+    const approved = { ...t, imported_at: imported, updated_at: later, content_updated_at: imported }
+    const edited = { ...approved, content_updated_at: later }
+    const id = changeId(t.key_path, valueCategory('en'))
+
+    const accepted = (current: typeof t) =>
+      acceptedForStrategy(computeUploadDiff(rows, [current, ...translations.slice(1)], ['en']), 'database_wins')
+
+    expect(accepted(approved).has(id)).toBe(true)
+    expect(accepted(edited).has(id)).toBe(false)
+  })
+})
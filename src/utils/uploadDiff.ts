@@ -0,0 +1,271 @@
+import type { Translation, LangValues, HistoryField, Variants } from '../types'
+import type { FlatRow } from './jsonFlattener'
+import { getLangValue, languageLabel } from './languages'
+import { sameJson } from './designTokens'
+
+// 'added' | 'removed' | 'token_type' | 'figma_variable_id' | 'description' | 'extensions' | `value:${lang}`
+export type DiffCategory = string
+
+export interface FieldChange {
+  category: DiffCategory
+  before: string | null
+  after: string | null
+}
+
+export interface KeyDiff {
+  keyPath: string
+  kind: 'added' | 'removed' | 'changed'
+  changes: FieldChange[]
+  incoming: FlatRow | null
+  current: Translation | null
+}
+
+export interface UploadDiff {
+  keys: KeyDiff[]
+  unchangedCount: number
+}
+
+export interface UploadPlan {
+  upserts: {
+    project_id: string
+    key_path: string
+    lang_values: LangValues
+    lang_variants: Record<string, Variants>
+    token_type: string | null
+    figma_variable_id: string | null
+    description: string | null
+    extensions: Record<string, unknown>
+    imported_at: string | null
+  }[]
+  deleteIds: string[]
+  // Field-level changes for the edit history, keyed by key path until ids are known
+  history: {
+    key_path: string
+    field: HistoryField
+    language: string | null
+    old_value: string | null
+    new_value: string | null
+  }[]
+}
+
+export type MergeStrategy = 'fill_empty' | 'file_wins' | 'database_wins' | 'mirror'
+
+export const MERGE_STRATEGIES: { key: MergeStrategy; label: string; description: string }[] = [
+  {
+    key: 'fill_empty',
+    label: 'Only fill empty values',
+    description: 'Adds new keys and fills values that are empty in the database. Nothing is overwritten.',
+  },
+  {
+    key: 'file_wins',
+    label: 'File wins',
+    description: 'Overwrites every value present in the uploaded files.',
+  },
+  {
+    key: 'database_wins',
+    label: 'Database wins for edited rows',
+    description: 'Rows edited since their last import keep their values; other rows take the file.',
+  },
+  {
+    key: 'mirror',
+    label: 'Mirror',
+    description: 'File wins, and keys missing from the uploaded files are deleted.',
+  },
+]
+
+export function valueCategory(lang: string): DiffCategory {
+  return `value:${lang}`
+}
+
+export function diffCategories(languages: string[]): DiffCategory[] {
+  return ['added', 'removed', ...languages.map(valueCategory), 'token_type', 'figma_variable_id', 'description', 'extensions']
+}
+
+export function categoryLabel(category: DiffCategory): string {
+  if (category === 'added') return 'Added keys'
+  if (category === 'removed') return 'Removed keys'
+  if (category === 'token_type') return 'Token type'
+  if (category === 'figma_variable_id') return 'Figma variable ID'
+  if (category === 'description') return 'Description'
+  if (category === 'extensions') return 'Extensions'
+  return `${languageLabel(category.slice('value:'.length))} values`
+}
+
+export function changeId(keyPath: string, category: DiffCategory): string {
+  return `${keyPath}::${category}`
+}
+
+export function keyChangeIds(key: KeyDiff): string[] {
+  if (key.kind === 'changed') return key.changes.map((c) => changeId(key.keyPath, c.category))
+  return [changeId(key.keyPath, key.kind)]
+}
+
+export function computeUploadDiff(
+  rows: FlatRow[],
+  current: Translation[],
+  languages: string[],
+): UploadDiff {
+  const currentMap = new Map(current.map((t) => [t.key_path, t]))
+  const incomingKeys = new Set(rows.map((r) => r.key_path))
+  const keys: KeyDiff[] = []
+  let unchangedCount = 0
+
+  for (const row of rows) {
+    const existing = currentMap.get(row.key_path)
+
+    if (!existing) {
+      keys.push({ keyPath: row.key_path, kind: 'added', changes: [], incoming: row, current: null })
+      continue
+    }
+
+    const changes: FieldChange[] = []
+
+    // Only languages present in the uploaded files can change
+    for (const lang of languages) {
+      if (!(lang in row.lang_values)) continue
+      const before = getLangValue(existing.lang_values, lang)
+      const after = getLangValue(row.lang_values, lang)
+      if (before !== after) changes.push({ category: valueCategory(lang), before, after })
+    }
+
+    if (row.token_type && row.token_type !== existing.token_type) {
+      changes.push({ category: 'token_type', before: existing.token_type, after: row.token_type })
+    }
+    if (row.figma_variable_id && row.figma_variable_id !== existing.figma_variable_id) {
+      changes.push({ category: 'figma_variable_id', before: existing.figma_variable_id, after: row.figma_variable_id })
+    }
+    if (row.description && row.description !== existing.description) {
+      changes.push({ category: 'description', before: existing.description, after: row.description })
+    }
+    // Extensions travel as JSON text so they fit the same before/after shape as other fields.
+    // The stored copy comes back from jsonb with its keys reordered, so only content counts
+    if (Object.keys(row.extensions).length > 0 && !sameJson(row.extensions, existing.extensions ?? {})) {
+      changes.push({ category: 'extensions', before: JSON.stringify(existing.extensions ?? {}), after: JSON.stringify(row.extensions) })
+    }
+
+    if (changes.length > 0) {
+      keys.push({ keyPath: row.key_path, kind: 'changed', changes, incoming: row, current: existing })
+    } else {
+      unchangedCount++
+    }
+  }
+
+  for (const t of current) {
+    if (!incomingKeys.has(t.key_path)) {
+      keys.push({ keyPath: t.key_path, kind: 'removed', changes: [], incoming: null, current: t })
+    }
+  }
+
+  keys.sort((a, b) => a.keyPath.localeCompare(b.keyPath))
+  return { keys, unchangedCount }
+}
+
+// A row counts as edited when its content changed after its last import, or it was never
+// imported. Review status changes don't count
+export function isEditedSinceImport(t: Translation): boolean {
+  if (!t.imported_at) return true
+  return Date.parse(t.content_updated_at) > Date.parse(t.imported_at)
+}
+
+// Pre-selects the changes a strategy would apply; the user can still adjust them per key
+export function acceptedForStrategy(diff: UploadDiff, strategy: MergeStrategy): Set<string> {
+  const accepted = new Set<string>()
+
+  for (const key of diff.keys) {
+    if (key.kind === 'added') {
+      accepted.add(changeId(key.keyPath, 'added'))
+    } else if (key.kind === 'removed') {
+      if (strategy === 'mirror') accepted.add(changeId(key.keyPath, 'removed'))
+    } else {
+      const fillOnly =
+        strategy === 'fill_empty' ||
+        (strategy === 'database_wins' && key.current != null && isEditedSinceImport(key.current))
+
+      for (const c of key.changes) {
+        if (fillOnly && c.before != null && c.before !== '') continue
+        accepted.add(changeId(key.keyPath, c.category))
+      }
+    }
+  }
+
+  return accepted
+}
+
+export function buildUploadPlan(diff: UploadDiff, accepted: Set<string>, projectId: string): UploadPlan {
+  const plan: UploadPlan = { upserts: [], deleteIds: [], history: [] }
+  const importedAt = new Date().toISOString()
+
+  for (const key of diff.keys) {
+    if (key.kind === 'added' && key.incoming) {
+      if (!accepted.has(changeId(key.keyPath, 'added'))) continue
+      plan.upserts.push({
+        project_id: projectId,
+        key_path: key.keyPath,
+        lang_values: key.incoming.lang_values,
+        lang_variants: {},
+        token_type: key.incoming.token_type,
+        figma_variable_id: key.incoming.figma_variable_id,
+        description: key.incoming.description,
+        extensions: key.incoming.extensions,
+        imported_at: importedAt,
+      })
+      for (const [lang, value] of Object.entries(key.incoming.lang_values)) {
+        plan.history.push({ key_path: key.keyPath, field: 'value', language: lang, old_value: null, new_value: value })
+      }
+      if (key.incoming.token_type) {
+        plan.history.push({
+          key_path: key.keyPath,
+          field: 'token_type',
+          language: null,
+          old_value: null,
+          new_value: key.incoming.token_type,
+        })
+      }
+    } else if (key.kind === 'removed' && key.current) {
+      if (accepted.has(changeId(key.keyPath, 'removed'))) plan.deleteIds.push(key.current.id)
+    } else if (key.kind === 'changed' && key.current) {
+      const applied = key.changes.filter((c) => accepted.has(changeId(key.keyPath, c.category)))
+      if (applied.length === 0) continue
+
+      const update = {
+        project_id: projectId,
+        key_path: key.keyPath,
+        lang_values: { ...key.current.lang_values },
+        lang_variants: { ...key.current.lang_variants },
+        token_type: key.current.token_type,
+        figma_variable_id: key.current.figma_variable_id,
+        description: key.current.description,
+        extensions: key.current.extensions ?? {},
+        // Partially applied rows keep their old stamp so they still count as edited
+        imported_at: applied.length === key.changes.length ? importedAt : key.current.imported_at,
+      }
+      for (const c of applied) {
+        const entry = { key_path: key.keyPath, old_value: c.before, new_value: c.after }
+        if (c.category === 'token_type') {
+          update.token_type = c.after
+          plan.history.push({ ...entry, field: 'token_type', language: null })
+        } else if (c.category === 'figma_variable_id') {
+          update.figma_variable_id = c.after
+          plan.history.push({ ...entry, field: 'figma_variable_id', language: null })
+        } else if (c.category === 'description') {
+          update.description = c.after
+          plan.history.push({ ...entry, field: 'description', language: null })
+        } else if (c.category === 'extensions') {
+          update.extensions = c.after ? JSON.parse(c.after) : {}
+          plan.history.push({ ...entry, field: 'extensions', language: null })
+        } else {
+          const lang = c.category.slice('value:'.length)
+          update.lang_values[lang] = c.after
+          // Files only carry one string per language; it replaces the "other" form
+          if (key.current.variant_kind && c.after != null) {
+            update.lang_variants[lang] = { ...update.lang_variants[lang], other: c.after }
+          }
+          plan.history.push({ ...entry, field: 'value', language: lang })
+        }
+      }
+      plan.upserts.push(update)
+    }
+  }
+
+  return plan
+}
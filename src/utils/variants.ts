@@ -0,0 +1,96 @@
+import type { Translation, ValueIssue, Variants, VariantKind } from '../types'
+import { getLangValue } from './languages'
+
+// CLDR order, used to sort whatever subset a locale needs
+const PLURAL_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other']
+
+export const VARIANT_KIND_LABELS: Record<VariantKind, string> = {
+  plural: 'Plural',
+  select: 'Select',
+}
+
+export const DEFAULT_VARIANT_ARGS: Record<VariantKind, string> = {
+  plural: 'count',
+  select: 'gender',
+}
+
+// Categories the locale's plural rules can select, e.g. en → one/other, ru → one/few/many/other
+export function pluralCategories(lang: string): string[] {
+  try {
+    const categories = new Intl.PluralRules(lang).resolvedOptions().pluralCategories
+    return PLURAL_ORDER.filter((c) => categories.includes(c as Intl.LDMLPluralRule))
+  } catch {
+    return ['one', 'other']
+  }
+}
+
+// Select cases are shared by every language: whatever any language defines, with other last
+export function selectCases(t: Translation): string[] {
+  const cases = new Set<string>()
+  for (const variants of Object.values(t.lang_variants ?? {})) {
+    for (const c of Object.keys(variants)) if (c !== 'other') cases.add(c)
+  }
+  return [...cases, 'other']
+}
+
+export function requiredCategories(t: Translation, lang: string): string[] {
+  if (t.variant_kind === 'plural') return pluralCategories(lang)
+  if (t.variant_kind === 'select') return selectCases(t)
+  return []
+}
+
+export function getVariants(t: Translation, lang: string): Variants {
+  return t.lang_variants?.[lang] ?? {}
+}
+
+// Filled-in forms in CLDR (or select-case) order for export, or null when the token has no
+// variants in this language
+export function exportVariants(t: Translation, lang: string): [string, string][] | null {
+  if (!t.variant_kind || getLangValue(t.lang_values, lang) == null) return null
+
+  const variants = getVariants(t, lang)
+  const order = t.variant_kind === 'plural' ? PLURAL_ORDER : selectCases(t)
+  const filled = order.filter((c) => variants[c]).map((c): [string, string] => [c, variants[c]])
+  return filled.length > 0 ? filled : null
+}
+
+// Turning a plain token into a plural or select one seeds "other" with the current value;
+// turning it back keeps only that value
+export function convertVariantKind(
+  t: Translation,
+  kind: VariantKind | null,
+  arg: string | null,
+): Pick<Translation, 'variant_kind' | 'variant_arg' | 'lang_variants'> {
+  if (!kind) return { variant_kind: null, variant_arg: null, lang_variants: {} }
+
+  const langVariants: Record<string, Variants> = {}
+  for (const [lang, value] of Object.entries(t.lang_values)) {
+    if (value == null) continue
+    langVariants[lang] = t.variant_kind === kind ? { ...getVariants(t, lang) } : { other: value }
+  }
+
+  return {
+    variant_kind: kind,
+    variant_arg: arg || DEFAULT_VARIANT_ARGS[kind],
+    lang_variants: langVariants,
+  }
+}
+
+// Languages that have a value must fill every category their locale requires
+export function checkVariants(t: Translation, languages: string[]): ValueIssue[] {
+  if (!t.variant_kind) return []
+
+  return languages.flatMap((lang) => {
+    if (getLangValue(t.lang_values, lang) == null) return []
+    const variants = getVariants(t, lang)
+    const missing = requiredCategories(t, lang).filter((c) => !variants[c])
+    if (missing.length === 0) return []
+
+    const what = t.variant_kind === 'plural' ? 'plural forms' : 'select cases'
+    return [{
+      language: lang,
+      kind: 'variants' as const,
+      message: `Missing ${what}: ${missing.join(', ')}`,
+    }]
+  })
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { buildI18nextJson, buildIcuJson, buildPoFile, buildXliff, toIcuMessage } from './webExport'
+import { token } from './__fixtures__/translations'
+
+describe('i18next export', () => {
+  const translations = [token('home.title', { en: 'Hi' }), token('home.body', { de: 'Text' }, {}, 1)]
+
+  it('nests key paths or keeps them flat, leaving out missing values', () => {
+    expect(buildI18nextJson(translations, 'en', true)).toStrictEqual({ home: { title: 'Hi' } })
+    expect(buildI18nextJson(translations, 'en', false)).toStrictEqual({ 'home.title': 'Hi' })
+  })
+})
+
+describe('ICU export', () => {
+  it('turns {{name}} into {name} and doubles apostrophes', () => {
+    expect(toIcuMessage("{{ name }}'s {{count}} files")).toBe("{name}''s {count} files")
+  })
+
+  it('writes plurals as one ICU message', () => {
+    const plural = token('cart.items', { en: '{{count}} items' }, {
+      variant_kind: 'plural',
+      variant_arg: 'count',
+      lang_variants: { en: { other: '{{count}} items', one: 'One item' } },
+    })
+    expect(buildIcuJson([plural], 'en')).toStrictEqual({ 'cart.items': '{count, plural, one {One item} other {{count} items}}' })
+  })
+})
+
+describe('gettext export', () => {
+  it('keys entries by msgctxt, escapes text and marks values awaiting review as fuzzy', () => {
+    const t = token('home.quote', { en: 'Say "hi"\nnow', de: 'Sag "hallo"\\' }, {
+      lang_status: { de: { status: 'needs_review', comment: null } },
+    })
+    const po = buildPoFile([t, token('home.empty', {}, {}, 1)], 'de', 'en')
+
+    expect(po.split('\n').slice(5)).toStrictEqual([
+      '#, fuzzy',
+      'msgctxt "home.quote"',
+      'msgid "Say \\"hi\\"\\nnow"',
+      'msgstr "Sag \\"hallo\\"\\\\"',
+      '',
+      'msgctxt "home.empty"',
+      'msgid "home.empty"',
+      'msgstr ""',
+      '',
+    ])
+  })
+})
+
+describe('XLIFF export', () => {
+  it('escapes markup, keeps the key path in name and maps review status to state', () => {
+    const approved = token('home.title', { en: 'Fish & <b>chips</b>', de: 'Fisch' }, {
+      lang_status: { de: { status: 'approved', comment: null } },
+    })
+    const untranslated = token('home.body', { en: 'Body' }, {}, 1)
+    const xliff = buildXliff([approved, untranslated, token('home.none', { de: 'Nur' }, {}, 2)], 'en', 'de', 'app "de".xlf')
+
+    expect(xliff).toContain('srcLang="en" trgLang="de"')
+    expect(xliff).toContain('original="app &quot;de&quot;.xlf"')
+    expect(xliff).toContain([
+      '    <unit id="u1" name="home.title">',
+      '      <segment state="final">',
+      '        <source>Fish &amp; &lt;b&gt;chips&lt;/b&gt;</source>',
+      '        <target>Fisch</target>',
+    ].join('\n'))
+    expect(xliff).toContain('<segment state="initial">\n        <source>Body</source>\n      </segment>')
+    expect(xliff).not.toContain('home.none')
+  })
+})
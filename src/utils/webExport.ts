@@ -0,0 +1,132 @@
+import type { Translation } from '../types'
+import { getLangValue } from './languages'
+import { getValueStatus } from './reviewStatus'
+import { setNestedValue } from './jsonBuilder'
+import { exportVariants } from './variants'
+
+export function buildI18nextJson(
+  translations: Translation[],
+  lang: string,
+  nested: boolean,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+
+  for (const t of translations) {
+    const value = getLangValue(t.lang_values, lang)
+    if (value == null) continue
+
+    if (nested) setNestedValue(result, t.key_path, value)
+    else result[t.key_path] = value
+  }
+
+  return result
+}
+
+// Rewrites i18next-style {{name}} placeholders as ICU arguments and doubles
+// apostrophes, which ICU otherwise treats as quoting characters
+export function toIcuMessage(value: string): string {
+  return value
+    .replace(/'/g, "''")
+    .replace(/\{\{\s*([\w.]+)\s*\}\}/g, '{$1}')
+}
+
+export function buildIcuJson(translations: Translation[], lang: string): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const t of translations) {
+    const value = getLangValue(t.lang_values, lang)
+    if (value == null) continue
+
+    const forms = exportVariants(t, lang)
+    if (forms) {
+      const branches = forms.map(([category, text]) => `${category} {${toIcuMessage(text)}}`)
+      result[t.key_path] = `{${t.variant_arg || 'count'}, ${t.variant_kind}, ${branches.join(' ')}}`
+    } else {
+      result[t.key_path] = toIcuMessage(value)
+    }
+  }
+
+  return result
+}
+
+function escapePo(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+}
+
+// msgid is the source-language text (falling back to the key path) and msgctxt
+// the key path, so identical source strings stay separate entries
+export function buildPoFile(
+  translations: Translation[],
+  lang: string,
+  sourceLanguage: string,
+): string {
+  const lines = [
+    'msgid ""',
+    'msgstr ""',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    `"Language: ${lang}\\n"`,
+    '',
+  ]
+
+  for (const t of translations) {
+    const source = getLangValue(t.lang_values, sourceLanguage) || t.key_path
+    const value = getLangValue(t.lang_values, lang)
+
+    if (value != null && getValueStatus(t, lang) === 'needs_review') lines.push('#, fuzzy')
+    lines.push(`msgctxt "${escapePo(t.key_path)}"`)
+    lines.push(`msgid "${escapePo(source)}"`)
+    lines.push(`msgstr "${escapePo(value ?? '')}"`)
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function xliffState(t: Translation, lang: string): string {
+  const status = getValueStatus(t, lang)
+  if (status === 'missing') return 'initial'
+  if (status === 'approved') return 'final'
+  return 'translated'
+}
+
+// XLIFF 2.0 unit ids must be NMTOKENs, so the key path travels in the name attribute
+export function buildXliff(
+  translations: Translation[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  fileName: string,
+): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${sourceLanguage}" trgLang="${targetLanguage}">`,
+    `  <file id="f1" original="${escapeXml(fileName)}">`,
+  ]
+
+  translations.forEach((t, i) => {
+    const source = getLangValue(t.lang_values, sourceLanguage)
+    if (source == null) return
+    const target = getLangValue(t.lang_values, targetLanguage)
+
+    lines.push(`    <unit id="u${i + 1}" name="${escapeXml(t.key_path)}">`)
+    lines.push(`      <segment state="${xliffState(t, targetLanguage)}">`)
+    lines.push(`        <source>${escapeXml(source)}</source>`)
+    if (target != null) lines.push(`        <target>${escapeXml(target)}</target>`)
+    lines.push('      </segment>')
+    lines.push('    </unit>')
+  })
+
+  lines.push('  </file>', '</xliff>', '')
+  return lines.join('\n')
+}
@@ -0,0 +1,134 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+
+// Just enough of SpreadsheetML for a single sheet of text cells
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    // Control characters other than tab and newlines aren't valid XML
+    .replace(/[^\t\n\r\P{Cc}]/gu, '')
+}
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] ?? 'A'
+  let index = 0
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64)
+  return index - 1
+}
+
+export function buildXlsx(rows: (string | null)[][], sheetName = 'Sheet1'): Uint8Array {
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      if (!value) return ''
+      return `<c r="${columnName(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+    })
+    return `<row r="${r + 1}">${cells.join('')}</row>`
+  })
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels': XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml': XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName).replace(/"/g, '&quot;')}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels': XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': XML_HEADER +
+      `<worksheet xmlns="${MAIN_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+  }
+
+  const entries: Record<string, Uint8Array> = {}
+  for (const [path, content] of Object.entries(files)) entries[path] = strToU8(content)
+  return zipSync(entries)
+}
+
+function parsePart(entries: Record<string, Uint8Array>, path: string): Document | null {
+  const data = entries[path]
+  if (!data) return null
+  return new DOMParser().parseFromString(strFromU8(data), 'application/xml')
+}
+
+// Rich text runs are concatenated; phonetic hints (<rPh>) are skipped
+function cellText(el: Element): string {
+  return Array.from(el.getElementsByTagNameNS('*', 't'))
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('')
+}
+
+// Reads the first worksheet as rows of strings; empty cells come back as ''
+export function readXlsx(data: Uint8Array): string[][] {
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(data)
+  } catch {
+    throw new Error('Not a valid .xlsx file')
+  }
+
+  const workbook = parsePart(entries, 'xl/workbook.xml')
+  const firstSheet = workbook?.getElementsByTagNameNS('*', 'sheet')[0]
+  if (!firstSheet) throw new Error('The workbook has no sheets')
+
+  const relId = firstSheet.getAttributeNS(REL_NS, 'id')
+  const rels = parsePart(entries, 'xl/_rels/workbook.xml.rels')
+  const target = Array.from(rels?.getElementsByTagNameNS('*', 'Relationship') ?? [])
+    .find((r) => r.getAttribute('Id') === relId)
+    ?.getAttribute('Target')
+  const sheetPath = target
+    ? target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml'
+
+  const sheet = parsePart(entries, sheetPath)
+  if (!sheet) throw new Error('The first sheet could not be read')
+
+  const sharedStrings = Array.from(
+    parsePart(entries, 'xl/sharedStrings.xml')?.getElementsByTagNameNS('*', 'si') ?? [],
+  ).map(cellText)
+
+  return Array.from(sheet.getElementsByTagNameNS('*', 'row')).map((rowEl) => {
+    const row: string[] = []
+
+    for (const cell of Array.from(rowEl.getElementsByTagNameNS('*', 'c'))) {
+      const ref = cell.getAttribute('r')
+      const index = ref ? columnIndex(ref) : row.length
+      const type = cell.getAttribute('t')
+      const raw = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent ?? ''
+
+      let value = raw
+      if (type === 's') value = sharedStrings[Number(raw)] ?? ''
+      else if (type === 'inlineStr') value = cellText(cell)
+
+      while (row.length < index) row.push('')
+      row[index] = value
+    }
+
+    return row
+  })
+}
@@ -0,0 +1,10 @@
+import { strToU8, zipSync } from 'fflate'
+
+// Paths may contain folders, e.g. { 'values-az/strings.xml': '…' }
+export function buildZip(files: Record<string, string>): Uint8Array {
+  const entries: Record<string, Uint8Array> = {}
+  for (const [path, content] of Object.entries(files)) {
+    entries[path] = strToU8(content)
+  }
+  return zipSync(entries)
+}
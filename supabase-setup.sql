@@ -3,15 +3,14 @@
 -- Run this in your Supabase SQL Editor (Database > SQL Editor)
 -- ============================================================
 
--- Enable pgcrypto for password hashing
-create extension if not exists pgcrypto;
-
 -- ============================================================
 -- 1. projects table
 -- ============================================================
 create table if not exists projects (
   id uuid primary key default gen_random_uuid(),
   name text not null,
+  languages text[] not null default '{az,en,ru}',
+  source_language text not null default 'en',
   created_at timestamptz default now()
 );
 
@@ -22,12 +21,11 @@ create table if not exists translations (
   id uuid primary key default gen_random_uuid(),
   project_id uuid not null references projects(id) on delete cascade,
   key_path text not null,
-  az_value text,
-  en_value text,
-  ru_value text,
+  lang_values jsonb not null default '{}',
   token_type text,
   figma_variable_id text,
   original_key text,
+  imported_at timestamptz,
   created_at timestamptz default now(),
   updated_at timestamptz default now(),
   unique (project_id, key_path)
@@ -62,67 +60,1009 @@ create table if not exists group_extensions (
 );
 
 -- ============================================================
--- 4. app_settings table (for shared password)
+-- 4. Row Level Security
+-- ============================================================
+
+-- Role-based policies for these tables are defined in section 9.
+alter table projects enable row level security;
+alter table translations enable row level security;
+alter table group_extensions enable row level security;
+
+-- ============================================================
+-- 5. Enable Realtime on translations
+-- ============================================================
+alter publication supabase_realtime add table translations;
+
+-- ============================================================
+-- 6. Migration: per-project language list
+-- Existing installs: run this section on its own. It copies the
+-- legacy az_value/en_value/ru_value columns into
+-- translations.lang_values before dropping them, and is a no-op
+-- once they are gone.
+-- ============================================================
+alter table projects add column if not exists languages text[] not null default '{az,en,ru}';
+alter table projects add column if not exists source_language text not null default 'en';
+alter table translations add column if not exists lang_values jsonb not null default '{}';
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'translations' and column_name = 'az_value'
+  ) then
+    update translations
+    set lang_values = jsonb_strip_nulls(jsonb_build_object(
+      'az', az_value,
+      'en', en_value,
+      'ru', ru_value
+    )) || lang_values;
+
+    alter table translations
+      drop column az_value,
+      drop column en_value,
+      drop column ru_value;
+  end if;
+end $$;
+
+-- ============================================================
+-- 7. Migration: import timestamps for merge strategies
+-- imported_at is stamped with the server time whenever an upload
+-- sets it, so it equals updated_at until the row is edited again.
 -- ============================================================
-create table if not exists app_settings (
-  key text primary key,
-  value text not null
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'translations' and column_name = 'imported_at'
+  ) then
+    alter table translations add column imported_at timestamptz;
+    -- Existing rows touched after creation are treated as edited
+    update translations set imported_at = created_at;
+  end if;
+end $$;
+
+create or replace function stamp_imported_at()
+returns trigger as $$
+begin
+  if new.imported_at is not null
+     and (tg_op = 'INSERT' or new.imported_at is distinct from old.imported_at) then
+    new.imported_at = now();
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists translations_imported_at on translations;
+create trigger translations_imported_at
+  before insert or update on translations
+  for each row execute function stamp_imported_at();
+
+-- ============================================================
+-- 8. Edit history
+-- Every change to a value, key path or token type, whether made
+-- in the table, by an upload or by a bulk action. Uploads are
+-- grouped under an imports row so a change can be traced back to
+-- the files that caused it.
+-- ============================================================
+create table if not exists imports (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects(id) on delete cascade,
+  file_names text[] not null default '{}',
+  strategy text not null,
+  imported_by text,
+  created_at timestamptz default now()
+);
+
+create table if not exists translation_history (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects(id) on delete cascade,
+  translation_id uuid references translations(id) on delete set null,
+  import_id uuid references imports(id) on delete set null,
+  key_path text not null,
+  field text not null check (field in ('value', 'key_path', 'token_type', 'figma_variable_id')),
+  language text,
+  old_value text,
+  new_value text,
+  source text not null check (source in ('manual', 'upload', 'bulk', 'revert')),
+  changed_by text,
+  changed_at timestamptz default now()
 );
 
--- Set initial password (change 'your-password-here' to your actual password)
-insert into app_settings (key, value)
-values ('access_password', crypt('your-password-here', gen_salt('bf')))
-on conflict (key) do update set value = excluded.value;
+create index if not exists idx_translation_history_translation
+  on translation_history (translation_id, changed_at desc);
+
+-- Role-based policies for these tables are defined in section 9.
+alter table imports enable row level security;
+alter table translation_history enable row level security;
 
 -- ============================================================
--- 5. RPC function to verify password
+-- 9. Accounts and roles
+-- Replaces the shared password with Supabase Auth accounts. Every
+-- account gets a profiles row (with no role since section 17, until
+-- an admin gives it one). Promote the first admin by hand:
+--   update profiles set role = 'admin' where email = 'you@example.com';
+--
+-- Roles:
+--   admin       everything, including deleting projects and tokens
+--   developer   uploads, key paths, token types and all values
+--   translator  only the values of the languages in profiles.languages
+--   reviewer    read-only (section 10 lets them approve and reject)
 -- ============================================================
-create or replace function verify_password(input_password text)
-returns boolean as $$
+drop function if exists verify_password(text);
+drop table if exists app_settings;
+
+create table if not exists profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  email text not null,
+  display_name text,
+  role text not null default 'reviewer'
+    check (role in ('admin', 'developer', 'translator', 'reviewer')),
+  languages text[] not null default '{}',
+  created_at timestamptz default now()
+);
+
+create or replace function handle_new_user()
+returns trigger as $$
+begin
+  insert into public.profiles (id, email)
+  values (new.id, new.email)
+  on conflict (id) do nothing;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function handle_new_user();
+
+-- Accounts created before this migration
+insert into profiles (id, email)
+select id, email from auth.users
+on conflict (id) do nothing;
+
+create or replace function current_user_role()
+returns text as $$
+  select role from public.profiles where id = auth.uid();
+$$ language sql stable security definer set search_path = public;
+
+create or replace function current_user_languages()
+returns text[] as $$
+  select languages from public.profiles where id = auth.uid();
+$$ language sql stable security definer set search_path = public;
+
+-- Translators may only change lang_values entries for their own languages
+create or replace function enforce_translator_scope()
+returns trigger as $$
 declare
-  stored_hash text;
+  lang text;
 begin
-  select value into stored_hash from app_settings where key = 'access_password';
-  if stored_hash is null then return false; end if;
-  return stored_hash = crypt(input_password, stored_hash);
+  if current_user_role() is distinct from 'translator' then
+    return new;
+  end if;
+
+  if new.key_path is distinct from old.key_path
+     or new.token_type is distinct from old.token_type
+     or new.figma_variable_id is distinct from old.figma_variable_id
+     or new.original_key is distinct from old.original_key
+     or new.project_id is distinct from old.project_id then
+    raise exception 'Translators can only edit translation values';
+  end if;
+
+  for lang in
+    select jsonb_object_keys(new.lang_values)
+    union
+    select jsonb_object_keys(old.lang_values)
+  loop
+    if (new.lang_values -> lang) is distinct from (old.lang_values -> lang)
+       and not (lang = any(coalesce(current_user_languages(), '{}'))) then
+      raise exception 'You are not allowed to edit % values', lang;
+    end if;
+  end loop;
+
+  return new;
 end;
-$$ language plpgsql security definer;
+$$ language plpgsql;
+
+drop trigger if exists translations_translator_scope on translations;
+create trigger translations_translator_scope
+  before update on translations
+  for each row execute function enforce_translator_scope();
+
+-- History and imports are attributed to the signed-in account, not the client
+create or replace function stamp_changed_by()
+returns trigger as $$
+declare
+  author text;
+begin
+  select coalesce(display_name, email) into author from public.profiles where id = auth.uid();
+  if tg_table_name = 'imports' then
+    new.imported_by = author;
+  else
+    new.changed_by = author;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists imports_changed_by on imports;
+create trigger imports_changed_by
+  before insert on imports
+  for each row execute function stamp_changed_by();
+
+drop trigger if exists translation_history_changed_by on translation_history;
+create trigger translation_history_changed_by
+  before insert on translation_history
+  for each row execute function stamp_changed_by();
+
+-- Drop the old allow-everything policies
+drop policy if exists "Allow all on projects" on projects;
+drop policy if exists "Allow all on translations" on translations;
+drop policy if exists "Allow all on group_extensions" on group_extensions;
+drop policy if exists "Allow all on imports" on imports;
+drop policy if exists "Allow all on translation_history" on translation_history;
+
+alter table profiles enable row level security;
+
+-- profiles
+drop policy if exists "Profiles readable by members" on profiles;
+create policy "Profiles readable by members"
+  on profiles for select to authenticated
+  using (true);
+
+drop policy if exists "Admins manage profiles" on profiles;
+create policy "Admins manage profiles"
+  on profiles for update to authenticated
+  using (current_user_role() = 'admin')
+  with check (current_user_role() = 'admin');
+
+-- projects
+drop policy if exists "Projects readable by members" on projects;
+create policy "Projects readable by members"
+  on projects for select to authenticated
+  using (current_user_role() is not null);
+
+drop policy if exists "Admins manage projects" on projects;
+create policy "Admins manage projects"
+  on projects for all to authenticated
+  using (current_user_role() = 'admin')
+  with check (current_user_role() = 'admin');
+
+-- translations
+drop policy if exists "Translations readable by members" on translations;
+create policy "Translations readable by members"
+  on translations for select to authenticated
+  using (current_user_role() is not null);
+
+drop policy if exists "Developers insert translations" on translations;
+create policy "Developers insert translations"
+  on translations for insert to authenticated
+  with check (current_user_role() in ('admin', 'developer'));
+
+drop policy if exists "Editors update translations" on translations;
+create policy "Editors update translations"
+  on translations for update to authenticated
+  using (current_user_role() in ('admin', 'developer', 'translator'))
+  with check (current_user_role() in ('admin', 'developer', 'translator'));
+
+drop policy if exists "Admins delete translations" on translations;
+create policy "Admins delete translations"
+  on translations for delete to authenticated
+  using (current_user_role() = 'admin');
+
+-- group_extensions
+drop policy if exists "Group extensions readable by members" on group_extensions;
+create policy "Group extensions readable by members"
+  on group_extensions for select to authenticated
+  using (current_user_role() is not null);
+
+drop policy if exists "Developers write group extensions" on group_extensions;
+create policy "Developers write group extensions"
+  on group_extensions for insert to authenticated
+  with check (current_user_role() in ('admin', 'developer'));
+
+drop policy if exists "Developers update group extensions" on group_extensions;
+create policy "Developers update group extensions"
+  on group_extensions for update to authenticated
+  using (current_user_role() in ('admin', 'developer'))
+  with check (current_user_role() in ('admin', 'developer'));
+
+drop policy if exists "Admins delete group extensions" on group_extensions;
+create policy "Admins delete group extensions"
+  on group_extensions for delete to authenticated
+  using (current_user_role() = 'admin');
+
+-- imports
+drop policy if exists "Imports readable by members" on imports;
+create policy "Imports readable by members"
+  on imports for select to authenticated
+  using (current_user_role() is not null);
+
+drop policy if exists "Developers record imports" on imports;
+create policy "Developers record imports"
+  on imports for insert to authenticated
+  with check (current_user_role() in ('admin', 'developer'));
+
+-- translation_history (append-only)
+drop policy if exists "History readable by members" on translation_history;
+create policy "History readable by members"
+  on translation_history for select to authenticated
+  using (current_user_role() is not null);
+
+drop policy if exists "Editors record history" on translation_history;
+create policy "Editors record history"
+  on translation_history for insert to authenticated
+  with check (current_user_role() in ('admin', 'developer', 'translator'));
 
 -- ============================================================
--- 6. Row Level Security
+-- 10. Review workflow
+-- lang_status holds { "<lang>": { "status": ..., "comment": ... } }.
+-- A language without an entry is a draft (or missing when it has
+-- no value). Changing a value puts it back to draft unless the same
+-- update also sets its status.
 -- ============================================================
+alter table translations add column if not exists lang_status jsonb not null default '{}';
 
--- projects: allow all operations for anon
-alter table projects enable row level security;
+create or replace function reset_review_status()
+returns trigger as $$
+declare
+  lang text;
+begin
+  for lang in
+    select jsonb_object_keys(new.lang_values)
+    union
+    select jsonb_object_keys(old.lang_values)
+  loop
+    if (new.lang_values -> lang) is distinct from (old.lang_values -> lang)
+       and (new.lang_status -> lang) is not distinct from (old.lang_status -> lang) then
+      new.lang_status = new.lang_status - lang;
+    end if;
+  end loop;
+  return new;
+end;
+$$ language plpgsql;
 
-create policy "Allow all on projects"
-  on projects for all
-  using (true)
-  with check (true);
+drop trigger if exists translations_reset_review_status on translations;
+create trigger translations_reset_review_status
+  before update on translations
+  for each row execute function reset_review_status();
 
--- translations: allow all operations for anon
-alter table translations enable row level security;
+-- Reviewers may only change statuses; only admins and reviewers may
+-- approve or reject. Developers and translators may only submit values
+-- for review or move them back to draft, translators only in their
+-- own languages
+create or replace function enforce_review_scope()
+returns trigger as $$
+declare
+  user_role text := current_user_role();
+  lang text;
+  next_status text;
+begin
+  if user_role = 'reviewer' and (
+       new.lang_values is distinct from old.lang_values
+       or new.key_path is distinct from old.key_path
+       or new.token_type is distinct from old.token_type
+       or new.figma_variable_id is distinct from old.figma_variable_id
+       or new.original_key is distinct from old.original_key
+       or new.project_id is distinct from old.project_id) then
+    raise exception 'Reviewers can only change review status';
+  end if;
 
-create policy "Allow all on translations"
-  on translations for all
-  using (true)
-  with check (true);
+  if coalesce(user_role, '') not in ('admin', 'reviewer') then
+    for lang in
+      select jsonb_object_keys(new.lang_status)
+      union
+      select jsonb_object_keys(old.lang_status)
+    loop
+      if (new.lang_status -> lang) is distinct from (old.lang_status -> lang) then
+        if user_role = 'translator' and not (lang = any(coalesce(current_user_languages(), '{}'))) then
+          raise exception 'You are not allowed to review % values', lang;
+        end if;
 
--- group_extensions: allow all operations for anon
-alter table group_extensions enable row level security;
+        next_status := new.lang_status -> lang ->> 'status';
+        if next_status is not null and next_status not in ('draft', 'needs_review') then
+          raise exception 'Only reviewers can approve or reject values';
+        end if;
+      end if;
+    end loop;
+  end if;
 
-create policy "Allow all on group_extensions"
-  on group_extensions for all
-  using (true)
-  with check (true);
+  return new;
+end;
+$$ language plpgsql;
 
--- app_settings: no direct access (only through RPC)
-alter table app_settings enable row level security;
+drop trigger if exists translations_review_scope on translations;
+create trigger translations_review_scope
+  before update on translations
+  for each row execute function enforce_review_scope();
 
--- No policy = no direct access. The verify_password function uses SECURITY DEFINER
--- to bypass RLS and read the table.
+-- Reviewers now write statuses
+drop policy if exists "Editors update translations" on translations;
+create policy "Editors update translations"
+  on translations for update to authenticated
+  using (current_user_role() in ('admin', 'developer', 'translator', 'reviewer'))
+  with check (current_user_role() in ('admin', 'developer', 'translator', 'reviewer'));
 
 -- ============================================================
--- 7. Enable Realtime on translations
+-- 11. Plural and select forms
+-- variant_kind marks a token whose text depends on a number (CLDR
+-- plural categories: zero/one/two/few/many/other) or on a select
+-- argument such as gender. lang_variants holds
+-- { "<lang>": { "<category>": "text", ... } } and lang_values keeps
+-- each language's "other" form for formats without plurals. The
+-- role and review triggers from sections 9 and 10 now cover
+-- lang_variants the same way as lang_values.
 -- ============================================================
-alter publication supabase_realtime add table translations;
+alter table translations add column if not exists variant_kind text
+  check (variant_kind in ('plural', 'select'));
+alter table translations add column if not exists variant_arg text;
+alter table translations add column if not exists lang_variants jsonb not null default '{}';
+
+alter table translation_history drop constraint if exists translation_history_field_check;
+alter table translation_history add constraint translation_history_field_check
+  check (field in ('value', 'variants', 'key_path', 'token_type', 'figma_variable_id'));
+
+create or replace function enforce_translator_scope()
+returns trigger as $$
+declare
+  lang text;
+begin
+  if current_user_role() is distinct from 'translator' then
+    return new;
+  end if;
+
+  if new.key_path is distinct from old.key_path
+     or new.token_type is distinct from old.token_type
+     or new.figma_variable_id is distinct from old.figma_variable_id
+     or new.original_key is distinct from old.original_key
+     or new.variant_kind is distinct from old.variant_kind
+     or new.variant_arg is distinct from old.variant_arg
+     or new.project_id is distinct from old.project_id then
+    raise exception 'Translators can only edit translation values';
+  end if;
+
+  for lang in
+    select jsonb_object_keys(new.lang_values)
+    union
+    select jsonb_object_keys(old.lang_values)
+    union
+    select jsonb_object_keys(new.lang_variants)
+    union
+    select jsonb_object_keys(old.lang_variants)
+  loop
+    if ((new.lang_values -> lang) is distinct from (old.lang_values -> lang)
+        or (new.lang_variants -> lang) is distinct from (old.lang_variants -> lang))
+       and not (lang = any(coalesce(current_user_languages(), '{}'))) then
+      raise exception 'You are not allowed to edit % values', lang;
+    end if;
+  end loop;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create or replace function reset_review_status()
+returns trigger as $$
+declare
+  lang text;
+begin
+  for lang in
+    select jsonb_object_keys(new.lang_values)
+    union
+    select jsonb_object_keys(old.lang_values)
+    union
+    select jsonb_object_keys(new.lang_variants)
+    union
+    select jsonb_object_keys(old.lang_variants)
+  loop
+    if ((new.lang_values -> lang) is distinct from (old.lang_values -> lang)
+        or (new.lang_variants -> lang) is distinct from (old.lang_variants -> lang))
+       and (new.lang_status -> lang) is not distinct from (old.lang_status -> lang) then
+      new.lang_status = new.lang_status - lang;
+    end if;
+  end loop;
+  return new;
+end;
+$$ language plpgsql;
+
+create or replace function enforce_review_scope()
+returns trigger as $$
+declare
+  user_role text := current_user_role();
+  lang text;
+  next_status text;
+begin
+  if user_role = 'reviewer' and (
+       new.lang_values is distinct from old.lang_values
+       or new.lang_variants is distinct from old.lang_variants
+       or new.variant_kind is distinct from old.variant_kind
+       or new.variant_arg is distinct from old.variant_arg
+       or new.key_path is distinct from old.key_path
+       or new.token_type is distinct from old.token_type
+       or new.figma_variable_id is distinct from old.figma_variable_id
+       or new.original_key is distinct from old.original_key
+       or new.project_id is distinct from old.project_id) then
+    raise exception 'Reviewers can only change review status';
+  end if;
+
+  if coalesce(user_role, '') not in ('admin', 'reviewer') then
+    for lang in
+      select jsonb_object_keys(new.lang_status)
+      union
+      select jsonb_object_keys(old.lang_status)
+    loop
+      if (new.lang_status -> lang) is distinct from (old.lang_status -> lang) then
+        if user_role = 'translator' and not (lang = any(coalesce(current_user_languages(), '{}'))) then
+          raise exception 'You are not allowed to review % values', lang;
+        end if;
+
+        next_status := new.lang_status -> lang ->> 'status';
+        if next_status is not null and next_status not in ('draft', 'needs_review') then
+          raise exception 'Only reviewers can approve or reject values';
+        end if;
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- 12. Atomic key renames
+-- rename_keys applies a batch of key path changes in a single
+-- transaction: either every key is renamed or none is. Keys first
+-- move to a temporary path so a batch may hand a path from one key
+-- to another without tripping unique (project_id, key_path). The
+-- first rename of a key keeps its old path in original_key. The
+-- function runs with the caller's rights, so the policies and
+-- triggers above still decide who may rename.
+-- ============================================================
+create or replace function rename_keys(p_project_id uuid, p_renames jsonb, p_source text default 'bulk')
+returns void as $$
+declare
+  renamed integer;
+begin
+  insert into translation_history (project_id, translation_id, key_path, field, old_value, new_value, source)
+  select p_project_id, t.id, r ->> 'key_path', 'key_path', t.key_path, r ->> 'key_path', p_source
+    from jsonb_array_elements(p_renames) r
+    join translations t on t.id = (r ->> 'id')::uuid and t.project_id = p_project_id;
+
+  update translations t
+     set key_path = '__renaming__.' || t.id::text,
+         original_key = coalesce(nullif(t.original_key, ''), t.key_path)
+    from jsonb_array_elements(p_renames) r
+   where t.id = (r ->> 'id')::uuid and t.project_id = p_project_id;
+
+  get diagnostics renamed = row_count;
+  if renamed <> jsonb_array_length(p_renames) then
+    raise exception 'Some of the keys to rename no longer exist';
+  end if;
+
+  update translations t
+     set key_path = r ->> 'key_path'
+    from jsonb_array_elements(p_renames) r
+   where t.id = (r ->> 'id')::uuid and t.project_id = p_project_id;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- 13. Key path rules
+-- Per-project naming rules for key paths. Only the settings that
+-- differ from the app defaults are stored; an empty object means
+-- snake_case, every reserved-word list, and no limits.
+-- ============================================================
+alter table projects add column if not exists key_rules jsonb not null default '{}';
+
+-- ============================================================
+-- 14. Full design token fields
+-- Token-level $description and $extensions, and group-level
+-- $description and $type, so a Figma export → upload → export
+-- cycle keeps them. extensions holds the token's whole
+-- $extensions object; figma_variable_id stays as the editable
+-- copy of its com.figma.variableId. Properties of the file itself
+-- (such as Figma's mode name) use group_path ''. Translators and
+-- reviewers may not change either new token field.
+-- ============================================================
+alter table translations add column if not exists description text;
+alter table translations add column if not exists extensions jsonb not null default '{}';
+alter table group_extensions add column if not exists description text;
+alter table group_extensions add column if not exists token_type text;
+
+alter table translation_history drop constraint if exists translation_history_field_check;
+alter table translation_history add constraint translation_history_field_check
+  check (field in ('value', 'variants', 'key_path', 'token_type', 'figma_variable_id', 'description', 'extensions'));
+
+create or replace function enforce_translator_scope()
+returns trigger as $$
+declare
+  lang text;
+begin
+  if current_user_role() is distinct from 'translator' then
+    return new;
+  end if;
+
+  if new.key_path is distinct from old.key_path
+     or new.token_type is distinct from old.token_type
+     or new.figma_variable_id is distinct from old.figma_variable_id
+     or new.description is distinct from old.description
+     or new.extensions is distinct from old.extensions
+     or new.original_key is distinct from old.original_key
+     or new.variant_kind is distinct from old.variant_kind
+     or new.variant_arg is distinct from old.variant_arg
+     or new.project_id is distinct from old.project_id then
+    raise exception 'Translators can only edit translation values';
+  end if;
+
+  for lang in
+    select jsonb_object_keys(new.lang_values)
+    union
+    select jsonb_object_keys(old.lang_values)
+    union
+    select jsonb_object_keys(new.lang_variants)
+    union
+    select jsonb_object_keys(old.lang_variants)
+  loop
+    if ((new.lang_values -> lang) is distinct from (old.lang_values -> lang)
+        or (new.lang_variants -> lang) is distinct from (old.lang_variants -> lang))
+       and not (lang = any(coalesce(current_user_languages(), '{}'))) then
+      raise exception 'You are not allowed to edit % values', lang;
+    end if;
+  end loop;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create or replace function enforce_review_scope()
+returns trigger as $$
+declare
+  user_role text := current_user_role();
+  lang text;
+  next_status text;
+begin
+  if user_role = 'reviewer' and (
+       new.lang_values is distinct from old.lang_values
+       or new.lang_variants is distinct from old.lang_variants
+       or new.variant_kind is distinct from old.variant_kind
+       or new.variant_arg is distinct from old.variant_arg
+       or new.key_path is distinct from old.key_path
+       or new.token_type is distinct from old.token_type
+       or new.figma_variable_id is distinct from old.figma_variable_id
+       or new.description is distinct from old.description
+       or new.extensions is distinct from old.extensions
+       or new.original_key is distinct from old.original_key
+       or new.project_id is distinct from old.project_id) then
+    raise exception 'Reviewers can only change review status';
+  end if;
+
+  if coalesce(user_role, '') not in ('admin', 'reviewer') then
+    for lang in
+      select jsonb_object_keys(new.lang_status)
+      union
+      select jsonb_object_keys(old.lang_status)
+    loop
+      if (new.lang_status -> lang) is distinct from (old.lang_status -> lang) then
+        if user_role = 'translator' and not (lang = any(coalesce(current_user_languages(), '{}'))) then
+          raise exception 'You are not allowed to review % values', lang;
+        end if;
+
+        next_status := new.lang_status -> lang ->> 'status';
+        if next_status is not null and next_status not in ('draft', 'needs_review') then
+          raise exception 'Only reviewers can approve or reject values';
+        end if;
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- 15. Key aliases
+-- A value that is only {other.key.path} references that key, as
+-- in W3C design tokens. It is only an alias while that key
+-- exists; a placeholder such as {count} with no key of that name
+-- is plain text. When a key is renamed, aliases pointing at it,
+-- as a value or as a plural/select form, are rewritten to the new
+-- path, so renames (including the temporary paths rename_keys goes
+-- through) never break them. Only values naming the renamed key
+-- are touched, and those were aliases since the key existed. The
+-- rename itself is what the history records.
+-- ============================================================
+
+-- p_value, pointed at p_to if it is an alias of p_from
+create or replace function retargeted_alias(p_value jsonb, p_from text, p_to text)
+returns jsonb as $$
+  select case when jsonb_typeof(p_value) = 'string'
+               and btrim(substring(btrim(p_value #>> '{}') from '^\{([^{}"]+)\}$')) = p_from
+              then to_jsonb('{' || p_to || '}')
+              else p_value end;
+$$ language sql immutable;
+
+create or replace function retarget_aliases()
+returns trigger as $$
+begin
+  update translations t
+     set lang_values = (
+           select coalesce(jsonb_object_agg(v.key, retargeted_alias(v.value, old.key_path, new.key_path)), '{}')
+             from jsonb_each(t.lang_values) v),
+         lang_variants = (
+           select coalesce(jsonb_object_agg(f.key, (
+                    select coalesce(jsonb_object_agg(c.key, retargeted_alias(c.value, old.key_path, new.key_path)), '{}')
+                      from jsonb_each(f.value) c)), '{}')
+             from jsonb_each(t.lang_variants) f)
+   where t.project_id = new.project_id
+     and (exists (
+            select 1 from jsonb_each(t.lang_values) v
+             where retargeted_alias(v.value, old.key_path, new.key_path) <> v.value)
+          or exists (
+            select 1 from jsonb_each(t.lang_variants) f, jsonb_each(f.value) c
+             where retargeted_alias(c.value, old.key_path, new.key_path) <> c.value));
+  return null;
+end;
+$$ language plpgsql;
+
+drop trigger if exists translations_retarget_aliases on translations;
+create trigger translations_retarget_aliases
+  after update of key_path on translations
+  for each row when (old.key_path is distinct from new.key_path)
+  execute function retarget_aliases();
+
+-- ============================================================
+-- 16. Group moves
+-- Moving a group renames its keys and the group_extensions rows
+-- at and below its path. rename_keys takes both, so a failed move
+-- can't leave a group's $type, $description or $extensions behind
+-- at the old path. Group rows move through a temporary path like
+-- the keys do. The three-argument version is dropped so callers
+-- that leave p_group_renames out still find a single function.
+-- ============================================================
+drop function if exists rename_keys(uuid, jsonb, text);
+
+create or replace function rename_keys(
+  p_project_id uuid,
+  p_renames jsonb,
+  p_source text default 'bulk',
+  p_group_renames jsonb default '[]'
+)
+returns void as $$
+declare
+  renamed integer;
+begin
+  insert into translation_history (project_id, translation_id, key_path, field, old_value, new_value, source)
+  select p_project_id, t.id, r ->> 'key_path', 'key_path', t.key_path, r ->> 'key_path', p_source
+    from jsonb_array_elements(p_renames) r
+    join translations t on t.id = (r ->> 'id')::uuid and t.project_id = p_project_id;
+
+  update translations t
+     set key_path = '__renaming__.' || t.id::text,
+         original_key = coalesce(nullif(t.original_key, ''), t.key_path)
+    from jsonb_array_elements(p_renames) r
+   where t.id = (r ->> 'id')::uuid and t.project_id = p_project_id;
+
+  get diagnostics renamed = row_count;
+  if renamed <> jsonb_array_length(p_renames) then
+    raise exception 'Some of the keys to rename no longer exist';
+  end if;
+
+  update translations t
+     set key_path = r ->> 'key_path'
+    from jsonb_array_elements(p_renames) r
+   where t.id = (r ->> 'id')::uuid and t.project_id = p_project_id;
+
+  update group_extensions g
+     set group_path = '__renaming__.' || g.id::text
+    from jsonb_array_elements(p_group_renames) r
+   where g.id = (r ->> 'id')::uuid and g.project_id = p_project_id;
+
+  get diagnostics renamed = row_count;
+  if renamed <> jsonb_array_length(p_group_renames) then
+    raise exception 'Some of the groups to move no longer exist';
+  end if;
+
+  update group_extensions g
+     set group_path = r ->> 'group_path'
+    from jsonb_array_elements(p_group_renames) r
+   where g.id = (r ->> 'id')::uuid and g.project_id = p_project_id;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- 17. New accounts start without access
+-- Section 10 lets reviewers approve values, so an account that
+-- signs itself up must not become one. New profiles get no role;
+-- every policy checks current_user_role(), which is then null, so
+-- the account can read and change nothing until an admin gives it
+-- a role. Existing accounts keep theirs.
+-- ============================================================
+alter table profiles alter column role drop default;
+alter table profiles alter column role drop not null;
+
+-- Such an account still reads its own profile, to learn it has no access
+drop policy if exists "Profiles readable by members" on profiles;
+create policy "Profiles readable by members"
+  on profiles for select to authenticated
+  using (id = auth.uid() or current_user_role() is not null);
+
+-- ============================================================
+-- 18. Bulk value edits
+-- save_value_edits applies a batch of value edits, and their
+-- history, in one transaction. Each edit names one language of one
+-- key and the value it was made on ("from"); it only applies while
+-- the key still holds that value, so a concurrent change to the
+-- same cell wins and the edit is reported back as stale. Only that
+-- language is written, so edits to other languages of the same key
+-- made meanwhile are kept. Plural/select forms travel as JSON text
+-- like in the history; their "other" form is the language's value.
+-- Returns the changed rows and the positions of the stale edits.
+-- ============================================================
+create or replace function save_value_edits(p_project_id uuid, p_edits jsonb, p_source text default 'bulk')
+returns jsonb as $$
+declare
+  edit jsonb;
+  n integer := 0;
+  lang text;
+  field text;
+  path text;
+  changed uuid[] := '{}';
+  stale integer[] := '{}';
+begin
+  for edit in select value from jsonb_array_elements(p_edits)
+  loop
+    lang := edit ->> 'language';
+    field := edit ->> 'field';
+
+    update translations t
+       set lang_values = t.lang_values || jsonb_build_object(lang,
+             case when field = 'value' then edit ->> 'to'
+                  else nullif((edit ->> 'to')::jsonb ->> 'other', '') end),
+           lang_variants = case when field = 'value' then t.lang_variants
+                                when edit ->> 'to' is null then t.lang_variants - lang
+                                else t.lang_variants || jsonb_build_object(lang, (edit ->> 'to')::jsonb) end
+     where t.id = (edit ->> 'id')::uuid
+       and t.project_id = p_project_id
+       and case when field = 'value' then (t.lang_values ->> lang) is not distinct from (edit ->> 'from')
+                else (t.lang_variants -> lang) is not distinct from (edit ->> 'from')::jsonb end
+    returning t.key_path into path;
+
+    if found then
+      insert into translation_history (project_id, translation_id, key_path, field, language, old_value, new_value, source)
+      values (p_project_id, (edit ->> 'id')::uuid, path, field, lang, edit ->> 'from', edit ->> 'to', p_source);
+      changed := changed || (edit ->> 'id')::uuid;
+    else
+      stale := stale || n;
+    end if;
+    n := n + 1;
+  end loop;
+
+  return jsonb_build_object(
+    'rows', (select coalesce(jsonb_agg(to_jsonb(t)), '[]') from translations t where t.id = any(changed)),
+    'stale', to_jsonb(stale));
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- 19. Bulk key actions
+-- Review statuses, token types and deletes for a whole selection,
+-- each in one transaction like save_value_edits, so a failure
+-- changes nothing. Statuses are merged per language: an entry of
+-- null clears that language's status (back to draft) and other
+-- languages keep theirs. Each returns what it changed.
+-- ============================================================
+create or replace function save_review_statuses(p_project_id uuid, p_changes jsonb)
+returns setof translations as $$
+  update translations t
+     set lang_status = (t.lang_status - array(
+                         select s.key from jsonb_each(r.statuses) s where jsonb_typeof(s.value) = 'null'))
+                       || (select coalesce(jsonb_object_agg(s.key, s.value), '{}')
+                             from jsonb_each(r.statuses) s where jsonb_typeof(s.value) <> 'null')
+    from jsonb_to_recordset(p_changes) as r(id uuid, statuses jsonb)
+   where t.id = r.id and t.project_id = p_project_id
+  returning t.*;
+$$ language sql;
+
+create or replace function save_token_types(p_project_id uuid, p_ids jsonb, p_token_type text, p_source text default 'bulk')
+returns setof translations as $$
+begin
+  insert into translation_history (project_id, translation_id, key_path, field, old_value, new_value, source)
+  select p_project_id, t.id, t.key_path, 'token_type', t.token_type, p_token_type, p_source
+    from translations t
+   where t.id in (select value::uuid from jsonb_array_elements_text(p_ids))
+     and t.project_id = p_project_id
+     and t.token_type is distinct from p_token_type;
+
+  return query
+  update translations t
+     set token_type = p_token_type
+   where t.id in (select value::uuid from jsonb_array_elements_text(p_ids))
+     and t.project_id = p_project_id
+     and t.token_type is distinct from p_token_type
+  returning t.*;
+end;
+$$ language plpgsql;
+
+create or replace function delete_keys(p_project_id uuid, p_ids jsonb)
+returns setof uuid as $$
+  delete from translations t
+   where t.id in (select value::uuid from jsonb_array_elements_text(p_ids))
+     and t.project_id = p_project_id
+  returning t.id;
+$$ language sql;
+
+-- ============================================================
+-- 20. Key merges
+-- merge_keys fills in the kept key's missing values, points the
+-- aliases of the removed keys at it and deletes them, in one
+-- transaction. If any of those values changed since the merge was
+-- planned, or a removed key is already gone, nothing is merged, so
+-- no alias is left pointing at a deleted key.
+-- ============================================================
+create or replace function merge_keys(p_project_id uuid, p_edits jsonb, p_remove jsonb, p_source text default 'bulk')
+returns setof translations as $$
+declare
+  saved jsonb;
+  removed integer;
+begin
+  saved := save_value_edits(p_project_id, p_edits, p_source);
+  if jsonb_array_length(saved -> 'stale') > 0 then
+    raise exception 'Some values changed since the merge was planned; nothing was merged';
+  end if;
+
+  delete from translations t
+   where t.id in (select value::uuid from jsonb_array_elements_text(p_remove))
+     and t.project_id = p_project_id;
+
+  get diagnostics removed = row_count;
+  if removed <> jsonb_array_length(p_remove) then
+    raise exception 'Some of the keys to merge no longer exist';
+  end if;
+
+  return query select * from jsonb_populate_recordset(null::translations, saved -> 'rows');
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- 21. Content edit timestamps
+-- updated_at also moves when only a review status changes, so an
+-- approved row looked hand-edited to the "database wins" upload
+-- strategy. content_updated_at only moves when anything but the
+-- review status changes; a row counts as edited when it is later
+-- than imported_at. Existing rows take their last change in the
+-- edit history other than an upload, or else their import time.
+-- ============================================================
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'translations' and column_name = 'content_updated_at'
+  ) then
+    alter table translations add column content_updated_at timestamptz;
+    update translations t
+       set content_updated_at = coalesce(
+             (select max(h.changed_at) from translation_history h
+               where h.translation_id = t.id and h.source <> 'upload'),
+             t.imported_at,
+             t.updated_at);
+    alter table translations alter column content_updated_at set default now();
+    alter table translations alter column content_updated_at set not null;
+  end if;
+end $$;
+
+create or replace function stamp_content_updated_at()
+returns trigger as $$
+declare
+  bookkeeping text[] := array['lang_status', 'updated_at', 'imported_at', 'content_updated_at'];
+begin
+  if (to_jsonb(new) - bookkeeping) is distinct from (to_jsonb(old) - bookkeeping) then
+    new.content_updated_at = now();
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists translations_content_updated_at on translations;
+create trigger translations_content_updated_at
+  before update on translations
+  for each row execute function stamp_content_updated_at();